@@ -1,38 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PrismaClient } from '@prisma/client';
-
-const prisma = new PrismaClient();
+import { authenticateRequest } from '@/lib/auth-middleware';
+import { prisma } from '@/lib/prisma';
 
+/**
+ * Create or refresh the signed-in user's row in our users table.
+ * Identity comes only from the verified session; the request body is ignored.
+ */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { id, email, name, avatar } = body;
+    const { auth, error, status } = await authenticateRequest(request, { allowGuests: false });
+    if (!auth?.user) {
+      return NextResponse.json({ error }, { status });
+    }
 
-    if (!id || !email) {
+    const { id, email, user_metadata: metadata } = auth.user;
+    if (!email) {
       return NextResponse.json(
-        { error: 'Missing required fields: id, email' },
+        { error: 'Account has no email address' },
         { status: 400 }
       );
     }
 
-    // Upsert user in our custom users table
+    const name = metadata?.full_name || email.split('@')[0];
+    const avatar = metadata?.avatar_url;
+
+    // Upsert user in our custom users table; plan and credits are never set from the client
     const user = await prisma.user.upsert({
       where: { id },
       update: {
         email,
         name,
         avatar,
-        updatedAt: new Date(),
       },
       create: {
         id,
         email,
         name,
         avatar,
-        plan: 'FREE',
-        credits: 10,
-        createdAt: new Date(),
-        updatedAt: new Date(),
       },
     });
 
@@ -54,7 +58,5 @@ export async function POST(request: NextRequest) {
       { error: 'Failed to sync user' },
       { status: 500 }
     );
-  } finally {
-    await prisma.$disconnect();
   }
-}
\ No newline at end of file
+}
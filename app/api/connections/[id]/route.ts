@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth-middleware';
+import { sanitizeMCPServers } from '@/lib/agent-request';
+import { revokeConnection, updateConnection, validateConnectionInput } from '@/lib/credential-vault';
+
+/**
+ * Update a saved connection. Omitted fields are kept, so rotating a password
+ * or API key only sends the new value.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const input = await request.json();
+    const validationError = validateConnectionInput(input, 'update');
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const connection = await updateConnection(id, user.id, {
+      ...input,
+      mcpServers: input.mcpServers ? sanitizeMCPServers(input.mcpServers) : undefined,
+    });
+    if (!connection) {
+      return NextResponse.json({ error: 'Connection not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, connection });
+
+  } catch (error) {
+    console.error('Connection update error:', error);
+    return NextResponse.json({
+      error: 'Failed to update connection'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Revoke a saved connection; its ID stops working immediately
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const revoked = await revokeConnection(id, user.id);
+    if (!revoked) {
+      return NextResponse.json({ error: 'Connection not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Connection revoke error:', error);
+    return NextResponse.json({
+      error: 'Failed to revoke connection'
+    }, { status: 500 });
+  }
+}
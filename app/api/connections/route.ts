@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth-middleware';
+import { sanitizeMCPServers } from '@/lib/agent-request';
+import { createConnection, isVaultEnabled, listConnections, validateConnectionInput } from '@/lib/credential-vault';
+
+/**
+ * List the signed-in user's saved connections (never includes secrets)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isVaultEnabled()) {
+      return NextResponse.json({ enabled: false, connections: [] });
+    }
+
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ enabled: true, connections: [] });
+    }
+
+    const connections = await listConnections(user.id);
+    return NextResponse.json({ enabled: true, connections });
+
+  } catch (error) {
+    console.error('Connections route error:', error);
+    return NextResponse.json({
+      error: 'Failed to load connections'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Encrypt and store a connection; returns its opaque ID
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isVaultEnabled()) {
+      return NextResponse.json({ error: 'Credential vault is not configured' }, { status: 503 });
+    }
+
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to save connections' }, { status: 401 });
+    }
+
+    const input = await request.json();
+    const validationError = validateConnectionInput(input);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const connection = await createConnection(user.id, { ...input, mcpServers: sanitizeMCPServers(input.mcpServers) });
+    return NextResponse.json({ success: true, connection });
+
+  } catch (error) {
+    console.error('Connections route error:', error);
+    return NextResponse.json({
+      error: 'Failed to save connection'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth-middleware';
+import { revokeApiKey } from '@/lib/api-keys';
+
+/**
+ * Revoke an API key; requests using it fail immediately
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const revoked = await revokeApiKey(id, user.id);
+    if (!revoked) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('API key revoke error:', error);
+    return NextResponse.json({
+      error: 'Failed to revoke API key'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth-middleware';
+import { createApiKey, listApiKeys, validateApiKeyInput } from '@/lib/api-keys';
+
+/**
+ * List the signed-in user's API keys (never includes the keys themselves)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const keys = await listApiKeys(user.id);
+    return NextResponse.json({ keys });
+
+  } catch (error) {
+    console.error('API keys route error:', error);
+    return NextResponse.json({
+      error: 'Failed to load API keys'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Mint an API key ({ name, scopes, expires_in_days? }). The key is in this response only.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to create API keys' }, { status: 401 });
+    }
+
+    const input = await request.json();
+    const validationError = validateApiKeyInput(input);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const result = await createApiKey(user.id, {
+      name: input.name,
+      scopes: input.scopes,
+      expiresInDays: input.expires_in_days ?? null
+    });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true, key: result.key, apiKey: result.apiKey });
+
+  } catch (error) {
+    console.error('API keys route error:', error);
+    return NextResponse.json({
+      error: 'Failed to create API key'
+    }, { status: 500 });
+  }
+}
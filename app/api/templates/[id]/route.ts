@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth-middleware';
+import { deleteTemplate } from '@/lib/template-storage';
+
+/**
+ * Delete one of the signed-in user's templates (built-ins cannot be deleted)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const deleted = await deleteTemplate(id, user.id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Template delete error:', error);
+    return NextResponse.json({
+      error: 'Failed to delete template'
+    }, { status: 500 });
+  }
+}
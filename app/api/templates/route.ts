@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isTemplatesEnabled } from '@/lib/agents/wp-agent';
+import { getRequestUser } from '@/lib/auth-middleware';
+import { createTemplate, listTemplates, validateTemplateInput } from '@/lib/template-storage';
+
+/**
+ * List built-in templates plus the signed-in user's own templates
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isTemplatesEnabled()) {
+      return NextResponse.json({ enabled: false, templates: [] });
+    }
+
+    const user = await getRequestUser(request);
+    const templates = await listTemplates(user?.id);
+
+    return NextResponse.json({ enabled: true, templates });
+
+  } catch (error) {
+    console.error('Templates route error:', error);
+    return NextResponse.json({
+      error: 'Failed to load templates'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Save a new template for the signed-in user
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isTemplatesEnabled()) {
+      return NextResponse.json({ error: 'Templates are disabled' }, { status: 403 });
+    }
+
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to save templates' }, { status: 401 });
+    }
+
+    const input = await request.json();
+    const validationError = validateTemplateInput(input);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const template = await createTemplate(user.id, input);
+    return NextResponse.json({ success: true, template });
+
+  } catch (error) {
+    console.error('Templates route error:', error);
+    return NextResponse.json({
+      error: 'Failed to save template'
+    }, { status: 500 });
+  }
+}
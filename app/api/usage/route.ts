@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth-middleware';
+import { getUsageReport, MAX_USAGE_REPORT_DAYS } from '@/lib/agents/wp-agent';
+
+/**
+ * The signed-in user's token usage and cost for the last `days` days, by day, site and thread
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to see usage' }, { status: 401 });
+    }
+
+    const days = Number(request.nextUrl.searchParams.get('days') ?? 30);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_USAGE_REPORT_DAYS) {
+      return NextResponse.json({ error: `days must be between 1 and ${MAX_USAGE_REPORT_DAYS}` }, { status: 400 });
+    }
+
+    const report = await getUsageReport(user.id, { days });
+    return NextResponse.json({ report });
+
+  } catch (error) {
+    console.error('Usage route error:', error);
+    return NextResponse.json({
+      error: 'Failed to load usage'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  findRunningThreadRun,
+  getAgentRuns,
+  getPendingApproval,
+  getSiteLabel,
+  resumeWordPressOperations,
+  startAgentRun,
+  streamAgentRun
+} from '@/lib/agents/wp-agent';
+import { resolveRequestAgentConfig } from '@/lib/agent-request';
+import { authenticateApiKey, getRunLinks } from '@/lib/api-keys';
+import { checkRunQuota, settleRunCredits } from '@/lib/quota';
+import { createEventsSSEResponse, createSSEResponse } from '@/lib/sse';
+
+/**
+ * Resume a run that paused for approval (it ended with an approval_required event and is
+ * still the latest run on its thread). Per-call decisions must name the pending tool calls.
+ * Body: { approved?, tool_calls?: { <tool call id>: boolean }, reason?, connection_id? | wordpress_credentials?, stream? }.
+ * The resumed turn is a new run on the same thread: 202 with it and its links, or its SSE stream.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError, status: authStatus } = await authenticateApiKey(request, 'runs:write');
+    if (!auth) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const { id } = await params;
+    const [run] = await getAgentRuns([id]);
+    if (!run || run.userId !== auth.userId) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    const { approved, tool_calls, reason, connection_id, wordpress_credentials, stream } = await request.json();
+    if (typeof approved !== 'boolean' && !tool_calls) {
+      return NextResponse.json({ error: 'approved or tool_calls is required' }, { status: 400 });
+    }
+
+    if (run.status === 'RUNNING' || await findRunningThreadRun(run.threadId)) {
+      return NextResponse.json({ error: 'A run is already in progress on this thread' }, { status: 409 });
+    }
+    const pending = await getPendingApproval(run.threadId);
+    if (!pending || pending.runId !== id) {
+      return NextResponse.json({ error: 'Run is not waiting for approval' }, { status: 409 });
+    }
+    if (tool_calls && (typeof tool_calls !== 'object' || Object.keys(tool_calls).some(callId => !pending.toolCallIds.includes(callId)))) {
+      return NextResponse.json({ error: 'tool_calls must map the pending tool call IDs to decisions' }, { status: 400 });
+    }
+
+    const { config, error, status } = await resolveRequestAgentConfig(
+      request,
+      { connection_id, wordpress_credentials },
+      { userId: auth.userId }
+    );
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const quotaExceeded = await checkRunQuota(request, { id: auth.userId });
+    if (quotaExceeded) {
+      return stream
+        ? createEventsSSEResponse([quotaExceeded, { type: 'complete' }])
+        : NextResponse.json({ error: quotaExceeded.message, quota: quotaExceeded }, { status: 402 });
+    }
+
+    const runId = startAgentRun(
+      signal => resumeWordPressOperations(run.threadId, {
+        approved: approved === true,
+        toolCalls: tool_calls,
+        reason
+      }, config, signal),
+      {
+        threadId: run.threadId,
+        userId: auth.userId,
+        siteId: connection_id,
+        site: getSiteLabel(config.wordpressUrl),
+        onFinish: ({ usage }) => settleRunCredits(auth.userId, usage)
+      }
+    );
+    if (!runId) {
+      return NextResponse.json({ error: 'A run is already in progress on this thread' }, { status: 409 });
+    }
+    console.log(`🔑 API key ${auth.keyId} resumed run ${id} as ${runId}`);
+
+    if (stream) {
+      return createSSEResponse(streamAgentRun(runId), { runId });
+    }
+
+    const [resumed] = await getAgentRuns([runId]);
+    return NextResponse.json({ run: { ...resumed, links: getRunLinks(runId) } }, { status: 202 });
+
+  } catch (error) {
+    console.error('API v1 run approve route error:', error);
+    return NextResponse.json({
+      error: 'Failed to resume run'
+    }, { status: 500 });
+  }
+}
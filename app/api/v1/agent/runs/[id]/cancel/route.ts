@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelAgentRun, getAgentRuns } from '@/lib/agents/wp-agent';
+import { authenticateApiKey } from '@/lib/api-keys';
+
+/**
+ * Cancel a run at its next safe point; its transcript lists what completed
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error, status } = await authenticateApiKey(request, 'runs:write');
+    if (!auth) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { id } = await params;
+    const [run] = await getAgentRuns([id]);
+    if (!run || run.userId !== auth.userId) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    switch (await cancelAgentRun(id)) {
+      case 'not_found':
+        return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+      case 'finished':
+        return NextResponse.json({ error: 'Run already finished' }, { status: 409 });
+      case 'unavailable':
+        return NextResponse.json({ error: 'Run is not active on this server' }, { status: 409 });
+    }
+
+    return NextResponse.json({ cancelled: true });
+
+  } catch (error) {
+    console.error('API v1 run cancel route error:', error);
+    return NextResponse.json({
+      error: 'Failed to cancel run'
+    }, { status: 500 });
+  }
+}
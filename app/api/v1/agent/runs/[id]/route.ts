@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAgentRuns } from '@/lib/agents/wp-agent';
+import { authenticateApiKey } from '@/lib/api-keys';
+
+/**
+ * A run's status; poll until it is no longer RUNNING, then fetch its transcript
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error, status } = await authenticateApiKey(request, 'runs:read');
+    if (!auth) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { id } = await params;
+    const [run] = await getAgentRuns([id]);
+    // Other users' runs are indistinguishable from missing ones
+    if (!run || run.userId !== auth.userId) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ run });
+
+  } catch (error) {
+    console.error('API v1 run route error:', error);
+    return NextResponse.json({
+      error: 'Failed to load run'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAgentRuns, streamAgentRun } from '@/lib/agents/wp-agent';
+import { authenticateApiKey } from '@/lib/api-keys';
+import { createSSEResponse } from '@/lib/sse';
+
+/**
+ * Stream a run's events as SSE: replays events after `after` (a seq number), then follows the run
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error, status } = await authenticateApiKey(request, 'runs:read');
+    if (!auth) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { id } = await params;
+    const after = Number(request.nextUrl.searchParams.get('after') ?? -1);
+    if (!Number.isInteger(after) || after < -1) {
+      return NextResponse.json({ error: 'after must be a sequence number' }, { status: 400 });
+    }
+
+    const [run] = await getAgentRuns([id]);
+    if (!run || run.userId !== auth.userId) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    return createSSEResponse(streamAgentRun(id, after), { runId: id });
+
+  } catch (error) {
+    console.error('API v1 run stream route error:', error);
+    return NextResponse.json({
+      error: 'Failed to stream run'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildRunTranscript, getAgentRunEvents, getAgentRuns } from '@/lib/agents/wp-agent';
+import { authenticateApiKey } from '@/lib/api-keys';
+
+/**
+ * A run's transcript: assistant text, tool calls with results, errors and token usage.
+ * Partial while the run is RUNNING; add ?events=true for the raw stream events too.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error, status } = await authenticateApiKey(request, 'runs:read');
+    if (!auth) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { id } = await params;
+    const [run] = await getAgentRuns([id]);
+    if (!run || run.userId !== auth.userId) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    const events = await getAgentRunEvents(id);
+    const transcript = buildRunTranscript(run, events);
+    const includeEvents = request.nextUrl.searchParams.get('events') === 'true';
+
+    return NextResponse.json({ transcript, ...(includeEvents && { events }) });
+
+  } catch (error) {
+    console.error('API v1 run transcript route error:', error);
+    return NextResponse.json({
+      error: 'Failed to load transcript'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  findRunningThreadRun,
+  getAgentRuns,
+  getSiteLabel,
+  listUserAgentRuns,
+  startAgentRun,
+  streamAgentRun,
+  streamWordPressOperations
+} from '@/lib/agents/wp-agent';
+import { resolveRequestAgentConfig } from '@/lib/agent-request';
+import { authenticateApiKey, getRunLinks } from '@/lib/api-keys';
+import { checkRunQuota, settleRunCredits } from '@/lib/quota';
+import { createEventsSSEResponse, createSSEResponse } from '@/lib/sse';
+import { authorizeThread } from '@/lib/thread-ownership';
+
+const MAX_LIST_LIMIT = 100;
+
+/**
+ * List the API key owner's recent runs (?limit=, newest first)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { auth, error, status } = await authenticateApiKey(request, 'runs:read');
+    if (!auth) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const limit = Number(request.nextUrl.searchParams.get('limit') ?? 20);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+      return NextResponse.json({ error: `limit must be between 1 and ${MAX_LIST_LIMIT}` }, { status: 400 });
+    }
+
+    const runs = await listUserAgentRuns(auth.userId, limit);
+    return NextResponse.json({ runs: runs.map(run => ({ ...run, links: getRunLinks(run.id) })) });
+
+  } catch (error) {
+    console.error('API v1 runs route error:', error);
+    return NextResponse.json({
+      error: 'Failed to list runs'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Start an agent run. Body: { message, thread_id?, connection_id? | wordpress_credentials?, dry_run?, stream? }.
+ * Returns 202 with the run and its links, or the run's SSE stream when `stream` is true.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { auth, error: authError, status: authStatus } = await authenticateApiKey(request, 'runs:write');
+    if (!auth) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const { message, thread_id, connection_id, wordpress_credentials, dry_run, stream } = await request.json();
+    if (typeof message !== 'string' || !message.trim()) {
+      return NextResponse.json({ error: 'message is required' }, { status: 400 });
+    }
+
+    const threadId = thread_id || `thread_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    // A thread ID continues the key owner's own thread; other threads are indistinguishable from missing ones
+    const { error: threadError, status: threadStatus } = await authorizeThread(request, { userId: auth.userId }, threadId, { claim: true });
+    if (threadError) {
+      return NextResponse.json({ error: threadError }, { status: threadStatus });
+    }
+    if (await findRunningThreadRun(threadId)) {
+      return NextResponse.json({ error: 'A run is already in progress on this thread' }, { status: 409 });
+    }
+
+    const { config, error, status } = await resolveRequestAgentConfig(
+      request,
+      { connection_id, wordpress_credentials },
+      { userId: auth.userId }
+    );
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+    config.dryRun = dry_run === true;
+
+    const quotaExceeded = await checkRunQuota(request, { id: auth.userId });
+    if (quotaExceeded) {
+      return stream
+        ? createEventsSSEResponse([quotaExceeded, { type: 'complete' }])
+        : NextResponse.json({ error: quotaExceeded.message, quota: quotaExceeded }, { status: 402 });
+    }
+
+    const runId = startAgentRun(
+      signal => streamWordPressOperations(message, threadId, config, signal),
+      {
+        threadId,
+        userId: auth.userId,
+        siteId: connection_id,
+        site: getSiteLabel(config.wordpressUrl),
+        onFinish: ({ usage }) => settleRunCredits(auth.userId, usage)
+      }
+    );
+    if (!runId) {
+      return NextResponse.json({ error: 'A run is already in progress on this thread' }, { status: 409 });
+    }
+    console.log(`🔑 API key ${auth.keyId} started run ${runId}`);
+
+    if (stream) {
+      return createSSEResponse(streamAgentRun(runId), { runId });
+    }
+
+    const [run] = await getAgentRuns([runId]);
+    return NextResponse.json({ run: { ...run, links: getRunLinks(runId) } }, { status: 202 });
+
+  } catch (error) {
+    console.error('API v1 runs route error:', error);
+    return NextResponse.json({
+      error: 'Failed to start run'
+    }, { status: 500 });
+  }
+}
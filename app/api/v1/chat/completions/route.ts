@@ -0,0 +1,105 @@
+import { NextRequest } from 'next/server';
+import {
+  cancelAgentRun,
+  findRunningThreadRun,
+  getSiteLabel,
+  startAgentRun,
+  streamAgentRun,
+  streamWordPressOperations
+} from '@/lib/agents/wp-agent';
+import { resolveRequestAgentConfig } from '@/lib/agent-request';
+import { authenticateApiKey } from '@/lib/api-keys';
+import { checkRunQuota, settleRunCredits } from '@/lib/quota';
+import {
+  collectChatCompletion,
+  createChatCompletionStream,
+  openAIError,
+  parseChatCompletionRequest
+} from '@/lib/openai-compat';
+import { authorizeThread } from '@/lib/thread-ownership';
+
+/**
+ * OpenAI-compatible chat completions backed by the WordPress agent.
+ * Point an OpenAI client at {app}/api/v1 with a personal API key (runs:write).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { auth, error: authError, status: authStatus } = await authenticateApiKey(request, 'runs:write');
+    if (!auth) {
+      return openAIError(authError!, authStatus!, authStatus === 403 ? 'permission_error' : 'authentication_error');
+    }
+
+    const body = await request.json().catch(() => null);
+    const { input, error: inputError } = parseChatCompletionRequest(request, body);
+    if (!input) {
+      return openAIError(inputError!, 400);
+    }
+
+    // A conversation ID continues its thread, as long as it is the key owner's
+    const threadId = input.conversationId || `thread_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const { error: threadError } = await authorizeThread(request, { userId: auth.userId }, threadId, { claim: true });
+    if (threadError) {
+      return openAIError('Conversation not found', 404, 'invalid_request_error', 'conversation_not_found');
+    }
+    if (await findRunningThreadRun(threadId)) {
+      return openAIError('A response is already being generated in this conversation', 409, 'invalid_request_error', 'conversation_busy');
+    }
+
+    const { config, error, status } = await resolveRequestAgentConfig(
+      request,
+      { connection_id: input.connectionId },
+      { userId: auth.userId }
+    );
+    if (error) {
+      // An unknown connection ID means the model does not exist for this user
+      return status === 404
+        ? openAIError(`The model "${input.model}" does not exist`, 404, 'invalid_request_error', 'model_not_found')
+        : openAIError(error, status ?? 500, 'server_error');
+    }
+
+    const quotaExceeded = await checkRunQuota(request, { id: auth.userId });
+    if (quotaExceeded) {
+      return openAIError(quotaExceeded.message, 429, 'insufficient_quota', 'insufficient_quota');
+    }
+
+    const runId = startAgentRun(
+      signal => streamWordPressOperations(input.prompt, threadId, config, signal),
+      {
+        threadId,
+        userId: auth.userId,
+        siteId: input.connectionId,
+        site: getSiteLabel(config.wordpressUrl),
+        onFinish: ({ usage }) => settleRunCredits(auth.userId, usage)
+      }
+    );
+    if (!runId) {
+      return openAIError('A response is already being generated in this conversation', 409, 'invalid_request_error', 'conversation_busy');
+    }
+    console.log(`🔌 Chat completion run ${runId} started with API key ${auth.keyId}`);
+
+    // OpenAI clients stop a completion by disconnecting, so that cancels the run
+    const cancel = () => {
+      void cancelAgentRun(runId);
+    };
+
+    if (input.stream) {
+      return createChatCompletionStream(runId, streamAgentRun(runId), {
+        model: input.model,
+        threadId,
+        includeUsage: input.includeUsage,
+        onDisconnect: cancel
+      });
+    }
+
+    request.signal.addEventListener('abort', cancel, { once: true });
+    try {
+      return await collectChatCompletion(runId, streamAgentRun(runId), { model: input.model, threadId });
+    } finally {
+      request.signal.removeEventListener('abort', cancel);
+    }
+
+  } catch (error) {
+    console.error('Chat completions route error:', error);
+    return openAIError('Failed to create chat completion', 500, 'server_error');
+  }
+}
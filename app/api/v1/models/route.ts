@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiKey } from '@/lib/api-keys';
+import { isVaultEnabled, listConnections } from '@/lib/credential-vault';
+import { WPAGENT_MODEL_ID, openAIError } from '@/lib/openai-compat';
+
+/**
+ * OpenAI-compatible model list: the agent on the default site, plus one model per saved connection
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { auth, error, status } = await authenticateApiKey(request, 'runs:write');
+    if (!auth) {
+      return openAIError(error!, status!, status === 403 ? 'permission_error' : 'authentication_error');
+    }
+
+    const connections = isVaultEnabled() ? await listConnections(auth.userId) : [];
+
+    return NextResponse.json({
+      object: 'list',
+      data: [
+        { id: WPAGENT_MODEL_ID, object: 'model', created: 0, owned_by: 'wpagent' },
+        ...connections.map(connection => ({
+          id: `${WPAGENT_MODEL_ID}:${connection.id}`,
+          object: 'model',
+          created: Math.floor(new Date(connection.createdAt).getTime() / 1000),
+          owned_by: 'wpagent',
+          name: connection.name, // Not part of the OpenAI schema; shown by clients that read it
+        })),
+      ],
+    });
+
+  } catch (error) {
+    console.error('Models route error:', error);
+    return openAIError('Failed to list models', 500, 'server_error');
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  findRunningThreadRun,
+  getPendingApproval,
+  getSiteLabel,
+  resumeWordPressOperations,
+  startAgentRun,
+  streamAgentRun
+} from '@/lib/agents/wp-agent';
+import { resolveRequestAgentConfig } from '@/lib/agent-request';
+import { authenticateRequest } from '@/lib/auth-middleware';
+import { checkRunQuota, settleRunCredits } from '@/lib/quota';
+import { createEventsSSEResponse, createSSEResponse } from '@/lib/sse';
+import { authorizeThread } from '@/lib/thread-ownership';
+
+/**
+ * Resume a run paused on an approval_required event (the thread's latest run).
+ * Approved tool calls run; rejected ones are reported back to the agent as not executed.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { auth, error: authError, status: authStatus } = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const { thread_id, approved, tool_calls, reason, connection_id, wordpress_credentials } = await request.json();
+
+    if (!thread_id) {
+      return NextResponse.json({ error: 'thread_id is required' }, { status: 400 });
+    }
+
+    const { error: threadError, status: threadStatus } = await authorizeThread(request, auth, thread_id);
+    if (threadError) {
+      return NextResponse.json({ error: threadError }, { status: threadStatus });
+    }
+    if (await findRunningThreadRun(thread_id)) {
+      return NextResponse.json({ error: 'A run is already in progress on this thread' }, { status: 409 });
+    }
+
+    if (typeof approved !== 'boolean' && !tool_calls) {
+      return NextResponse.json({ error: 'approved or tool_calls is required' }, { status: 400 });
+    }
+
+    const pending = await getPendingApproval(thread_id);
+    if (!pending) {
+      return NextResponse.json({ error: 'Thread is not waiting for approval' }, { status: 409 });
+    }
+    if (tool_calls && (typeof tool_calls !== 'object' || Object.keys(tool_calls).some(callId => !pending.toolCallIds.includes(callId)))) {
+      return NextResponse.json({ error: 'tool_calls must map the pending tool call IDs to decisions' }, { status: 400 });
+    }
+
+    const { config, error, status } = await resolveRequestAgentConfig(
+      request,
+      { connection_id, wordpress_credentials },
+      { userId: auth.user?.id ?? null }
+    );
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    // A resumed run calls the model again, so it is metered like a new message (guests included)
+    const user = auth.user;
+    const quotaExceeded = await checkRunQuota(request, user);
+    if (quotaExceeded) {
+      return createEventsSSEResponse([quotaExceeded, { type: 'complete' }]);
+    }
+
+    const runId = startAgentRun(
+      signal => resumeWordPressOperations(thread_id, {
+        approved: approved === true,
+        toolCalls: tool_calls,
+        reason
+      }, config, signal),
+      {
+        threadId: thread_id,
+        userId: user?.id,
+        siteId: connection_id,
+        site: getSiteLabel(config.wordpressUrl),
+        onFinish: user ? ({ usage }) => settleRunCredits(user.id, usage) : undefined
+      }
+    );
+    if (!runId) {
+      return NextResponse.json({ error: 'A run is already in progress on this thread' }, { status: 409 });
+    }
+    return createSSEResponse(streamAgentRun(runId), { runId });
+
+  } catch (error) {
+    console.error('Approval route error:', error);
+    return NextResponse.json({
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
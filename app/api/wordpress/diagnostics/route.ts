@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSiteCapabilities } from '@/lib/agents/wp-agent';
+import { resolveRequestCredentials } from '@/lib/agent-request';
+import { authenticateRequest } from '@/lib/auth-middleware';
+import { validateOutboundUrl } from '@/lib/outbound-urls';
+import { runConnectionDiagnostics } from '@/lib/wordpress-diagnostics';
+
+/**
+ * Diagnose a site connection: REST API, permalinks, HTTPS, application passwords,
+ * authentication, capabilities, WordPress version and plugin namespaces
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { auth, error: authError, status: authStatus } = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const { connection_id, wordpress_credentials } = await request.json();
+
+    const { credentials, error, status } = await resolveRequestCredentials(
+      request,
+      { connection_id, wordpress_credentials },
+      { userId: auth.user?.id ?? null }
+    );
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    // The server's WordPress credentials are only ever sent to the server's own site
+    const { url, username, password } = credentials?.url
+      ? { url: credentials.url, username: credentials.username, password: credentials.password }
+      : { url: process.env.WORDPRESS_URL, username: process.env.WORDPRESS_USERNAME, password: process.env.WORDPRESS_APP_PASSWORD };
+    if (!url || !username || !password) {
+      return NextResponse.json({ error: 'WordPress URL, username and application password are required' }, { status: 400 });
+    }
+
+    if (credentials?.url) {
+      const urlError = validateOutboundUrl(url, 'WordPress URL');
+      if (urlError) {
+        return NextResponse.json({ error: urlError }, { status: 400 });
+      }
+    }
+
+    const diagnostics = await runConnectionDiagnostics({ url, username, password });
+
+    // Connecting refreshes what the agent believes this site supports
+    if (diagnostics.user) {
+      void getSiteCapabilities({ url, username, password }, { refresh: true });
+    }
+
+    return NextResponse.json({ diagnostics });
+
+  } catch (error) {
+    console.error('Diagnostics route error:', error);
+    return NextResponse.json({
+      error: 'Failed to run connection diagnostics'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWordPressMCPStatus } from '@/lib/agents/wp-agent';
+import { resolveRequestAgentConfig } from '@/lib/agent-request';
+import { authenticateRequest } from '@/lib/auth-middleware';
+import { mcpClientManager } from '@/lib/mcp-client-manager';
+
+/**
+ * MCP client pool health: how many site clients are in each state
+ */
+export async function GET() {
+  try {
+    const pool = mcpClientManager.getPoolStats();
+    const healthy = pool.states.failed === 0 && pool.states.reconnecting === 0;
+
+    return NextResponse.json({ status: healthy ? 'ok' : 'degraded', pool }, { status: healthy ? 200 : 503 });
+
+  } catch (error) {
+    console.error('Health route error:', error);
+    return NextResponse.json({
+      error: 'Failed to check MCP health'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Health of one site's MCP client. Pass probe: true to ping (or connect) it first.
+ * Without a connection or credentials this is the server's own site, which only signed-in users may check.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { auth, error: authError, status: authStatus } = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const { connection_id, wordpress_credentials, probe } = await request.json();
+
+    const usesEnvSite = !connection_id && !wordpress_credentials?.url && !wordpress_credentials?.mcpUrl;
+    if (usesEnvSite && !auth.user) {
+      return NextResponse.json({ error: 'Sign in to check the server\'s WordPress site' }, { status: 401 });
+    }
+
+    // Model settings are not needed to check the MCP connection, so only auth and URL errors apply
+    const { config, error, status: errorStatus } = await resolveRequestAgentConfig(
+      request,
+      { connection_id, wordpress_credentials },
+      { userId: auth.user?.id ?? null }
+    );
+    if (error && errorStatus !== 500) {
+      return NextResponse.json({ error }, { status: errorStatus });
+    }
+    const status = await getWordPressMCPStatus(config, { probe: probe === true });
+
+    if (!status) {
+      return NextResponse.json({ error: 'WordPress credentials are not configured' }, { status: 400 });
+    }
+
+    return NextResponse.json({ status });
+
+  } catch (error) {
+    console.error('Health route error:', error);
+    return NextResponse.json({
+      error: 'Failed to check MCP health'
+    }, { status: 500 });
+  }
+}
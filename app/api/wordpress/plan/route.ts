@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { executeWordPressPlan, findRunningThreadRun, getSiteLabel, startAgentRun, streamAgentRun } from '@/lib/agents/wp-agent';
+import { resolveRequestAgentConfig } from '@/lib/agent-request';
+import { authenticateRequest } from '@/lib/auth-middleware';
+import { settleRunCredits } from '@/lib/quota';
+import { createSSEResponse } from '@/lib/sse';
+import { authorizeThread } from '@/lib/thread-ownership';
+
+/**
+ * Execute the selected steps of a dry-run plan on a thread.
+ * Unselected steps are recorded as skipped; an empty selection discards the plan.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { auth, error: authError, status: authStatus } = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const { thread_id, step_ids, connection_id, wordpress_credentials } = await request.json();
+
+    if (!thread_id) {
+      return NextResponse.json({ error: 'thread_id is required' }, { status: 400 });
+    }
+
+    const { error: threadError, status: threadStatus } = await authorizeThread(request, auth, thread_id);
+    if (threadError) {
+      return NextResponse.json({ error: threadError }, { status: threadStatus });
+    }
+    if (await findRunningThreadRun(thread_id)) {
+      return NextResponse.json({ error: 'A run is already in progress on this thread' }, { status: 409 });
+    }
+
+    if (!Array.isArray(step_ids)) {
+      return NextResponse.json({ error: 'step_ids must be an array' }, { status: 400 });
+    }
+
+    const { config, error, status } = await resolveRequestAgentConfig(
+      request,
+      { connection_id, wordpress_credentials },
+      { userId: auth.user?.id ?? null }
+    );
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    // Plan steps call tools, not the model, so no run credit is taken up front
+    const user = auth.user;
+    const runId = startAgentRun(
+      signal => executeWordPressPlan(thread_id, step_ids, config, signal),
+      {
+        threadId: thread_id,
+        userId: user?.id,
+        siteId: connection_id,
+        site: getSiteLabel(config.wordpressUrl),
+        onFinish: user ? ({ usage }) => settleRunCredits(user.id, usage, 0) : undefined
+      }
+    );
+    if (!runId) {
+      return NextResponse.json({ error: 'A run is already in progress on this thread' }, { status: 409 });
+    }
+    return createSSEResponse(streamAgentRun(runId), { runId });
+
+  } catch (error) {
+    console.error('Plan route error:', error);
+    return NextResponse.json({
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
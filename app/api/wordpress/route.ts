@@ -1,72 +1,182 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { streamWordPressOperations } from '@/lib/agents/wp-agent';
-
+import {
+  expandTemplate,
+  findRunningThreadRun,
+  getSiteLabel,
+  isTemplatesEnabled,
+  MAX_FANOUT_SITES,
+  startAgentRun,
+  streamAgentRun,
+  streamFanOutOperations,
+  streamWordPressOperations,
+  type FanOutSite,
+  type ToolPlanStep
+} from '@/lib/agents/wp-agent';
+import { resolveRequestAgentConfig } from '@/lib/agent-request';
+import { authenticateRequest } from '@/lib/auth-middleware';
+import { checkRunQuota, settleRunCredits } from '@/lib/quota';
+import { getTemplate } from '@/lib/template-storage';
+import { authorizeThread } from '@/lib/thread-ownership';
+import { createEventsSSEResponse, createSSEResponse } from '@/lib/sse';
 
+/**
+ * Run the agent on a message (or a fixed plan for site groups) and stream its events.
+ * Signed-in users are verified from their Supabase session; requests without one run as guests.
+ */
 export async function POST(request: NextRequest) {
   try {
-    const { message, thread_id, wordpress_credentials } = await request.json();
+    // Signed-in users are metered by credits and get their token usage recorded; guests by IP and device
+    const { auth, error: authError, status: authStatus } = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+    const user = auth.user;
+
+    const {
+      message: rawMessage,
+      template,
+      thread_id,
+      dry_run,
+      connection_id,
+      wordpress_credentials,
+      sites,
+      plan,
+      concurrency
+    } = await request.json();
+    let message = rawMessage;
+
+    // Expand a task template ({ id, inputs }) into a structured instruction
+    if (template?.id) {
+      if (!isTemplatesEnabled()) {
+        return NextResponse.json({ error: 'Templates are disabled' }, { status: 403 });
+      }
+
+      const taskTemplate = await getTemplate(template.id, user?.id);
+      if (!taskTemplate) {
+        return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+      }
+
+      const { instruction, errors } = expandTemplate(taskTemplate, template.inputs);
+      if (!instruction) {
+        return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+      }
+
+      message = rawMessage ? `${instruction}\n\nAdditional notes: ${rawMessage}` : instruction;
+    }
     
-    if (!message) {
+    const isFixedPlan = Array.isArray(plan) && plan.length > 0;
+    if (!message && !(Array.isArray(sites) && isFixedPlan)) {
       return NextResponse.json({ error: 'Message is required' }, { status: 400 });
     }
 
     // Generate or use provided thread_id
     const threadId = thread_id || `thread_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-    // Check for API key: prioritize client-provided, then env
-    const anthropicApiKey = wordpress_credentials?.anthropicApiKey || process.env.ANTHROPIC_API_KEY;
-    if (!anthropicApiKey) {
-      return NextResponse.json({
-        error: 'Anthropic API key not configured. Please add it in WordPress Settings.'
-      }, { status: 500 });
+    // A thread is continued only by whoever started it
+    const { error: threadError, status: threadStatus } = await authorizeThread(request, auth, threadId, { claim: true });
+    if (threadError) {
+      return NextResponse.json({ error: threadError }, { status: threadStatus });
     }
+    if (await findRunningThreadRun(threadId)) {
+      return NextResponse.json({ error: 'A run is already in progress on this thread' }, { status: 409 });
+    }
+
+    // Fan-out mode: run against every site in a group ({ id, name, connection_id | wordpress_credentials })
+    if (Array.isArray(sites)) {
+      if (sites.length === 0 || sites.length > MAX_FANOUT_SITES) {
+        return NextResponse.json({ error: `A site group needs between 1 and ${MAX_FANOUT_SITES} sites` }, { status: 400 });
+      }
+      if (isFixedPlan && plan.some((step: any) => typeof step?.tool !== 'string' || !step.tool)) {
+        return NextResponse.json({ error: 'Every plan step needs a tool name' }, { status: 400 });
+      }
 
-    // WordPress credentials: prioritize client-provided (from localStorage), then env
-    const wordpressUrl = wordpress_credentials?.url || process.env.WORDPRESS_URL;
-    const wordpressUsername = wordpress_credentials?.username || process.env.WORDPRESS_USERNAME;
-    const wordpressPassword = wordpress_credentials?.password || process.env.WORDPRESS_APP_PASSWORD;
+      const fanOutSites: FanOutSite[] = [];
+      for (const [index, site] of sites.entries()) {
+        const resolved = await resolveRequestAgentConfig(request, {
+          connection_id: site?.connection_id,
+          wordpress_credentials: site?.wordpress_credentials,
+        }, { userId: user?.id ?? null });
+        const name = String(site?.name || site?.id || `Site ${index + 1}`);
+        if (resolved.error) {
+          return NextResponse.json({ error: `${name}: ${resolved.error}` }, { status: resolved.status });
+        }
 
-    // Create a readable stream for SSE
-    const encoder = new TextEncoder();
-    
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          const wpStream = streamWordPressOperations(message, threadId, {
-            anthropicApiKey,
-            wordpressUrl,
-            wordpressUsername,
-            wordpressAppPassword: wordpressPassword
-          });
-
-          for await (const event of wpStream) {
-            // Stream events directly from LangGraph
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
-          }
-          
-          // Send completion signal
-          const completionData = { type: 'complete' };
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(completionData)}\n\n`));
-          
-          controller.close();
-        } catch (error) {
-          const errorEvent = {
-            type: 'error',
-            content: `Server error: ${(error as Error).message}`
-          };
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(errorEvent)}\n\n`));
-          controller.close();
+        resolved.config.dryRun = dry_run === true;
+        fanOutSites.push({ id: String(site?.id || `site_${index + 1}`), name, config: resolved.config });
+      }
+
+      // Each site runs on its own thread, which belongs to the group thread's owner
+      for (const site of fanOutSites) {
+        const { error: siteThreadError, status: siteThreadStatus } = await authorizeThread(
+          request,
+          auth,
+          `${threadId}:${site.id}`,
+          { claim: true }
+        );
+        if (siteThreadError) {
+          return NextResponse.json({ error: `${site.name}: ${siteThreadError}` }, { status: siteThreadStatus });
+        }
+        if (await findRunningThreadRun(`${threadId}:${site.id}`)) {
+          return NextResponse.json({ error: `${site.name}: a run is already in progress on this thread` }, { status: 409 });
         }
       }
-    });
 
-    return new NextResponse(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
-    });
+      const steps: ToolPlanStep[] | undefined = isFixedPlan
+        ? plan.map((step: any) => ({ tool: step.tool, args: step.args ?? {} }))
+        : undefined;
+
+      // One run's credits per site
+      const quotaExceeded = await checkRunQuota(request, user, { runs: fanOutSites.length });
+      if (quotaExceeded) {
+        return createEventsSSEResponse([quotaExceeded, { type: 'complete' }]);
+      }
+
+      const runId = startAgentRun(
+        signal => streamFanOutOperations({ message, plan: steps }, fanOutSites, threadId, { concurrency, signal }),
+        {
+          threadId,
+          userId: user?.id,
+          onFinish: user ? ({ usage }) => settleRunCredits(user.id, usage, fanOutSites.length) : undefined
+        }
+      );
+      if (!runId) {
+        return NextResponse.json({ error: 'A run is already in progress on this thread' }, { status: 409 });
+      }
+      return createSSEResponse(streamAgentRun(runId), { runId });
+    }
+
+    const { config, error, status } = await resolveRequestAgentConfig(
+      request,
+      { connection_id, wordpress_credentials },
+      { userId: user?.id ?? null }
+    );
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    // Plan mode: write tools are recorded as a plan instead of executed
+    config.dryRun = dry_run === true;
+
+    const quotaExceeded = await checkRunQuota(request, user);
+    if (quotaExceeded) {
+      return createEventsSSEResponse([quotaExceeded, { type: 'complete' }]);
+    }
+
+    // Run in the background and stream its events as SSE; clients reattach by run ID
+    const runId = startAgentRun(
+      signal => streamWordPressOperations(message, threadId, config, signal),
+      {
+        threadId,
+        userId: user?.id,
+        siteId: connection_id,
+        site: getSiteLabel(config.wordpressUrl),
+        onFinish: user ? ({ usage }) => settleRunCredits(user.id, usage) : undefined
+      }
+    );
+    if (!runId) {
+      return NextResponse.json({ error: 'A run is already in progress on this thread' }, { status: 409 });
+    }
+    return createSSEResponse(streamAgentRun(runId), { runId });
 
   } catch (error) {
     console.error('API route error:', error);
@@ -74,4 +184,4 @@ export async function POST(request: NextRequest) {
       error: 'Internal server error'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelAgentRun, getAgentRuns } from '@/lib/agents/wp-agent';
+import { authenticateRequest } from '@/lib/auth-middleware';
+import { getThreadOwner, isRunOwner } from '@/lib/thread-ownership';
+
+/**
+ * Cancel an agent run. The run stops at its next safe point and its stream ends
+ * with a cancelled event listing the operations that completed.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError, status: authStatus } = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const { id } = await params;
+    const [run] = await getAgentRuns([id]);
+    // Other users' runs are indistinguishable from missing ones
+    if (!run || !(await isRunOwner(run, getThreadOwner(request, auth)))) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    const result = await cancelAgentRun(id);
+
+    switch (result) {
+      case 'not_found':
+        return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+      case 'finished':
+        return NextResponse.json({ error: 'Run already finished' }, { status: 409 });
+      case 'unavailable':
+        return NextResponse.json({ error: 'Run is not active on this server' }, { status: 409 });
+    }
+
+    return NextResponse.json({ cancelled: true });
+
+  } catch (error) {
+    console.error('Run cancel route error:', error);
+    return NextResponse.json({
+      error: 'Failed to cancel run'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAgentRuns, streamAgentRun } from '@/lib/agents/wp-agent';
+import { authenticateRequest } from '@/lib/auth-middleware';
+import { createSSEResponse } from '@/lib/sse';
+import { getThreadOwner, isRunOwner } from '@/lib/thread-ownership';
+
+/**
+ * Reattach to an agent run: replays events after `after` (a seq number), then follows the run
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError, status: authStatus } = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const { id } = await params;
+    const after = Number(request.nextUrl.searchParams.get('after') ?? -1);
+    if (!Number.isInteger(after) || after < -1) {
+      return NextResponse.json({ error: 'after must be a sequence number' }, { status: 400 });
+    }
+
+    const [run] = await getAgentRuns([id]);
+    // Other users' runs are indistinguishable from missing ones
+    if (!run || !(await isRunOwner(run, getThreadOwner(request, auth)))) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    return createSSEResponse(streamAgentRun(id, after), { runId: id });
+
+  } catch (error) {
+    console.error('Run stream route error:', error);
+    return NextResponse.json({
+      error: 'Failed to stream run'
+    }, { status: 500 });
+  }
+}
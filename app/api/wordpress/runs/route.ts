@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAgentRuns } from '@/lib/agents/wp-agent';
+import { authenticateRequest } from '@/lib/auth-middleware';
+import { getThreadOwner, isRunOwner } from '@/lib/thread-ownership';
+
+/**
+ * Upper bound on runs per status lookup
+ */
+const MAX_RUN_IDS = 50;
+
+/**
+ * Look up the status of the caller's agent runs (ids=run_a,run_b), e.g. to show in-progress runs.
+ * Runs of other users are left out, as if they did not exist.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { auth, error: authError, status: authStatus } = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const ids = (request.nextUrl.searchParams.get('ids') || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean);
+
+    if (ids.length === 0) {
+      return NextResponse.json({ error: 'ids is required' }, { status: 400 });
+    }
+    if (ids.length > MAX_RUN_IDS) {
+      return NextResponse.json({ error: `At most ${MAX_RUN_IDS} runs can be looked up at once` }, { status: 400 });
+    }
+
+    const owner = getThreadOwner(request, auth);
+    const runs = [];
+    for (const { userId, ...run } of await getAgentRuns(ids)) {
+      if (await isRunOwner({ ...run, userId }, owner)) runs.push(run);
+    }
+    return NextResponse.json({ runs });
+
+  } catch (error) {
+    console.error('Runs route error:', error);
+    return NextResponse.json({
+      error: 'Failed to load runs'
+    }, { status: 500 });
+  }
+}
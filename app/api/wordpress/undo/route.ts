@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listJournal, undoWordPressChanges } from '@/lib/agents/wp-agent';
+import { resolveRequestAgentConfig } from '@/lib/agent-request';
+import { authenticateRequest } from '@/lib/auth-middleware';
+import { authorizeThread } from '@/lib/thread-ownership';
+
+/**
+ * List the change journal for one of the caller's threads (newest first)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { auth, error: authError, status: authStatus } = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const threadId = request.nextUrl.searchParams.get('thread_id');
+    if (!threadId) {
+      return NextResponse.json({ error: 'thread_id is required' }, { status: 400 });
+    }
+
+    const { error: threadError, status: threadStatus } = await authorizeThread(request, auth, threadId);
+    if (threadError) {
+      return NextResponse.json({ error: threadError }, { status: threadStatus });
+    }
+
+    const entries = await listJournal(threadId);
+    return NextResponse.json({ entries });
+
+  } catch (error) {
+    console.error('Journal route error:', error);
+    return NextResponse.json({
+      error: 'Failed to load change journal'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Undo journaled changes: specific entries (entry_ids) or a whole agent turn (turn_id)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { auth, error: authError, status: authStatus } = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const { thread_id, entry_ids, turn_id, connection_id, wordpress_credentials } = await request.json();
+
+    if (!thread_id) {
+      return NextResponse.json({ error: 'thread_id is required' }, { status: 400 });
+    }
+
+    const { error: threadError, status: threadStatus } = await authorizeThread(request, auth, thread_id);
+    if (threadError) {
+      return NextResponse.json({ error: threadError }, { status: threadStatus });
+    }
+
+    if (!Array.isArray(entry_ids) && !turn_id) {
+      return NextResponse.json({ error: 'entry_ids or turn_id is required' }, { status: 400 });
+    }
+
+    const { config, error, status } = await resolveRequestAgentConfig(
+      request,
+      { connection_id, wordpress_credentials },
+      { userId: auth.user?.id ?? null }
+    );
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const result = await undoWordPressChanges(thread_id, {
+      entryIds: Array.isArray(entry_ids) ? entry_ids : undefined,
+      turnId: turn_id
+    }, config);
+
+    return NextResponse.json({ success: result.failed.length === 0, ...result });
+
+  } catch (error) {
+    console.error('Undo route error:', error);
+    return NextResponse.json({
+      error: 'Failed to undo changes'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,9 @@
+import { UsageDashboard } from '@/components/usage/UsageDashboard';
+
+export default function UsagePage() {
+  return (
+    <div className="w-full min-h-screen bg-background">
+      <UsageDashboard />
+    </div>
+  );
+}
@@ -1,9 +1,12 @@
 'use client';
 
 import { useState, useRef, KeyboardEvent } from 'react';
-import { ArrowUp, Plus, Paperclip, Square, X, FileText, Image, File, Crown } from 'lucide-react';
+import { ArrowUp, Plus, Paperclip, Square, X, FileText, Image, File, Crown, ListChecks } from 'lucide-react';
 import { Button } from '../ui/button';
+import { TemplatePicker } from './TemplatePicker';
 import type { User } from '@supabase/supabase-js';
+import type { TaskTemplate, TemplateInputs, TokenUsage } from '@/lib/agents/wp-agent/types';
+import { formatCost, formatTokens } from '@/lib/utils';
 
 interface AttachedFile {
   id: string;
@@ -23,9 +26,13 @@ interface ChatInputProps {
   onChange?: (value: string) => void;
   user?: User | null;
   userMessageCount?: number;
+  onRunTemplate?: (template: TaskTemplate, inputs: TemplateInputs) => void;
+  planMode?: boolean;
+  onPlanModeChange?: (planMode: boolean) => void;
+  usage?: TokenUsage; // Running total for the current thread
 }
 
-export function ChatInput({ onSendMessage, onStop, isLoading, isStreaming, hasMessages, value, onChange, user, userMessageCount = 0 }: ChatInputProps) {
+export function ChatInput({ onSendMessage, onStop, isLoading, isStreaming, hasMessages, value, onChange, user, userMessageCount = 0, onRunTemplate, planMode = false, onPlanModeChange, usage }: ChatInputProps) {
   const [internalMessage, setInternalMessage] = useState('');
   const message = value !== undefined ? value : internalMessage;
   const setMessage = onChange !== undefined ? onChange : setInternalMessage;
@@ -194,6 +201,32 @@ export function ChatInput({ onSendMessage, onStop, isLoading, isStreaming, hasMe
             <Paperclip className="size-4 text-foreground-muted" />
           </Button>
 
+          {/* Template Picker (hidden when templates are disabled) */}
+          {onRunTemplate && (
+            <TemplatePicker
+              onRunTemplate={onRunTemplate}
+              disabled={isLoading || isStreaming}
+              canSave={!!user}
+            />
+          )}
+
+          {/* Plan Mode Toggle */}
+          {onPlanModeChange && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onPlanModeChange(!planMode)}
+              className={`shrink-0 glass-subtle size-10 p-2 transition-colors ${
+                planMode ? 'bg-[#21759B]/15 text-[#21759B] hover:bg-[#21759B]/20' : 'hover:bg-muted/50'
+              }`}
+              disabled={isLoading || isStreaming}
+              title={planMode ? 'Plan mode on: changes are previewed before running' : 'Plan mode: preview changes before running'}
+              aria-pressed={planMode}
+            >
+              <ListChecks className={`size-4 ${planMode ? '' : 'text-foreground-muted'}`} />
+            </Button>
+          )}
+
           {/* Message Input */}
           <div className="flex-1 relative">
             <textarea
@@ -244,9 +277,17 @@ export function ChatInput({ onSendMessage, onStop, isLoading, isStreaming, hasMe
           <div className="flex items-center justify-between text-xs text-muted-foreground/70">
             <div className="flex items-center gap-4">
               <span>Press Enter to send, Shift+Enter for new line</span>
+              {planMode && (
+                <span className="text-[#21759B]">• Plan mode: changes will be previewed</span>
+              )}
               {attachedFiles.length > 0 && (
                 <span>• {attachedFiles.length} file{attachedFiles.length > 1 ? 's' : ''} attached</span>
               )}
+              {usage && usage.totalTokens > 0 && (
+                <span title={`${usage.inputTokens.toLocaleString()} input / ${usage.outputTokens.toLocaleString()} output tokens`}>
+                  • {formatTokens(usage.totalTokens)} tokens · {formatCost(usage.costUsd)}
+                </span>
+              )}
             </div>
             {/* Message Limit Indicator for Guest Users */}
             {!user && (
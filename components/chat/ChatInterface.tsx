@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { LogIn, UserPlus } from 'lucide-react';
 import { ChatInput } from './ChatInput';
@@ -10,9 +10,33 @@ import { Sidebar } from './Sidebar';
 import { AuthModal } from '@/components/auth/AuthModal';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/useAuth';
-import { saveChat, getChatByThreadId, generateChatTitle } from '@/lib/chat-storage';
-import { getGuestMessageCount, incrementGuestMessageCount, resetGuestMessageCount, hasReachedGuestMessageLimit } from '@/lib/guest-limits';
-import { getWordPressCredentials } from '@/lib/wordpress-connection';
+import { saveChat, getChatByThreadId, generateChatTitle, setChatActiveRun, type ActiveRun } from '@/lib/chat-storage';
+import {
+  getDeviceFingerprintHeaders,
+  getGuestMessageCount,
+  hasReachedGuestMessageLimit,
+  incrementGuestMessageCount,
+  resetGuestMessageCount,
+  saveGuestMessageCount
+} from '@/lib/guest-limits';
+import {
+  getActiveSiteGroup,
+  getActiveSiteProfile,
+  getSiteGroup,
+  getSiteGroupRequestBody,
+  getSiteProfile,
+  getWordPressRequestBody,
+  setActiveSiteGroup,
+  setActiveSiteProfile
+} from '@/lib/wordpress-connection';
+import { authService } from '@/lib/supabase';
+import { parseStreamEvent } from '@/lib/stream-events';
+import { toast } from 'sonner';
+import type { TaskTemplate, TemplateInputs, TokenUsage } from '@/lib/agents/wp-agent/types';
+
+// Reattach attempts after a dropped stream, with a growing delay between them
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_DELAY_MS = 1000;
 
 export interface AttachedFile {
   id: string;
@@ -28,13 +52,48 @@ export interface ToolCall {
   args: Record<string, any>;
   result?: string;
   isLoading?: boolean;
+  approvalStatus?: 'pending' | 'approved' | 'rejected';
+  risk?: 'low' | 'medium' | 'high';
+  planned?: boolean; // Recorded in a dry-run plan, not executed
+  journalEntryId?: string; // Change journal entry, set for undoable updates/deletes
+  undoStatus?: 'available' | 'undoing' | 'undone' | 'failed';
+  site?: string; // Site the call ran on, in fan-out runs
+  siteId?: string; // That site's profile ID, which prefixes the call ID
+}
+
+export interface PlanStepState {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+  risk?: 'low' | 'medium' | 'high';
+  outcome?: 'executed' | 'failed' | 'skipped';
+}
+
+export interface AgentPlan {
+  steps: PlanStepState[];
+  status: 'pending' | 'executing' | 'done' | 'discarded';
+  threadId?: string; // Thread the plan is executed on (a site's own thread in fan-out runs)
+  siteId?: string;
+  site?: string;
 }
 
 // Event-based message chunks for sequential rendering
+export interface SiteRunResult {
+  siteId: string;
+  name: string;
+  status: 'completed' | 'failed' | 'approval_required' | 'planned' | 'cancelled';
+  summary: string;
+  toolCalls: number;
+  errors: string[];
+}
+
 export interface MessageEvent {
-  type: 'text' | 'tool_call' | 'tool_result';
+  type: 'text' | 'tool_call' | 'tool_result' | 'agent_step' | 'plan' | 'site_result';
   content?: string;
   toolCall?: ToolCall;
+  agent?: string; // Sub-agent handling the following steps
+  plan?: AgentPlan; // Dry-run plan awaiting execution
+  siteResult?: SiteRunResult; // One site's outcome in a fan-out run
   timestamp: Date;
 }
 
@@ -46,6 +105,16 @@ export interface Message {
   toolCalls?: ToolCall[];
   attachedFiles?: AttachedFile[];
   events?: MessageEvent[]; // Sequential events for progressive rendering
+  usage?: TokenUsage; // Model usage of the runs that produced this message
+}
+
+function addUsage(total: TokenUsage | undefined, usage: TokenUsage): TokenUsage {
+  return {
+    inputTokens: (total?.inputTokens ?? 0) + usage.inputTokens,
+    outputTokens: (total?.outputTokens ?? 0) + usage.outputTokens,
+    totalTokens: (total?.totalTokens ?? 0) + usage.totalTokens,
+    costUsd: (total?.costUsd ?? 0) + usage.costUsd,
+  };
 }
 
 export function ChatInterface() {
@@ -58,10 +127,15 @@ export function ChatInterface() {
   const [isStreaming, setIsStreaming] = useState(false);
   const [inputValue, setInputValue] = useState('');
   const [abortController, setAbortController] = useState<AbortController | null>(null);
+  const [planMode, setPlanMode] = useState(false); // Dry run: preview writes as a plan
   const [threadId, setThreadId] = useState<string>(() =>
     `thread_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
   );
+  const [threadSiteId, setThreadSiteId] = useState<string | undefined>(); // Site profile the thread is bound to
+  const [threadGroupId, setThreadGroupId] = useState<string | undefined>(); // Site group the thread fans out to
   const [guestMessageCount, setGuestMessageCount] = useState(0);
+  const reattachingRunRef = useRef<string | null>(null);
+  const activeRunIdRef = useRef<string | null>(null); // Run being streamed, so Stop can cancel it
 
   // Auth modal state
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
@@ -104,6 +178,10 @@ export function ChatInterface() {
       if (storedChat) {
         setThreadId(urlThreadId);
         setMessages(storedChat.messages);
+        bindThreadSite(storedChat.siteId, storedChat.groupId);
+        if (storedChat.activeRun) {
+          reattachRun(urlThreadId, storedChat.activeRun);
+        }
         return;
       }
     }
@@ -112,28 +190,40 @@ export function ChatInterface() {
   // Save chat to localStorage whenever messages change
   useEffect(() => {
     if (messages.length > 0) {
-      saveChat(threadId, messages);
+      saveChat(threadId, messages, threadSiteId, threadGroupId);
       // Dispatch custom event to update sidebar
       window.dispatchEvent(new CustomEvent('chatUpdated'));
     }
-  }, [messages, threadId]);
+  }, [messages, threadId, threadSiteId, threadGroupId]);
 
   // Save chat before page unload
   useEffect(() => {
     const handleBeforeUnload = () => {
       if (messages.length > 0) {
-        saveChat(threadId, messages);
+        saveChat(threadId, messages, threadSiteId, threadGroupId);
       }
     };
 
     window.addEventListener('beforeunload', handleBeforeUnload);
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
-  }, [messages, threadId]);
+  }, [messages, threadId, threadSiteId, threadGroupId]);
+
+  // Opening a thread targets the site (or site group) it ran against
+  const bindThreadSite = (siteId?: string, groupId?: string) => {
+    setThreadSiteId(siteId);
+    setThreadGroupId(groupId);
+    if (groupId && getSiteGroup(groupId)) {
+      setActiveSiteGroup(groupId);
+    } else if (siteId && getSiteProfile(siteId)) {
+      setActiveSiteGroup(null);
+      setActiveSiteProfile(siteId);
+    }
+  };
 
   const handleNewChat = () => {
     // Save current chat before starting new one
     if (messages.length > 0) {
-      saveChat(threadId, messages);
+      saveChat(threadId, messages, threadSiteId, threadGroupId);
     }
 
     // Cancel any ongoing streaming
@@ -147,6 +237,8 @@ export function ChatInterface() {
     setIsLoading(false);
     setIsStreaming(false);
     setInputValue('');
+    setThreadSiteId(undefined);
+    setThreadGroupId(undefined);
     
     // Generate new thread ID for new conversation
     const newThreadId = `thread_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -159,7 +251,7 @@ export function ChatInterface() {
   const handleChatSelect = (selectedThreadId: string) => {
     // Save current chat before switching
     if (messages.length > 0 && threadId !== selectedThreadId) {
-      saveChat(threadId, messages);
+      saveChat(threadId, messages, threadSiteId, threadGroupId);
     }
 
     // Cancel any ongoing streaming
@@ -173,6 +265,7 @@ export function ChatInterface() {
     if (storedChat) {
       setThreadId(selectedThreadId);
       setMessages(storedChat.messages);
+      bindThreadSite(storedChat.siteId, storedChat.groupId);
       setIsLoading(false);
       setIsStreaming(false);
       setInputValue('');
@@ -182,15 +275,52 @@ export function ChatInterface() {
     }
   };
 
+  // Switching sites mid-conversation starts a new chat; the old thread stays bound to its site
+  const handleSiteChange = (siteId: string) => {
+    setActiveSiteGroup(null);
+    setActiveSiteProfile(siteId);
+    if (messages.length > 0 && (threadGroupId || (threadSiteId && threadSiteId !== siteId))) {
+      handleNewChat();
+    }
+  };
+
+  // Picking a site group makes new messages fan out to every site in it
+  const handleGroupChange = (groupId: string) => {
+    setActiveSiteGroup(groupId);
+    if (messages.length > 0 && threadGroupId !== groupId) {
+      handleNewChat();
+    }
+  };
+
   const handleFillInput = (content: string) => {
     setInputValue(content);
   };
 
-  const handleStopGeneration = () => {
+  const handleStopGeneration = async () => {
+    // Cancel on the server and keep reading: the run stops at its next safe point and
+    // reports which operations completed
+    const runId = activeRunIdRef.current;
+    if (runId) {
+      try {
+        const response = await fetch(`/api/wordpress/runs/${runId}/cancel`, {
+          method: 'POST',
+          headers: await authService.getAuthHeaders(),
+        });
+        if (response.ok) {
+          toast('Stopping after the current step…');
+          return;
+        }
+      } catch (error) {
+        console.warn('Failed to cancel run:', error);
+      }
+    }
+
+    activeRunIdRef.current = null;
     if (abortController) {
       abortController.abort();
       setAbortController(null);
     }
+    trackActiveRun(threadId, null);
     setIsLoading(false);
     setIsStreaming(false);
   };
@@ -209,8 +339,836 @@ export function ChatInterface() {
     setIsAuthModalOpen(false);
   };
 
-  const handleSendMessage = async (content: string, attachedFiles?: AttachedFile[]) => {
-    if (!content.trim() && (!attachedFiles || attachedFiles.length === 0)) return;
+  // Record the run streaming into a chat, so a reload can reattach to it
+  const trackActiveRun = (runThreadId: string, run: ActiveRun | null) => {
+    setChatActiveRun(runThreadId, run);
+    window.dispatchEvent(new CustomEvent('chatUpdated'));
+  };
+
+  /**
+   * Read an agent run's SSE response into the given assistant message.
+   * If the connection drops before the run completes, reattaches after the last applied event.
+   */
+  const readAgentStream = async (
+    response: Response,
+    assistantMessageId: string,
+    options: {
+      messageExists?: boolean;
+      baseEvents?: number; // Events the message had before this run, when appending to it
+      signal?: AbortSignal;
+      onPlanExecuted?: (result: { executed: string[]; failed: string[]; skipped: string[] }) => void;
+    } = {}
+  ) => {
+    const { messageExists = false, baseEvents, signal, onPlanExecuted } = options;
+    let assistantMessageCreated = messageExists;
+    let accumulatedContent = '';
+
+    let reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error('No response body');
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = ''; // Buffer for incomplete JSON
+    let lastSeq = -1; // Events at or below this were already applied
+    let runId = response.headers.get('X-Run-Id') ?? undefined;
+    let runThreadId = threadId;
+    activeRunIdRef.current = runId ?? null;
+    let pendingUsage: TokenUsage | undefined; // Usage reported before the message existed
+
+    const applyUsage = (usage?: TokenUsage) => {
+      if (usage) pendingUsage = addUsage(pendingUsage, usage);
+      if (!assistantMessageCreated || !pendingUsage) return;
+      const delta = pendingUsage;
+      pendingUsage = undefined;
+      setMessages(prev => prev.map(msg =>
+        msg.id === assistantMessageId ? { ...msg, usage: addUsage(msg.usage, delta) } : msg
+      ));
+    };
+    let reconnectAttempts = 0;
+
+    const reconnect = async () => {
+      while (runId && reconnectAttempts < MAX_RECONNECT_ATTEMPTS) {
+        reconnectAttempts++;
+        await new Promise(resolve => setTimeout(resolve, RECONNECT_DELAY_MS * reconnectAttempts));
+        try {
+          const retry = await fetch(`/api/wordpress/runs/${runId}/stream?after=${lastSeq}`, {
+            headers: await authService.getAuthHeaders(),
+            signal,
+          });
+          if (retry.status === 404) break;
+          if (retry.ok && retry.body) return retry.body.getReader();
+        } catch (error) {
+          if (error instanceof Error && error.name === 'AbortError') throw error;
+        }
+      }
+      return null;
+    };
+
+    while (true) {
+      let done = false;
+      let value: Uint8Array | undefined;
+      try {
+        ({ done, value } = await reader.read());
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') throw error;
+        console.warn('Agent stream dropped:', error);
+        done = true;
+      }
+
+      if (done) {
+        // The run keeps going on the server; pick it up where this stream stopped
+        const nextReader = await reconnect();
+        if (nextReader) {
+          reader = nextReader;
+          buffer = '';
+          continue;
+        }
+
+        if (runId) {
+          toast.error('Lost connection to the agent. Reopen this chat to resume the run.');
+        }
+        activeRunIdRef.current = null;
+        setIsLoading(false);
+        setIsStreaming(false);
+        setAbortController(null);
+        break;
+      }
+
+      const chunk = decoder.decode(value);
+      buffer += chunk;
+      const lines = buffer.split('\n');
+      
+      // Keep the last line in buffer if it doesn't end with newline
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.startsWith('data: ')) {
+          try {
+            const jsonStr = line.slice(6).trim();
+            if (!jsonStr) continue; // Skip empty data lines
+            
+            const eventData = parseStreamEvent(JSON.parse(jsonStr));
+            if (!eventData || eventData.seq <= lastSeq) continue;
+            lastSeq = eventData.seq;
+            reconnectAttempts = 0;
+
+            if (eventData.type === 'run_start') {
+              runId = eventData.run_id;
+              runThreadId = eventData.thread_id ?? threadId;
+              activeRunIdRef.current = runId;
+              trackActiveRun(runThreadId, { id: runId, messageId: assistantMessageId, baseEvents });
+
+            } else if (eventData.type === 'tool_call') {
+              // If we have accumulated text, add it as text event first
+              if (accumulatedContent.trim()) {
+                const textEvent: MessageEvent = {
+                  type: 'text',
+                  content: accumulatedContent,
+                  timestamp: new Date()
+                };
+                
+                if (!assistantMessageCreated) {
+                  const assistantMessage: Message = {
+                    id: assistantMessageId,
+                    content: '',
+                    role: 'assistant',
+                    timestamp: new Date(),
+                    events: [textEvent]
+                  };
+                  setMessages(prev => [...prev, assistantMessage]);
+                  assistantMessageCreated = true;
+                } else {
+                  setMessages(prev => prev.map(msg =>
+                    msg.id === assistantMessageId
+                      ? { ...msg, events: [...(msg.events || []), textEvent] }
+                      : msg
+                  ));
+                }
+                accumulatedContent = '';
+              }
+              
+              // Add tool call event
+              const toolCallEvent: MessageEvent = {
+                type: 'tool_call',
+                toolCall: {
+                  id: eventData.id,
+                  name: eventData.name,
+                  args: eventData.args,
+                  isLoading: true,
+                  site: eventData.site,
+                  siteId: eventData.site_id
+                },
+                timestamp: new Date()
+              };
+              
+              if (!assistantMessageCreated) {
+                const assistantMessage: Message = {
+                  id: assistantMessageId,
+                  content: '',
+                  role: 'assistant',
+                  timestamp: new Date(),
+                  events: [toolCallEvent]
+                };
+                setMessages(prev => [...prev, assistantMessage]);
+                setIsLoading(false);
+                assistantMessageCreated = true;
+              } else {
+                setMessages(prev => prev.map(msg =>
+                  msg.id === assistantMessageId
+                    ? { ...msg, events: [...(msg.events || []), toolCallEvent] }
+                    : msg
+                ));
+              }
+              
+            } else if (eventData.type === 'tool_result') {
+              // Update the matching tool call event with result
+              setMessages(prev => prev.map(msg =>
+                msg.id === assistantMessageId
+                  ? {
+                      ...msg,
+                      events: (msg.events || []).map(evt => {
+                        if (evt.type === 'tool_call' && evt.toolCall?.id === eventData.id) {
+                          return {
+                            ...evt,
+                            toolCall: {
+                              ...evt.toolCall,
+                              result: eventData.content,
+                              isLoading: false,
+                              journalEntryId: eventData.journalEntryId,
+                              undoStatus: eventData.undoable ? 'available' as const : undefined
+                            }
+                          };
+                        }
+                        return evt;
+                      })
+                    }
+                  : msg
+              ));
+              
+            } else if (eventData.type === 'agent_step') {
+              // A specialist sub-agent takes over; its text starts a new block
+              accumulatedContent = '';
+              const stepEvent: MessageEvent = {
+                type: 'agent_step',
+                agent: eventData.agent,
+                content: eventData.task,
+                timestamp: new Date()
+              };
+
+              if (!assistantMessageCreated) {
+                const assistantMessage: Message = {
+                  id: assistantMessageId,
+                  content: '',
+                  role: 'assistant',
+                  timestamp: new Date(),
+                  events: [stepEvent]
+                };
+                setMessages(prev => [...prev, assistantMessage]);
+                setIsLoading(false);
+                assistantMessageCreated = true;
+              } else {
+                setMessages(prev => prev.map(msg =>
+                  msg.id === assistantMessageId
+                    ? { ...msg, events: [...(msg.events || []), stepEvent] }
+                    : msg
+                ));
+              }
+
+            } else if (eventData.type === 'site_complete') {
+              // One site in a fan-out run finished
+              const siteEvent: MessageEvent = {
+                type: 'site_result',
+                siteResult: {
+                  siteId: eventData.site_id,
+                  name: eventData.site,
+                  status: eventData.status,
+                  summary: eventData.summary,
+                  toolCalls: eventData.toolCalls,
+                  errors: eventData.errors || []
+                },
+                timestamp: new Date()
+              };
+
+              if (!assistantMessageCreated) {
+                const assistantMessage: Message = {
+                  id: assistantMessageId,
+                  content: '',
+                  role: 'assistant',
+                  timestamp: new Date(),
+                  events: [siteEvent]
+                };
+                setMessages(prev => [...prev, assistantMessage]);
+                setIsLoading(false);
+                assistantMessageCreated = true;
+              } else {
+                setMessages(prev => prev.map(msg =>
+                  msg.id === assistantMessageId
+                    ? { ...msg, events: [...(msg.events || []), siteEvent] }
+                    : msg
+                ));
+              }
+
+            } else if (eventData.type === 'plan_step') {
+              // Write call recorded in the dry-run plan instead of executed
+              setMessages(prev => prev.map(msg =>
+                msg.id === assistantMessageId
+                  ? {
+                      ...msg,
+                      events: (msg.events || []).map(evt =>
+                        evt.type === 'tool_call' && evt.toolCall && evt.toolCall.id === eventData.id
+                          ? { ...evt, toolCall: { ...evt.toolCall, isLoading: false, planned: true, risk: eventData.risk } }
+                          : evt
+                      )
+                    }
+                  : msg
+              ));
+
+            } else if (eventData.type === 'plan') {
+              // Flush pending text so the checklist renders after the agent's summary
+              const planEvents: MessageEvent[] = [];
+              if (accumulatedContent.trim()) {
+                planEvents.push({ type: 'text', content: accumulatedContent, timestamp: new Date() });
+                accumulatedContent = '';
+              }
+              planEvents.push({
+                type: 'plan',
+                plan: {
+                  steps: eventData.steps,
+                  status: 'pending',
+                  threadId: eventData.thread_id,
+                  siteId: eventData.site_id,
+                  site: eventData.site
+                },
+                timestamp: new Date()
+              });
+
+              if (!assistantMessageCreated) {
+                const assistantMessage: Message = {
+                  id: assistantMessageId,
+                  content: '',
+                  role: 'assistant',
+                  timestamp: new Date(),
+                  events: planEvents
+                };
+                setMessages(prev => [...prev, assistantMessage]);
+                assistantMessageCreated = true;
+              } else {
+                setMessages(prev => prev.map(msg => {
+                  if (msg.id !== assistantMessageId) return msg;
+                  // Streamed text is already in the last text event
+                  const events = msg.events || [];
+                  const newEvents = events[events.length - 1]?.type === 'text'
+                    ? planEvents.filter(evt => evt.type === 'plan')
+                    : planEvents;
+                  return { ...msg, events: [...events, ...newEvents] };
+                }));
+              }
+
+            } else if (eventData.type === 'plan_executed') {
+              onPlanExecuted?.(eventData);
+
+            } else if (eventData.type === 'usage') {
+              applyUsage({
+                inputTokens: eventData.input_tokens,
+                outputTokens: eventData.output_tokens,
+                totalTokens: eventData.total_tokens,
+                costUsd: eventData.cost_usd ?? 0
+              });
+
+            } else if (eventData.type === 'cancelled') {
+              // Run stopped by the user; calls that never started will not get a result
+              const skippedIds = new Set(eventData.skipped.map(call => call.id));
+              setMessages(prev => prev.map(msg =>
+                msg.id === assistantMessageId
+                  ? {
+                      ...msg,
+                      events: (msg.events || []).map(evt =>
+                        evt.type === 'tool_call' && evt.toolCall && skippedIds.has(evt.toolCall.id)
+                          ? { ...evt, toolCall: { ...evt.toolCall, isLoading: false, result: 'Cancelled before it ran' } }
+                          : evt
+                      )
+                    }
+                  : msg
+              ));
+
+            } else if (eventData.type === 'approval_required') {
+              // Run is paused until the user approves or rejects these calls
+              const pendingCalls = new Map<string, any>(
+                (eventData.toolCalls || []).map((call: any) => [call.id, call])
+              );
+              setMessages(prev => prev.map(msg =>
+                msg.id === assistantMessageId
+                  ? {
+                      ...msg,
+                      events: (msg.events || []).map(evt =>
+                        evt.type === 'tool_call' && evt.toolCall && pendingCalls.has(evt.toolCall.id)
+                          ? {
+                              ...evt,
+                              toolCall: {
+                                ...evt.toolCall,
+                                isLoading: false,
+                                approvalStatus: 'pending' as const,
+                                risk: pendingCalls.get(evt.toolCall.id)?.risk
+                              }
+                            }
+                          : evt
+                      )
+                    }
+                  : msg
+              ));
+              setIsLoading(false);
+
+            } else if (eventData.type === 'token' && eventData.content) {
+              accumulatedContent += eventData.content;
+              
+              // Create message if needed
+              if (!assistantMessageCreated) {
+                const assistantMessage: Message = {
+                  id: assistantMessageId,
+                  content: accumulatedContent,
+                  role: 'assistant',
+                  timestamp: new Date(),
+                  events: []
+                };
+                setMessages(prev => [...prev, assistantMessage]);
+                setIsLoading(false);
+                assistantMessageCreated = true;
+              } else {
+                // Update message - check if last event is text
+                setMessages(prev => prev.map(msg => {
+                  if (msg.id !== assistantMessageId) return msg;
+                  
+                  const events = msg.events || [];
+                  const lastEvent = events[events.length - 1];
+                  
+                  // If last event is text, update it with new content
+                  if (lastEvent?.type === 'text') {
+                    return {
+                      ...msg,
+                      content: accumulatedContent,
+                      events: [
+                        ...events.slice(0, -1),
+                        { ...lastEvent, content: accumulatedContent }
+                      ]
+                    };
+                  } else {
+                    // Last event is tool, create new text event
+                    return {
+                      ...msg,
+                      content: accumulatedContent,
+                      events: [
+                        ...events,
+                        {
+                          type: 'text' as const,
+                          content: accumulatedContent,
+                          timestamp: new Date()
+                        }
+                      ]
+                    };
+                  }
+                }));
+              }
+            } else if (eventData.type === 'quota_exceeded') {
+              // The server refused to start the run
+              if (!assistantMessageCreated) {
+                const quotaMessage: Message = {
+                  id: assistantMessageId,
+                  content: eventData.message,
+                  role: 'assistant',
+                  timestamp: new Date(),
+                };
+                setMessages(prev => [...prev, quotaMessage]);
+                assistantMessageCreated = true;
+              } else {
+                setMessages(prev => prev.map(msg =>
+                  msg.id === assistantMessageId ? { ...msg, content: eventData.message } : msg
+                ));
+              }
+
+              if (eventData.reason === 'guest_limit') {
+                saveGuestMessageCount(eventData.limit ?? getGuestMessageCount());
+                setGuestMessageCount(eventData.limit ?? getGuestMessageCount());
+                setAuthMode('signup');
+                setIsAuthModalOpen(true);
+              } else {
+                toast.error(eventData.message);
+              }
+
+            } else if (eventData.type === 'complete') {
+              // Text is already being added progressively via token events
+              // Just finalize the stream
+              applyUsage();
+              activeRunIdRef.current = null;
+              trackActiveRun(runThreadId, null);
+              setIsLoading(false);
+              setIsStreaming(false);
+              setAbortController(null);
+              return;
+            } else if (eventData.type === 'error') {
+              console.error('Streaming error:', eventData.content);
+              activeRunIdRef.current = null;
+              trackActiveRun(runThreadId, null);
+              const errorMsgId = assistantMessageId || `err_${Date.now()}`;
+              if (assistantMessageId === null) {
+                const errorMessage: Message = {
+                  id: errorMsgId,
+                  content: `Error: ${eventData.content || 'Failed to generate workflow'}`,
+                  role: 'assistant',
+                  timestamp: new Date(),
+                };
+                setMessages(prev => [...prev, errorMessage]);
+              } else {
+                setMessages(prev => prev.map(msg =>
+                  msg.id === errorMsgId
+                    ? { ...msg, content: `Error: ${eventData.content || 'Failed to generate workflow'}` }
+                    : msg
+                ));
+              }
+              setIsLoading(false);
+              setIsStreaming(false);
+              setAbortController(null);
+              return;
+            }
+          } catch (parseError) {
+            console.error('Error parsing event data:', parseError);
+          }
+        }
+      }
+    }
+  };
+
+  /**
+   * Reattach to a run that was still streaming when the chat was closed.
+   * The run is replayed from its first event into a clean copy of its message.
+   */
+  const reattachRun = async (runThreadId: string, run: ActiveRun) => {
+    // Effects can fire twice for the same chat; attach once
+    if (reattachingRunRef.current === run.id) return;
+    reattachingRunRef.current = run.id;
+
+    const storedMessages = getChatByThreadId(runThreadId)?.messages ?? [];
+    setMessages(prev => run.baseEvents === undefined
+      ? prev.filter(msg => msg.id !== run.messageId)
+      : prev.map(msg =>
+          msg.id === run.messageId ? { ...msg, events: (msg.events || []).slice(0, run.baseEvents) } : msg
+        ));
+    setIsStreaming(true);
+    const controller = new AbortController();
+    setAbortController(controller);
+
+    try {
+      const response = await fetch(`/api/wordpress/runs/${run.id}/stream`, {
+        headers: await authService.getAuthHeaders(),
+        signal: controller.signal,
+      });
+      if (response.status === 404) {
+        // Run is gone (expired or never persisted); keep what the chat already has
+        trackActiveRun(runThreadId, null);
+        setMessages(storedMessages);
+        setIsStreaming(false);
+        setAbortController(null);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      await readAgentStream(response, run.messageId, {
+        messageExists: run.baseEvents !== undefined,
+        baseEvents: run.baseEvents,
+        signal: controller.signal
+      });
+    } catch (error) {
+      if (!(error instanceof Error && error.name === 'AbortError')) {
+        console.error('Error reattaching to run:', error);
+        toast.error('Could not reconnect to the running agent');
+      }
+      setIsLoading(false);
+      setIsStreaming(false);
+      setAbortController(null);
+    } finally {
+      reattachingRunRef.current = null;
+    }
+  };
+
+  const hasPendingApproval = messages.some(msg =>
+    msg.events?.some(evt => evt.toolCall?.approvalStatus === 'pending')
+  );
+
+  // Fan-out sites run on their own threads (`<thread>:<site>`), and their call and step IDs
+  // carry a `<site>:` prefix that the site's thread does not know
+  const getRunTarget = (siteId?: string) => {
+    if (!siteId || !threadGroupId) {
+      return { threadId, body: getWordPressRequestBody(threadSiteId), toThreadId: (id: string) => id };
+    }
+    const site = getSiteGroupRequestBody(threadGroupId).sites.find(candidate => candidate.id === siteId);
+    if (!site) return null;
+    return {
+      threadId: `${threadId}:${siteId}`,
+      body: { connection_id: site.connection_id, wordpress_credentials: site.wordpress_credentials },
+      toThreadId: (id: string) => id.startsWith(`${siteId}:`) ? id.slice(siteId.length + 1) : id
+    };
+  };
+
+  const handleToolApproval = async (messageId: string, toolCallId: string, approved: boolean) => {
+    const message = messages.find(msg => msg.id === messageId);
+    if (!message) return;
+
+    const siteId = message.events?.find(evt => evt.toolCall?.id === toolCallId)?.toolCall?.siteId;
+    const target = getRunTarget(siteId);
+    if (!target) {
+      toast.error('This site is no longer in the site group');
+      return;
+    }
+
+    const updatedEvents = (message.events || []).map(evt =>
+      evt.type === 'tool_call' && evt.toolCall?.id === toolCallId
+        ? {
+            ...evt,
+            toolCall: {
+              ...evt.toolCall,
+              approvalStatus: approved ? 'approved' as const : 'rejected' as const,
+              isLoading: true
+            }
+          }
+        : evt
+    );
+    setMessages(prev => prev.map(msg =>
+      msg.id === messageId ? { ...msg, events: updatedEvents } : msg
+    ));
+
+    // Wait until every paused call in this turn (on this site, in fan-out runs) has a decision
+    const runEvents = updatedEvents.filter(evt => evt.toolCall?.siteId === siteId);
+    if (runEvents.some(evt => evt.toolCall?.approvalStatus === 'pending')) return;
+
+    const decisions: Record<string, boolean> = {};
+    for (const evt of runEvents) {
+      if (evt.toolCall?.approvalStatus && evt.toolCall.isLoading && evt.toolCall.result === undefined) {
+        decisions[target.toThreadId(evt.toolCall.id)] = evt.toolCall.approvalStatus === 'approved';
+      }
+    }
+
+    setIsStreaming(true);
+    const controller = new AbortController();
+    setAbortController(controller);
+
+    try {
+      const response = await fetch('/api/wordpress/approve', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(await authService.getAuthHeaders()),
+          // Resuming counts against the guest limit like a new message
+          ...(user ? {} : await getDeviceFingerprintHeaders()),
+        },
+        body: JSON.stringify({
+          thread_id: target.threadId,
+          approved: Object.values(decisions).every(Boolean),
+          tool_calls: decisions,
+          ...target.body
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      if (siteId) {
+        // The site's run continues in its own assistant message
+        setMessages(prev => prev.map(msg =>
+          msg.id === messageId
+            ? {
+                ...msg,
+                events: (msg.events || []).map(evt =>
+                  evt.toolCall?.siteId === siteId && evt.toolCall.approvalStatus && evt.toolCall.isLoading
+                    ? { ...evt, toolCall: { ...evt.toolCall, isLoading: false } }
+                    : evt
+                )
+              }
+            : msg
+        ));
+        setIsLoading(true);
+        const resumeMessageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        await readAgentStream(response, resumeMessageId, { signal: controller.signal });
+      } else {
+        await readAgentStream(response, messageId, {
+          messageExists: true,
+          baseEvents: updatedEvents.length,
+          signal: controller.signal
+        });
+      }
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        console.log('Request was aborted by user');
+      } else {
+        console.error('Error resuming run:', error);
+        toast.error('Failed to resume the paused operation');
+      }
+      setIsLoading(false);
+      setIsStreaming(false);
+      setAbortController(null);
+    }
+  };
+
+  const handleRunTemplate = (template: TaskTemplate, inputs: TemplateInputs) => {
+    handleSendMessage('', undefined, { template, inputs });
+  };
+
+  const handlePlanExecution = async (messageId: string, stepIds: string[], executedPlan: AgentPlan) => {
+    const target = getRunTarget(executedPlan.siteId);
+    if (!target) {
+      toast.error('This site is no longer in the site group');
+      return;
+    }
+
+    // A fan-out message has one plan per site
+    const setPlan = (update: (plan: AgentPlan) => AgentPlan) => {
+      setMessages(prev => prev.map(msg =>
+        msg.id === messageId
+          ? {
+              ...msg,
+              events: (msg.events || []).map(evt =>
+                evt.type === 'plan' && evt.plan && evt.plan.siteId === executedPlan.siteId
+                  ? { ...evt, plan: update(evt.plan) }
+                  : evt
+              )
+            }
+          : msg
+      ));
+    };
+
+    setPlan(plan => ({ ...plan, status: stepIds.length > 0 ? 'executing' : 'discarded' }));
+    setIsLoading(true);
+    setIsStreaming(true);
+    const controller = new AbortController();
+    setAbortController(controller);
+
+    try {
+      const response = await fetch('/api/wordpress/plan', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(await authService.getAuthHeaders()),
+        },
+        body: JSON.stringify({
+          thread_id: target.threadId,
+          step_ids: stepIds.map(target.toThreadId),
+          ...target.body
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      // Execution output goes into its own assistant message
+      const executionMessageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      await readAgentStream(response, executionMessageId, {
+        signal: controller.signal,
+        onPlanExecuted: result => {
+          setPlan(plan => ({
+            ...plan,
+            status: stepIds.length > 0 ? 'done' : 'discarded',
+            steps: plan.steps.map(step => ({
+              ...step,
+              outcome: result.executed.includes(target.toThreadId(step.id))
+                ? 'executed'
+                : result.failed.includes(target.toThreadId(step.id)) ? 'failed' : 'skipped'
+            }))
+          }));
+        }
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        console.log('Request was aborted by user');
+      } else {
+        console.error('Error executing plan:', error);
+        toast.error('Failed to execute the plan');
+        setPlan(plan => ({ ...plan, status: 'pending' }));
+      }
+      setIsLoading(false);
+      setIsStreaming(false);
+      setAbortController(null);
+    }
+  };
+
+  const handleUndo = async (messageId: string, entryIds: string[]) => {
+    const setUndoStatus = (ids: string[], status: ToolCall['undoStatus']) => {
+      setMessages(prev => prev.map(msg =>
+        msg.id === messageId
+          ? {
+              ...msg,
+              events: (msg.events || []).map(evt =>
+                evt.type === 'tool_call' && evt.toolCall?.journalEntryId && ids.includes(evt.toolCall.journalEntryId)
+                  ? { ...evt, toolCall: { ...evt.toolCall, undoStatus: status } }
+                  : evt
+              )
+            }
+          : msg
+      ));
+    };
+
+    setUndoStatus(entryIds, 'undoing');
+
+    try {
+      const response = await fetch('/api/wordpress/undo', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(await authService.getAuthHeaders()),
+        },
+        body: JSON.stringify({
+          thread_id: threadId,
+          entry_ids: entryIds,
+          ...getWordPressRequestBody(threadSiteId)
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`);
+      }
+
+      setUndoStatus(result.undone, 'undone');
+      const failedIds = result.failed.map((failure: { id: string }) => failure.id);
+      setUndoStatus(failedIds, 'failed');
+
+      if (failedIds.length > 0) {
+        toast.error(`Could not undo ${failedIds.length} change${failedIds.length > 1 ? 's' : ''}: ${result.failed[0].error}`);
+      } else {
+        toast.success(`Undid ${result.undone.length} change${result.undone.length > 1 ? 's' : ''}`);
+      }
+    } catch (error) {
+      console.error('Error undoing changes:', error);
+      toast.error('Failed to undo changes');
+      setUndoStatus(entryIds, 'available');
+    }
+  };
+
+  const handleSendMessage = async (
+    content: string,
+    attachedFiles?: AttachedFile[],
+    templateRun?: { template: TaskTemplate; inputs: TemplateInputs }
+  ) => {
+    if (!templateRun && !content.trim() && (!attachedFiles || attachedFiles.length === 0)) return;
+
+    // The thread is paused on an interrupt until pending tool calls are decided
+    if (hasPendingApproval) {
+      toast.error('Approve or reject the pending actions before sending a new message');
+      return;
+    }
+
+    // Bind the thread to the active site, or site group, on its first message
+    const isNewThread = !threadSiteId && !threadGroupId;
+    const groupId = isNewThread ? getActiveSiteGroup()?.id : threadGroupId;
+    const siteId = groupId ? undefined : threadSiteId ?? getActiveSiteProfile()?.id;
+    if (groupId && getSiteGroupRequestBody(groupId).sites.length === 0) {
+      toast.error('No connected sites in this group');
+      return;
+    }
 
     // Check global message limit for unauthenticated users
     if (!user && hasReachedGuestMessageLimit()) {
@@ -226,6 +1184,11 @@ export function ChatInterface() {
       setGuestMessageCount(newCount);
     }
 
+    if (isNewThread) {
+      setThreadGroupId(groupId);
+      setThreadSiteId(siteId);
+    }
+
     // Create content for AI processing (includes file content)
     let aiProcessingContent = content.trim();
     if (attachedFiles && attachedFiles.length > 0) {
@@ -246,10 +1209,20 @@ export function ChatInterface() {
       }
     }
 
+    // Templates are expanded server-side; show the template name and inputs
+    const displayContent = templateRun
+      ? [
+          `**${templateRun.template.name}**`,
+          ...templateRun.template.parameters
+            .filter(parameter => templateRun.inputs[parameter.name] !== undefined && templateRun.inputs[parameter.name] !== '')
+            .map(parameter => `- ${parameter.label}: ${String(templateRun.inputs[parameter.name])}`),
+        ].join('\n')
+      : content.trim();
+
     // Create user message for display (does NOT include file content)
     const userMessage: Message = {
       id: Date.now().toString(),
-      content: content.trim(), // Only show user's text, not file content
+      content: displayContent, // Only show user's text, not file content
       role: 'user',
       timestamp: new Date(),
       attachedFiles: attachedFiles,
@@ -266,23 +1239,26 @@ export function ChatInterface() {
 
     // Create ONE assistant message that will hold everything
     const assistantMessageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    let assistantMessageCreated = false;
-    let accumulatedContent = '';
 
     try {
-      // Get WordPress credentials from localStorage (if available)
-      const wpCredentials = getWordPressCredentials();
-      
       // Call server-side API route with streaming
       const response = await fetch('/api/wordpress', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(await authService.getAuthHeaders()),
+          // Guests are limited per device on the server
+          ...(user ? {} : await getDeviceFingerprintHeaders()),
         },
         body: JSON.stringify({
           message: aiProcessingContent, // Send enhanced content with file data to AI
+          template: templateRun
+            ? { id: templateRun.template.id, inputs: templateRun.inputs }
+            : undefined,
           thread_id: threadId,
-          wordpress_credentials: wpCredentials // Include WordPress credentials if available
+          dry_run: planMode, // Record write operations as a plan instead of running them
+          // Saved connection ID, or inline credentials for guests; one entry per site for groups
+          ...(groupId ? getSiteGroupRequestBody(groupId) : getWordPressRequestBody(siteId))
         }),
         signal: controller.signal,
       });
@@ -291,210 +1267,7 @@ export function ChatInterface() {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('No response body');
-      }
-
-      const decoder = new TextDecoder();
-      let buffer = ''; // Buffer for incomplete JSON
-
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) {
-          setIsLoading(false);
-          setIsStreaming(false);
-          setAbortController(null);
-          break;
-        }
-
-        const chunk = decoder.decode(value);
-        buffer += chunk;
-        const lines = buffer.split('\n');
-        
-        // Keep the last line in buffer if it doesn't end with newline
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const jsonStr = line.slice(6).trim();
-              if (!jsonStr) continue; // Skip empty data lines
-              
-              const eventData = JSON.parse(jsonStr);
-              
-              if (eventData.type === 'tool_call') {
-                // If we have accumulated text, add it as text event first
-                if (accumulatedContent.trim()) {
-                  const textEvent: MessageEvent = {
-                    type: 'text',
-                    content: accumulatedContent,
-                    timestamp: new Date()
-                  };
-                  
-                  if (!assistantMessageCreated) {
-                    const assistantMessage: Message = {
-                      id: assistantMessageId,
-                      content: '',
-                      role: 'assistant',
-                      timestamp: new Date(),
-                      events: [textEvent]
-                    };
-                    setMessages(prev => [...prev, assistantMessage]);
-                    assistantMessageCreated = true;
-                  } else {
-                    setMessages(prev => prev.map(msg =>
-                      msg.id === assistantMessageId
-                        ? { ...msg, events: [...(msg.events || []), textEvent] }
-                        : msg
-                    ));
-                  }
-                  accumulatedContent = '';
-                }
-                
-                // Add tool call event
-                const toolCallEvent: MessageEvent = {
-                  type: 'tool_call',
-                  toolCall: {
-                    id: eventData.id,
-                    name: eventData.name,
-                    args: eventData.args,
-                    isLoading: true
-                  },
-                  timestamp: new Date()
-                };
-                
-                if (!assistantMessageCreated) {
-                  const assistantMessage: Message = {
-                    id: assistantMessageId,
-                    content: '',
-                    role: 'assistant',
-                    timestamp: new Date(),
-                    events: [toolCallEvent]
-                  };
-                  setMessages(prev => [...prev, assistantMessage]);
-                  setIsLoading(false);
-                  assistantMessageCreated = true;
-                } else {
-                  setMessages(prev => prev.map(msg =>
-                    msg.id === assistantMessageId
-                      ? { ...msg, events: [...(msg.events || []), toolCallEvent] }
-                      : msg
-                  ));
-                }
-                
-              } else if (eventData.type === 'tool_result') {
-                // Update the matching tool call event with result
-                setMessages(prev => prev.map(msg =>
-                  msg.id === assistantMessageId
-                    ? {
-                        ...msg,
-                        events: (msg.events || []).map(evt => {
-                          if (evt.type === 'tool_call' &&
-                              evt.toolCall?.name === eventData.name &&
-                              evt.toolCall?.isLoading) {
-                            return {
-                              ...evt,
-                              toolCall: {
-                                ...evt.toolCall,
-                                result: eventData.content,
-                                isLoading: false
-                              }
-                            };
-                          }
-                          return evt;
-                        })
-                      }
-                    : msg
-                ));
-                
-              } else if (eventData.type === 'token' && eventData.content) {
-                accumulatedContent += eventData.content;
-                
-                // Create message if needed
-                if (!assistantMessageCreated) {
-                  const assistantMessage: Message = {
-                    id: assistantMessageId,
-                    content: accumulatedContent,
-                    role: 'assistant',
-                    timestamp: new Date(),
-                    events: []
-                  };
-                  setMessages(prev => [...prev, assistantMessage]);
-                  setIsLoading(false);
-                  assistantMessageCreated = true;
-                } else {
-                  // Update message - check if last event is text
-                  setMessages(prev => prev.map(msg => {
-                    if (msg.id !== assistantMessageId) return msg;
-                    
-                    const events = msg.events || [];
-                    const lastEvent = events[events.length - 1];
-                    
-                    // If last event is text, update it with new content
-                    if (lastEvent?.type === 'text') {
-                      return {
-                        ...msg,
-                        content: accumulatedContent,
-                        events: [
-                          ...events.slice(0, -1),
-                          { ...lastEvent, content: accumulatedContent }
-                        ]
-                      };
-                    } else {
-                      // Last event is tool, create new text event
-                      return {
-                        ...msg,
-                        content: accumulatedContent,
-                        events: [
-                          ...events,
-                          {
-                            type: 'text' as const,
-                            content: accumulatedContent,
-                            timestamp: new Date()
-                          }
-                        ]
-                      };
-                    }
-                  }));
-                }
-              } else if (eventData.type === 'complete') {
-                // Text is already being added progressively via token events
-                // Just finalize the stream
-                setIsLoading(false);
-                setIsStreaming(false);
-                setAbortController(null);
-                return;
-              } else if (eventData.type === 'error') {
-                console.error('Streaming error:', eventData.content);
-                const errorMsgId = assistantMessageId || `err_${Date.now()}`;
-                if (assistantMessageId === null) {
-                  const errorMessage: Message = {
-                    id: errorMsgId,
-                    content: `Error: ${eventData.content || 'Failed to generate workflow'}`,
-                    role: 'assistant',
-                    timestamp: new Date(),
-                  };
-                  setMessages(prev => [...prev, errorMessage]);
-                } else {
-                  setMessages(prev => prev.map(msg =>
-                    msg.id === errorMsgId
-                      ? { ...msg, content: `Error: ${eventData.content || 'Failed to generate workflow'}` }
-                      : msg
-                  ));
-                }
-                setIsLoading(false);
-                setIsStreaming(false);
-                setAbortController(null);
-                return;
-              }
-            } catch (parseError) {
-              console.error('Error parsing event data:', parseError);
-            }
-          }
-        }
-      }
+      await readAgentStream(response, assistantMessageId, { signal: controller.signal });
     } catch (error) {
       // Handle abort signal
       if (error instanceof Error && error.name === 'AbortError') {
@@ -526,6 +1299,10 @@ export function ChatInterface() {
   };
 
   const hasMessages = messages.length > 0;
+  const threadUsage = messages.reduce<TokenUsage | undefined>(
+    (total, msg) => msg.usage ? addUsage(total, msg.usage) : total,
+    undefined
+  );
 
   return (
     <div className="flex w-full h-screen bg-gradient-bg overflow-hidden">
@@ -534,6 +1311,10 @@ export function ChatInterface() {
         onNewChat={handleNewChat}
         onChatSelect={handleChatSelect}
         currentThreadId={threadId}
+        currentSiteId={threadSiteId}
+        currentGroupId={threadGroupId}
+        onSiteChange={handleSiteChange}
+        onGroupChange={handleGroupChange}
         user={user}
       />
       
@@ -583,6 +1364,10 @@ export function ChatInterface() {
                   onChange={setInputValue}
                   user={user}
                   userMessageCount={guestMessageCount}
+                  usage={threadUsage}
+                  onRunTemplate={handleRunTemplate}
+                  planMode={planMode}
+                  onPlanModeChange={setPlanMode}
                 />
                 
                 {/* Example Prompt Cards */}
@@ -618,6 +1403,9 @@ export function ChatInterface() {
                 <ChatMessages
                   messages={messages}
                   isLoading={isLoading}
+                  onToolApproval={handleToolApproval}
+                  onPlanExecution={handlePlanExecution}
+                  onUndo={handleUndo}
                 />
               </div>
               <div className="backdrop-blur-md bg-background/80 p-4 shrink-0">
@@ -631,6 +1419,10 @@ export function ChatInterface() {
                   onChange={setInputValue}
                   user={user}
                   userMessageCount={guestMessageCount}
+                  usage={threadUsage}
+                  onRunTemplate={handleRunTemplate}
+                  planMode={planMode}
+                  onPlanModeChange={setPlanMode}
                 />
               </div>
             </>
@@ -1,21 +1,33 @@
 'use client';
 
 import { useEffect, useRef } from 'react';
-import { User, Copy, ThumbsUp, ThumbsDown, FileText, Image, File } from 'lucide-react';
+import { User, Copy, ThumbsUp, ThumbsDown, FileText, Image, File, Bot, Undo2, Globe } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { Button } from '../ui/button';
 import { LogoIcon } from '../ui/Logo';
 import { ToolCallDropdown } from './ToolCallDropdown';
-import type { Message } from './ChatInterface';
+import { PlanChecklist } from './PlanChecklist';
+import type { AgentPlan, Message, SiteRunResult } from './ChatInterface';
+
+const SITE_STATUS_LABELS: Record<SiteRunResult['status'], string> = {
+  completed: 'Completed',
+  failed: 'Failed',
+  approval_required: 'Needs approval',
+  planned: 'Planned',
+  cancelled: 'Cancelled',
+};
 
 
 interface ChatMessagesProps {
   messages: Message[];
   isLoading: boolean;
+  onToolApproval?: (messageId: string, toolCallId: string, approved: boolean) => void;
+  onPlanExecution?: (messageId: string, stepIds: string[], plan: AgentPlan) => void;
+  onUndo?: (messageId: string, entryIds: string[]) => void;
 }
 
-export function ChatMessages({ messages, isLoading }: ChatMessagesProps) {
+export function ChatMessages({ messages, isLoading, onToolApproval, onPlanExecution, onUndo }: ChatMessagesProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const scrollToBottom = () => {
@@ -26,6 +38,12 @@ export function ChatMessages({ messages, isLoading }: ChatMessagesProps) {
     scrollToBottom();
   }, [messages]);
 
+  // Journal entries in this turn that can still be undone
+  const getUndoableEntryIds = (message: Message) =>
+    (message.events || [])
+      .filter(evt => evt.toolCall?.journalEntryId && evt.toolCall.undoStatus === 'available')
+      .map(evt => evt.toolCall!.journalEntryId!);
+
   const handleCopyMessage = async (content: string) => {
     try {
       await navigator.clipboard.writeText(content);
@@ -121,6 +139,18 @@ export function ChatMessages({ messages, isLoading }: ChatMessagesProps) {
                         </div>
                       )}
                       
+                      {event.type === 'agent_step' && event.agent && (
+                        <div
+                          className="flex items-center gap-2 px-1 pt-1 text-xs text-muted-foreground"
+                          title={event.content}
+                        >
+                          <Bot className="size-3.5 text-[#21759B]" />
+                          <span>
+                            Handing off to the <span className="font-medium text-foreground capitalize">{event.agent}</span> specialist
+                          </span>
+                        </div>
+                      )}
+
                       {event.type === 'tool_call' && event.toolCall && (
                         <ToolCallDropdown
                           toolName={event.toolCall.name}
@@ -133,6 +163,48 @@ export function ChatMessages({ messages, isLoading }: ChatMessagesProps) {
                                 : undefined
                           }
                           isLoading={event.toolCall.isLoading}
+                          approvalStatus={event.toolCall.approvalStatus}
+                          risk={event.toolCall.risk}
+                          planned={event.toolCall.planned}
+                          undoStatus={event.toolCall.undoStatus}
+                          site={event.toolCall.site}
+                          onUndo={onUndo && event.toolCall.journalEntryId
+                            ? () => onUndo(message.id, [event.toolCall!.journalEntryId!])
+                            : undefined}
+                          onApprove={onToolApproval ? () => onToolApproval(message.id, event.toolCall!.id, true) : undefined}
+                          onReject={onToolApproval ? () => onToolApproval(message.id, event.toolCall!.id, false) : undefined}
+                        />
+                      )}
+
+                      {event.type === 'site_result' && event.siteResult && (
+                        <div className="my-1.5 rounded-lg border border-border/50 bg-muted/30 px-3 py-2.5 text-sm">
+                          <div className="flex items-center gap-2">
+                            <Globe className="size-4 text-[#21759B]" />
+                            <span className="font-medium text-foreground">{event.siteResult.name}</span>
+                            <span className={`text-xs ml-auto ${
+                              event.siteResult.status === 'failed'
+                                ? 'text-red-600 dark:text-red-400'
+                                : event.siteResult.status === 'completed'
+                                  ? 'text-green-600 dark:text-green-400'
+                                  : 'text-amber-600 dark:text-amber-400'
+                            }`}>
+                              {SITE_STATUS_LABELS[event.siteResult.status]} · {event.siteResult.toolCalls} tool call{event.siteResult.toolCalls === 1 ? '' : 's'}
+                            </span>
+                          </div>
+                          {event.siteResult.summary && (
+                            <div className="mt-1.5 text-muted-foreground whitespace-pre-wrap">{event.siteResult.summary}</div>
+                          )}
+                          {event.siteResult.errors.map((error, errorIndex) => (
+                            <div key={errorIndex} className="mt-1 text-xs text-red-600 dark:text-red-400">{error}</div>
+                          ))}
+                        </div>
+                      )}
+
+                      {event.type === 'plan' && event.plan && (
+                        <PlanChecklist
+                          plan={event.plan}
+                          disabled={isLoading}
+                          onExecute={onPlanExecution ? stepIds => onPlanExecution(message.id, stepIds, event.plan!) : undefined}
                         />
                       )}
                     </div>
@@ -221,6 +293,19 @@ export function ChatMessages({ messages, isLoading }: ChatMessagesProps) {
                   >
                     <ThumbsDown className="size-3" />
                   </Button>
+                  {onUndo && getUndoableEntryIds(message).length > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 px-2 gap-1.5 hover:bg-muted rounded-lg text-xs"
+                      onClick={() => onUndo(message.id, getUndoableEntryIds(message))}
+                      disabled={isLoading}
+                      title="Undo every change made in this turn"
+                    >
+                      <Undo2 className="size-3" />
+                      Undo changes ({getUndoableEntryIds(message).length})
+                    </Button>
+                  )}
                 </div>
               )}
 
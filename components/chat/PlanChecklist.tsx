@@ -0,0 +1,146 @@
+'use client';
+
+import { useState } from 'react';
+import { ListChecks, Check, X, Minus, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import type { AgentPlan, PlanStepState } from './ChatInterface';
+
+interface PlanChecklistProps {
+  plan: AgentPlan;
+  disabled?: boolean;
+  onExecute?: (stepIds: string[]) => void;
+}
+
+function formatStepName(name: string) {
+  return name
+    .replace(/^wordpress_/, '')
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function summarizeArgs(args: Record<string, any>) {
+  const preferred = ['title', 'name', 'id', 'slug', 'status', 'code'];
+  const key = preferred.find(candidate => args?.[candidate] !== undefined);
+  return key ? `${key}: ${String(args[key])}` : '';
+}
+
+function OutcomeIcon({ step }: { step: PlanStepState }) {
+  switch (step.outcome) {
+    case 'executed':
+      return <Check className="size-4 text-green-600 dark:text-green-400" />;
+    case 'failed':
+      return <X className="size-4 text-red-600 dark:text-red-400" />;
+    case 'skipped':
+      return <Minus className="size-4 text-muted-foreground" />;
+    default:
+      return null;
+  }
+}
+
+export function PlanChecklist({ plan, disabled = false, onExecute }: PlanChecklistProps) {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(plan.steps.map(step => step.id)));
+  const [expandedStep, setExpandedStep] = useState<string | null>(null);
+  const isPending = plan.status === 'pending';
+
+  const toggleStep = (stepId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(stepId)) {
+        next.delete(stepId);
+      } else {
+        next.add(stepId);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="my-1.5 rounded-lg border border-[#21759B]/40 bg-muted/30 overflow-hidden shadow-sm">
+      <div className="px-3 py-2.5 flex items-center gap-2 border-b border-border/50">
+        <ListChecks className="size-4 text-[#21759B]" />
+        <span className="text-sm font-medium text-foreground">
+          Plan: {plan.steps.length} change{plan.steps.length === 1 ? '' : 's'}{plan.site ? ` on ${plan.site}` : ''}
+        </span>
+        <span className="text-xs text-muted-foreground ml-auto">
+          {plan.status === 'pending' && 'Nothing has been changed yet'}
+          {plan.status === 'executing' && 'Executing...'}
+          {plan.status === 'done' && 'Executed'}
+          {plan.status === 'discarded' && 'Discarded'}
+        </span>
+      </div>
+
+      <ul className="divide-y divide-border/40">
+        {plan.steps.map((step, index) => (
+          <li key={step.id} className="px-3 py-2">
+            <div className="flex items-center gap-2.5">
+              {isPending ? (
+                <Checkbox
+                  checked={selected.has(step.id)}
+                  onCheckedChange={() => toggleStep(step.id)}
+                  disabled={disabled}
+                  aria-label={`Include step ${index + 1}`}
+                />
+              ) : plan.status === 'executing' ? (
+                <Loader2 className="size-4 animate-spin text-blue-500" />
+              ) : (
+                <OutcomeIcon step={step} />
+              )}
+              <button
+                onClick={() => setExpandedStep(expandedStep === step.id ? null : step.id)}
+                className="flex-1 text-left text-sm text-foreground"
+              >
+                <span className="text-muted-foreground mr-1.5">{index + 1}.</span>
+                {formatStepName(step.name)}
+                {summarizeArgs(step.args) && (
+                  <span className="text-xs text-muted-foreground ml-2">{summarizeArgs(step.args)}</span>
+                )}
+              </button>
+              {step.risk === 'high' && (
+                <span className="text-xs text-amber-700 dark:text-amber-400">High risk</span>
+              )}
+            </div>
+            {expandedStep === step.id && (
+              <div className="bg-card border border-border rounded-md p-3 mt-2 max-h-48 overflow-y-auto">
+                <pre className="text-xs whitespace-pre-wrap font-mono text-foreground leading-relaxed">
+                  {JSON.stringify(step.args, null, 2)}
+                </pre>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {isPending && onExecute && (
+        <div className="flex gap-2 px-3 py-3 border-t border-border/50">
+          <Button
+            size="sm"
+            onClick={() => onExecute(plan.steps.map(step => step.id))}
+            disabled={disabled}
+            className="bg-[#21759B] hover:bg-[#1a5f7e] text-white"
+          >
+            Execute all
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => onExecute(plan.steps.filter(step => selected.has(step.id)).map(step => step.id))}
+            disabled={disabled || selected.size === 0 || selected.size === plan.steps.length}
+          >
+            Execute selected ({selected.size})
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => onExecute([])}
+            disabled={disabled}
+            className="ml-auto"
+          >
+            Discard
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -12,30 +12,132 @@ import {
   Calendar,
   Mail,
   Crown,
-  LogOut
+  LogOut,
+  ChevronsUpDown,
+  Pencil,
+  Star,
+  Globe,
+  Layers,
+  Loader2,
+  CheckCircle2,
+  XCircle,
+  BarChart3,
+  KeyRound
 } from 'lucide-react';
+import Link from 'next/link';
 import { Button } from '../ui/button';
 import { Logo, LogoIcon } from '../ui/Logo';
 import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover';
 import { Separator } from '../ui/separator';
+import { Input } from '../ui/input';
+import { Checkbox } from '../ui/checkbox';
 import { getStoredChats, deleteChat, type StoredChat } from '@/lib/chat-storage';
+import {
+  getActiveSiteGroup,
+  getActiveSiteProfile,
+  getSiteGroups,
+  getSiteProfileName,
+  getSiteProfiles,
+  removeSiteGroup,
+  saveSiteGroup,
+  setDefaultSiteProfile,
+  type SiteGroup,
+  type WordPressConnection
+} from '@/lib/wordpress-connection';
 import { useAuth } from '@/hooks/useAuth';
+import { authService } from '@/lib/supabase';
 import type { User as SupabaseUser } from '@supabase/supabase-js';
 import { WordPressSettings } from '@/components/settings/WordPressSettings';
+import { ApiKeysDialog } from '@/components/settings/ApiKeysDialog';
+import type { AgentRunStatus, AgentRunSummary } from '@/lib/agents/wp-agent/types';
+
+// How often the status of in-progress runs is refreshed
+const RUN_STATUS_POLL_MS = 5000;
 
 interface SidebarProps {
   onNewChat: () => void;
   onChatSelect: (threadId: string) => void;
   currentThreadId?: string;
+  currentSiteId?: string;
+  currentGroupId?: string;
+  onSiteChange: (siteId: string) => void;
+  onGroupChange: (groupId: string) => void;
   user?: SupabaseUser | null;
 }
 
-export function Sidebar({ onNewChat, onChatSelect, currentThreadId, user }: SidebarProps) {
+export function Sidebar({
+  onNewChat,
+  onChatSelect,
+  currentThreadId,
+  currentSiteId,
+  currentGroupId,
+  onSiteChange,
+  onGroupChange,
+  user
+}: SidebarProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [storedChats, setStoredChats] = useState<StoredChat[]>([]);
   const [isWordPressSettingsOpen, setIsWordPressSettingsOpen] = useState(false);
+  const [isApiKeysOpen, setIsApiKeysOpen] = useState(false);
+  // Profile being edited: undefined = active site, null = new site
+  const [editingSiteId, setEditingSiteId] = useState<string | null | undefined>();
+  const [siteProfiles, setSiteProfiles] = useState<WordPressConnection[]>([]);
+  const [activeSite, setActiveSite] = useState<WordPressConnection | null>(null);
+  const [isSiteSwitcherOpen, setIsSiteSwitcherOpen] = useState(false);
+  const [siteGroups, setSiteGroups] = useState<SiteGroup[]>([]);
+  const [activeGroup, setActiveGroup] = useState<SiteGroup | null>(null);
+  const [runStatuses, setRunStatuses] = useState<Record<string, AgentRunStatus>>({});
+  // Group open in the inline editor; no id = new group
+  const [editingGroup, setEditingGroup] = useState<(Omit<SiteGroup, 'id'> & { id?: string }) | null>(null);
   const { signOut } = useAuth();
 
+  // Load site profiles and follow changes from the settings dialog and other tabs
+  useEffect(() => {
+    const loadSites = () => {
+      setSiteProfiles(getSiteProfiles());
+      setActiveSite(getActiveSiteProfile());
+      setSiteGroups(getSiteGroups());
+      setActiveGroup(getActiveSiteGroup());
+    };
+
+    loadSites();
+    window.addEventListener('storage', loadSites);
+    window.addEventListener('siteProfilesChanged', loadSites);
+
+    return () => {
+      window.removeEventListener('storage', loadSites);
+      window.removeEventListener('siteProfilesChanged', loadSites);
+    };
+  }, []);
+
+  // The thread's own site (or group) wins over the switcher selection
+  const currentGroup = siteGroups.find(group => group.id === currentGroupId)
+    || (currentSiteId ? null : activeGroup);
+  const currentSite = currentGroup
+    ? null
+    : siteProfiles.find(profile => profile.id === currentSiteId) || activeSite;
+
+  const handleSaveGroup = () => {
+    if (!editingGroup?.name.trim() || editingGroup.siteIds.length === 0) return;
+    saveSiteGroup({ ...editingGroup, name: editingGroup.name.trim() });
+    setEditingGroup(null);
+  };
+
+  const toggleGroupSite = (siteId: string, checked: boolean) => {
+    setEditingGroup(group => group && {
+      ...group,
+      siteIds: checked ? [...group.siteIds, siteId] : group.siteIds.filter(id => id !== siteId),
+    });
+  };
+
+  const openSiteSettings = (siteId?: string | null) => {
+    setEditingSiteId(siteId);
+    setIsSiteSwitcherOpen(false);
+    setIsWordPressSettingsOpen(true);
+  };
+
+  const getSiteColor = (siteId?: string) => siteProfiles.find(profile => profile.id === siteId)?.color;
+
   // Load chats from localStorage on mount and when localStorage changes
   useEffect(() => {
     const loadChats = () => {
@@ -57,6 +159,48 @@ export function Sidebar({ onNewChat, onChatSelect, currentThreadId, user }: Side
     };
   }, []);
 
+  // Chats with a run still streaming into them; runs keep going when the tab closes
+  const activeRunChats = storedChats.filter(chat => chat.activeRun);
+  const pollingRunIds = activeRunChats
+    .map(chat => chat.activeRun!.id)
+    .filter(id => !runStatuses[id] || runStatuses[id] === 'RUNNING')
+    .join(',');
+
+  useEffect(() => {
+    if (!pollingRunIds) return;
+    let cancelled = false;
+
+    const loadRunStatuses = async () => {
+      try {
+        const response = await fetch(`/api/wordpress/runs?ids=${encodeURIComponent(pollingRunIds)}`, {
+          headers: await authService.getAuthHeaders(),
+        });
+        if (!response.ok) return;
+        const { runs } = await response.json() as { runs: AgentRunSummary[] };
+        if (!cancelled) {
+          setRunStatuses(prev => ({ ...prev, ...Object.fromEntries(runs.map(run => [run.id, run.status])) }));
+        }
+      } catch (error) {
+        console.error('Error loading run statuses:', error);
+      }
+    };
+
+    loadRunStatuses();
+    const interval = setInterval(loadRunStatuses, RUN_STATUS_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [pollingRunIds]);
+
+  const describeRun = (runId: string) => {
+    const status = runStatuses[runId];
+    if (status === 'COMPLETED') return 'Finished - open to see results';
+    if (status === 'FAILED') return 'Failed - open to see details';
+    if (status === 'CANCELLED') return 'Stopped - open to see what completed';
+    return 'Running...';
+  };
+
   const handleDeleteChat = (threadId: string, e: React.MouseEvent) => {
     e.stopPropagation();
     deleteChat(threadId);
@@ -114,6 +258,198 @@ export function Sidebar({ onNewChat, onChatSelect, currentThreadId, user }: Side
         </Button>
       </div>
 
+      {/* Site Switcher */}
+      <div className="px-3 pt-3">
+        <Popover
+          open={isSiteSwitcherOpen}
+          onOpenChange={open => {
+            setIsSiteSwitcherOpen(open);
+            if (!open) setEditingGroup(null);
+          }}
+        >
+          <PopoverTrigger asChild>
+            <Button
+              variant="ghost"
+              className={`
+                w-full border border-sidebar-border hover:bg-sidebar-accent
+                ${isExpanded ? 'justify-start gap-3 px-3 py-2' : 'justify-center p-3'}
+              `}
+              title={currentGroup ? currentGroup.name : currentSite ? getSiteProfileName(currentSite) : 'Add a WordPress site'}
+            >
+              {currentGroup ? (
+                <Layers className="size-4 text-[#21759B] shrink-0" />
+              ) : currentSite ? (
+                <span className="size-3 rounded-full shrink-0" style={{ backgroundColor: currentSite.color }} />
+              ) : (
+                <Globe className="size-4 text-sidebar-foreground/60 shrink-0" />
+              )}
+              {isExpanded && (
+                <>
+                  <div className="flex-1 min-w-0 text-left">
+                    <div className="text-sm text-sidebar-foreground truncate">
+                      {currentGroup ? currentGroup.name : currentSite ? getSiteProfileName(currentSite) : 'No site connected'}
+                    </div>
+                    {currentGroup ? (
+                      <div className="text-xs text-sidebar-foreground/60 truncate">
+                        {currentGroup.siteIds.length} site{currentGroup.siteIds.length === 1 ? '' : 's'}
+                      </div>
+                    ) : currentSite?.label && (
+                      <div className="text-xs text-sidebar-foreground/60 truncate">{currentSite.label}</div>
+                    )}
+                  </div>
+                  <ChevronsUpDown className="size-4 text-sidebar-foreground/60 shrink-0" />
+                </>
+              )}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 p-2" side={isExpanded ? 'bottom' : 'right'} align="start">
+            <div className="px-2 py-1 text-xs font-medium text-muted-foreground">Sites</div>
+            {siteProfiles.map(profile => (
+              <div key={profile.id} className="flex items-center gap-1 group">
+                <button
+                  onClick={() => {
+                    onSiteChange(profile.id);
+                    setIsSiteSwitcherOpen(false);
+                  }}
+                  className={`flex-1 flex items-center gap-2 min-w-0 text-left px-2 py-1.5 rounded-md hover:bg-muted/50 transition-colors ${
+                    currentSite?.id === profile.id ? 'bg-muted/50' : ''
+                  }`}
+                >
+                  <span className="size-3 rounded-full shrink-0" style={{ backgroundColor: profile.color }} />
+                  <div className="min-w-0">
+                    <div className="text-sm text-foreground truncate">{getSiteProfileName(profile)}</div>
+                    {profile.label && <div className="text-xs text-muted-foreground truncate">{profile.label}</div>}
+                  </div>
+                </button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDefaultSiteProfile(profile.id)}
+                  className={`size-7 p-0 ${profile.isDefault ? 'text-[#21759B]' : 'opacity-0 group-hover:opacity-100'}`}
+                  title={profile.isDefault ? 'Default site' : 'Make default'}
+                >
+                  <Star className={`size-3 ${profile.isDefault ? 'fill-current' : ''}`} />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => openSiteSettings(profile.id)}
+                  className="size-7 p-0 opacity-0 group-hover:opacity-100"
+                  title="Edit site"
+                >
+                  <Pencil className="size-3" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => openSiteSettings(null)}
+              className="w-full justify-start gap-2 text-[#21759B]"
+            >
+              <Plus className="size-4" />
+              Add site
+            </Button>
+
+            {/* Site groups: new chats fan out to every site in the group */}
+            <Separator className="my-2" />
+            <div className="px-2 py-1 text-xs font-medium text-muted-foreground">Groups</div>
+            {editingGroup ? (
+              <div className="space-y-2 px-2 py-1">
+                <Input
+                  value={editingGroup.name}
+                  onChange={e => setEditingGroup({ ...editingGroup, name: e.target.value })}
+                  placeholder="Group name"
+                  className="h-8 text-sm"
+                />
+                <div className="max-h-40 overflow-y-auto space-y-1.5">
+                  {siteProfiles.map(profile => (
+                    <label key={profile.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={editingGroup.siteIds.includes(profile.id)}
+                        onCheckedChange={checked => toggleGroupSite(profile.id, checked === true)}
+                      />
+                      <span className="size-2.5 rounded-full shrink-0" style={{ backgroundColor: profile.color }} />
+                      <span className="truncate">{getSiteProfileName(profile)}</span>
+                    </label>
+                  ))}
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    size="sm"
+                    onClick={handleSaveGroup}
+                    disabled={!editingGroup.name.trim() || editingGroup.siteIds.length === 0}
+                    className="flex-1 bg-[#21759B] hover:bg-[#1a5f7e] text-white"
+                  >
+                    Save
+                  </Button>
+                  {editingGroup.id && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        removeSiteGroup(editingGroup.id!);
+                        setEditingGroup(null);
+                      }}
+                      className="size-8 p-0 hover:bg-red-500/10 hover:text-red-500"
+                      title="Delete group"
+                    >
+                      <Trash2 className="size-3.5" />
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => setEditingGroup(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <>
+                {siteGroups.map(group => (
+                  <div key={group.id} className="flex items-center gap-1 group">
+                    <button
+                      onClick={() => {
+                        onGroupChange(group.id);
+                        setIsSiteSwitcherOpen(false);
+                      }}
+                      className={`flex-1 flex items-center gap-2 min-w-0 text-left px-2 py-1.5 rounded-md hover:bg-muted/50 transition-colors ${
+                        currentGroup?.id === group.id ? 'bg-muted/50' : ''
+                      }`}
+                    >
+                      <Layers className="size-3.5 text-[#21759B] shrink-0" />
+                      <div className="min-w-0">
+                        <div className="text-sm text-foreground truncate">{group.name}</div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {group.siteIds.length} site{group.siteIds.length === 1 ? '' : 's'}
+                        </div>
+                      </div>
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditingGroup(group)}
+                      className="size-7 p-0 opacity-0 group-hover:opacity-100"
+                      title="Edit group"
+                    >
+                      <Pencil className="size-3" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setEditingGroup({ name: '', siteIds: [] })}
+                  disabled={siteProfiles.length < 2}
+                  className="w-full justify-start gap-2 text-[#21759B]"
+                >
+                  <Plus className="size-4" />
+                  New group
+                </Button>
+              </>
+            )}
+          </PopoverContent>
+        </Popover>
+      </div>
+
       {/* New Chat Button */}
       <div className="p-3">
         <Button
@@ -135,6 +471,43 @@ export function Sidebar({ onNewChat, onChatSelect, currentThreadId, user }: Side
       <div className="flex-1 px-3 overflow-y-auto scrollbar-hide">
         {isExpanded ? (
           <div className="space-y-1">
+            {activeRunChats.length > 0 && (
+              <>
+                <div className="text-xs font-medium text-sidebar-foreground/60 px-3 py-2 uppercase tracking-wide">
+                  In Progress
+                </div>
+                {activeRunChats.map((chat) => {
+                  const runId = chat.activeRun!.id;
+                  const isRunning = !runStatuses[runId] || runStatuses[runId] === 'RUNNING';
+                  return (
+                    <Button
+                      key={runId}
+                      variant="ghost"
+                      onClick={() => onChatSelect(chat.threadId)}
+                      className="w-full justify-start gap-3 px-3 py-2 h-auto text-left hover:bg-sidebar-accent/50"
+                    >
+                      {isRunning ? (
+                        <Loader2 className="size-4 text-sidebar-foreground/60 shrink-0 animate-spin" />
+                      ) : runStatuses[runId] === 'FAILED' ? (
+                        <XCircle className="size-4 text-red-600 dark:text-red-400 shrink-0" />
+                      ) : runStatuses[runId] === 'CANCELLED' ? (
+                        <XCircle className="size-4 text-sidebar-foreground/40 shrink-0" />
+                      ) : (
+                        <CheckCircle2 className="size-4 text-green-600 dark:text-green-400 shrink-0" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm text-sidebar-foreground/80 truncate">
+                          {chat.title}
+                        </div>
+                        <div className="text-xs text-sidebar-foreground/40">
+                          {describeRun(runId)}
+                        </div>
+                      </div>
+                    </Button>
+                  );
+                })}
+              </>
+            )}
             <div className="text-xs font-medium text-sidebar-foreground/60 px-3 py-2 uppercase tracking-wide">
               Recent Chats
             </div>
@@ -159,7 +532,10 @@ export function Sidebar({ onNewChat, onChatSelect, currentThreadId, user }: Side
                     onClick={() => onChatSelect(chat.threadId)}
                     className="w-full justify-start gap-3 px-3 py-2 h-auto text-left hover:bg-transparent"
                   >
-                    <MessageSquare className="size-4 text-sidebar-foreground/60 shrink-0" />
+                    <MessageSquare
+                      className="size-4 text-sidebar-foreground/60 shrink-0"
+                      style={getSiteColor(chat.siteId) ? { color: getSiteColor(chat.siteId) } : undefined}
+                    />
                     <div className="flex-1 min-w-0">
                       <div className="text-sm text-sidebar-foreground/80 truncate group-hover:text-sidebar-foreground">
                         {chat.title}
@@ -201,7 +577,11 @@ export function Sidebar({ onNewChat, onChatSelect, currentThreadId, user }: Side
                 `}
                 title={chat.title}
               >
-                <MessageSquare className="size-4 text-sidebar-foreground/60" />
+                {chat.activeRun ? (
+                  <Loader2 className="size-4 text-sidebar-foreground/60 animate-spin" />
+                ) : (
+                  <MessageSquare className="size-4 text-sidebar-foreground/60" />
+                )}
               </Button>
             ))}
           </div>
@@ -213,7 +593,7 @@ export function Sidebar({ onNewChat, onChatSelect, currentThreadId, user }: Side
         {/* Settings */}
         <Button
           variant="ghost"
-          onClick={() => setIsWordPressSettingsOpen(true)}
+          onClick={() => openSiteSettings(undefined)}
           className={`
             w-full hover:bg-sidebar-accent
             ${isExpanded ? 'justify-start gap-3 px-3 py-2' : 'justify-center p-3'}
@@ -322,6 +702,28 @@ export function Sidebar({ onNewChat, onChatSelect, currentThreadId, user }: Side
                     <Settings className="size-4" />
                     Account Settings
                   </Button> */}
+
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    asChild
+                    className="w-full justify-start gap-2 text-left"
+                  >
+                    <Link href="/usage">
+                      <BarChart3 className="size-4" />
+                      Usage & Cost
+                    </Link>
+                  </Button>
+
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setIsApiKeysOpen(true)}
+                    className="w-full justify-start gap-2 text-left"
+                  >
+                    <KeyRound className="size-4" />
+                    API Keys
+                  </Button>
                   
                   <Button
                     variant="ghost"
@@ -361,7 +763,10 @@ export function Sidebar({ onNewChat, onChatSelect, currentThreadId, user }: Side
       <WordPressSettings
         isOpen={isWordPressSettingsOpen}
         onClose={() => setIsWordPressSettingsOpen(false)}
+        profileId={editingSiteId}
       />
+
+      <ApiKeysDialog isOpen={isApiKeysOpen} onClose={() => setIsApiKeysOpen(false)} />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,349 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { LayoutTemplate, Plus, Trash2, Loader2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { Switch } from '../ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { authService } from '@/lib/supabase';
+import { toast } from 'sonner';
+import type { TaskTemplate, TemplateInputs, TemplateParameter } from '@/lib/agents/wp-agent/types';
+
+interface TemplatePickerProps {
+  onRunTemplate: (template: TaskTemplate, inputs: TemplateInputs) => void;
+  disabled?: boolean;
+  canSave?: boolean;
+}
+
+function initialInputs(template: TaskTemplate): TemplateInputs {
+  const inputs: TemplateInputs = {};
+  for (const parameter of template.parameters) {
+    const value = parameter.default;
+    inputs[parameter.name] = Array.isArray(value) ? value.join('\n') : value;
+  }
+  return inputs;
+}
+
+function toParameterLabel(name: string): string {
+  return name
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/_/g, ' ')
+    .replace(/^./, char => char.toUpperCase());
+}
+
+export function TemplatePicker({ onRunTemplate, disabled, canSave }: TemplatePickerProps) {
+  const [enabled, setEnabled] = useState(false);
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [isListOpen, setIsListOpen] = useState(false);
+  const [selected, setSelected] = useState<TaskTemplate | null>(null);
+  const [inputs, setInputs] = useState<TemplateInputs>({});
+  const [isCreating, setIsCreating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [draft, setDraft] = useState({ name: '', description: '', instruction: '' });
+
+  const loadTemplates = async () => {
+    try {
+      const response = await fetch('/api/templates', { headers: await authService.getAuthHeaders() });
+      if (!response.ok) return;
+
+      const data = await response.json();
+      setEnabled(data.enabled);
+      setTemplates(data.templates || []);
+    } catch (error) {
+      console.error('Error loading templates:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadTemplates();
+  }, [canSave]);
+
+  const groupedTemplates = useMemo(() => {
+    const groups = new Map<string, TaskTemplate[]>();
+    for (const template of templates) {
+      groups.set(template.category, [...(groups.get(template.category) || []), template]);
+    }
+    return Array.from(groups.entries());
+  }, [templates]);
+
+  const draftParameters = useMemo<TemplateParameter[]>(() => {
+    const names = Array.from(new Set(Array.from(draft.instruction.matchAll(/\{\{\s*(\w+)\s*\}\}/g), match => match[1])));
+    return names.map(name => ({ name, label: toParameterLabel(name), type: 'string', required: true }));
+  }, [draft.instruction]);
+
+  if (!enabled) return null;
+
+  const handleSelect = (template: TaskTemplate) => {
+    setSelected(template);
+    setInputs(initialInputs(template));
+    setIsListOpen(false);
+  };
+
+  const handleRun = () => {
+    if (!selected) return;
+
+    const missing = selected.parameters.filter(parameter =>
+      parameter.required && (inputs[parameter.name] === undefined || inputs[parameter.name] === '')
+    );
+    if (missing.length > 0) {
+      toast.error(`Please fill in: ${missing.map(parameter => parameter.label).join(', ')}`);
+      return;
+    }
+
+    onRunTemplate(selected, inputs);
+    setSelected(null);
+  };
+
+  const handleDelete = async (template: TaskTemplate) => {
+    try {
+      const response = await fetch(`/api/templates/${template.id}`, {
+        method: 'DELETE',
+        headers: await authService.getAuthHeaders(),
+      });
+      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+
+      setTemplates(prev => prev.filter(item => item.id !== template.id));
+      toast.success('Template deleted');
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      toast.error('Failed to delete template');
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/templates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(await authService.getAuthHeaders()),
+        },
+        body: JSON.stringify({ ...draft, parameters: draftParameters }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
+
+      setTemplates(prev => [...prev, data.template]);
+      setDraft({ name: '', description: '', instruction: '' });
+      setIsCreating(false);
+      toast.success('Template saved');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderField = (parameter: TemplateParameter) => {
+    const value = inputs[parameter.name];
+    const setValue = (next: TemplateInputs[string]) => setInputs(prev => ({ ...prev, [parameter.name]: next }));
+
+    switch (parameter.type) {
+      case 'boolean':
+        return (
+          <Switch
+            id={`template-${parameter.name}`}
+            checked={value === true}
+            onCheckedChange={checked => setValue(checked)}
+          />
+        );
+      case 'select':
+        return (
+          <Select value={value as string | undefined} onValueChange={setValue}>
+            <SelectTrigger id={`template-${parameter.name}`} className="mt-1 w-full">
+              <SelectValue placeholder="Select..." />
+            </SelectTrigger>
+            <SelectContent>
+              {parameter.options?.map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'text':
+      case 'list':
+        return (
+          <Textarea
+            id={`template-${parameter.name}`}
+            value={(value as string) ?? ''}
+            onChange={e => setValue(e.target.value)}
+            className="mt-1"
+            rows={3}
+          />
+        );
+      default:
+        return (
+          <Input
+            id={`template-${parameter.name}`}
+            type={parameter.type === 'number' ? 'number' : 'text'}
+            value={(value as string | number) ?? ''}
+            onChange={e => setValue(e.target.value)}
+            className="mt-1"
+          />
+        );
+    }
+  };
+
+  return (
+    <>
+      <Popover open={isListOpen} onOpenChange={setIsListOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="shrink-0 glass-subtle size-10 p-2 hover:bg-muted/50 transition-colors"
+            disabled={disabled}
+            title="Run a template"
+          >
+            <LayoutTemplate className="size-4 text-foreground-muted" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-80 p-2 max-h-96 overflow-y-auto scrollbar-hide">
+          {groupedTemplates.map(([category, items]) => (
+            <div key={category} className="mb-2">
+              <div className="px-2 py-1 text-xs font-medium text-muted-foreground">{category}</div>
+              {items.map(template => (
+                <div key={template.id} className="flex items-center gap-1 group">
+                  <button
+                    onClick={() => handleSelect(template)}
+                    className="flex-1 text-left px-2 py-1.5 rounded-md hover:bg-muted/50 transition-colors"
+                  >
+                    <div className="text-sm text-foreground">{template.name}</div>
+                    <div className="text-xs text-muted-foreground truncate">{template.description}</div>
+                  </button>
+                  {!template.builtIn && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(template)}
+                      className="size-7 p-0 opacity-0 group-hover:opacity-100 hover:text-red-600"
+                      title="Delete template"
+                    >
+                      <Trash2 className="size-3" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+          {canSave && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setIsListOpen(false);
+                setIsCreating(true);
+              }}
+              className="w-full justify-start gap-2 text-[#21759B]"
+            >
+              <Plus className="size-4" />
+              New template
+            </Button>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      {/* Run template */}
+      <Dialog open={!!selected} onOpenChange={open => !open && setSelected(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selected?.name}</DialogTitle>
+            <DialogDescription>{selected?.description}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {selected?.parameters.map(parameter => (
+              <div key={parameter.name}>
+                <Label htmlFor={`template-${parameter.name}`}>
+                  {parameter.label}{parameter.required ? ' *' : ''}
+                </Label>
+                {renderField(parameter)}
+                {parameter.description && (
+                  <p className="text-xs text-muted-foreground mt-1">{parameter.description}</p>
+                )}
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelected(null)}>Cancel</Button>
+            <Button onClick={handleRun} disabled={disabled} className="bg-[#21759B] hover:bg-[#1a5f7e] text-white">
+              Run template
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Create template */}
+      <Dialog open={isCreating} onOpenChange={setIsCreating}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New template</DialogTitle>
+            <DialogDescription>
+              Use {'{{name}}'} placeholders in the instruction; each one becomes an input.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="template-name">Name *</Label>
+              <Input
+                id="template-name"
+                value={draft.name}
+                onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="template-description">Description</Label>
+              <Input
+                id="template-description"
+                value={draft.description}
+                onChange={e => setDraft(prev => ({ ...prev, description: e.target.value }))}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="template-instruction">Instruction *</Label>
+              <Textarea
+                id="template-instruction"
+                value={draft.instruction}
+                onChange={e => setDraft(prev => ({ ...prev, instruction: e.target.value }))}
+                placeholder="Create a landing page for {{product}} with a {{color}} call to action"
+                className="mt-1"
+                rows={4}
+              />
+              {draftParameters.length > 0 && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Inputs: {draftParameters.map(parameter => parameter.label).join(', ')}
+                </p>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreating(false)}>Cancel</Button>
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || !draft.name.trim() || !draft.instruction.trim()}
+              className="bg-[#21759B] hover:bg-[#1a5f7e] text-white"
+            >
+              {isSaving && <Loader2 className="size-4 animate-spin" />}
+              Save template
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { ChevronDown, ChevronRight, Search, Globe, Loader2 } from 'lucide-react';
+import { ChevronDown, ChevronRight, Search, Globe, Loader2, ShieldAlert, Check, X, Undo2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
 interface ToolCallDropdownProps {
@@ -9,15 +9,32 @@ interface ToolCallDropdownProps {
   toolArgs: Record<string, any>;
   toolResult?: string;
   isLoading?: boolean;
+  approvalStatus?: 'pending' | 'approved' | 'rejected';
+  risk?: 'low' | 'medium' | 'high';
+  planned?: boolean;
+  undoStatus?: 'available' | 'undoing' | 'undone' | 'failed';
+  site?: string;
+  onUndo?: () => void;
+  onApprove?: () => void;
+  onReject?: () => void;
 }
 
 export function ToolCallDropdown({ 
   toolName, 
   toolArgs, 
   toolResult, 
-  isLoading = false 
+  isLoading = false,
+  approvalStatus,
+  risk,
+  planned = false,
+  undoStatus,
+  site,
+  onUndo,
+  onApprove,
+  onReject
 }: ToolCallDropdownProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const isAwaitingApproval = approvalStatus === 'pending';
 
   const getToolIcon = () => {
     if (toolName.startsWith('wordpress_')) {
@@ -49,7 +66,9 @@ export function ToolCallDropdown({
   };
 
   return (
-    <div className="my-1.5 rounded-lg border border-border/50 bg-muted/30 hover:bg-muted/50 transition-colors overflow-hidden shadow-sm">
+    <div className={`my-1.5 rounded-lg border bg-muted/30 hover:bg-muted/50 transition-colors overflow-hidden shadow-sm ${
+      isAwaitingApproval ? 'border-amber-500/50' : 'border-border/50'
+    }`}>
       <button
         onClick={() => setIsExpanded(!isExpanded)}
         className="w-full px-3 py-2.5 flex items-center gap-2.5 hover:bg-muted/60 transition-colors"
@@ -61,6 +80,26 @@ export function ToolCallDropdown({
           <span className="text-sm font-medium text-foreground">
             {getToolDisplayName()}
           </span>
+          {site && (
+            <span className="text-xs px-1.5 py-0.5 rounded bg-muted text-muted-foreground truncate max-w-[10rem]">
+              {site}
+            </span>
+          )}
+          {approvalStatus === 'approved' && (
+            <span className="text-xs text-green-600 dark:text-green-400 ml-auto">Approved</span>
+          )}
+          {planned && (
+            <span className="text-xs text-[#21759B] ml-auto">Planned</span>
+          )}
+          {undoStatus === 'undone' && (
+            <span className="text-xs text-muted-foreground ml-auto">Undone</span>
+          )}
+          {undoStatus === 'failed' && (
+            <span className="text-xs text-red-600 dark:text-red-400 ml-auto">Undo failed</span>
+          )}
+          {approvalStatus === 'rejected' && (
+            <span className="text-xs text-red-600 dark:text-red-400 ml-auto">Rejected</span>
+          )}
           {isLoading && (
             <Loader2 className="size-3.5 animate-spin text-blue-500 ml-auto" />
           )}
@@ -74,6 +113,44 @@ export function ToolCallDropdown({
         </div>
       </button>
 
+      {/* Approval Request */}
+      {isAwaitingApproval && (
+        <div className="px-3 pb-3 border-t border-amber-500/30">
+          <div className="flex items-start gap-2 mt-2 text-sm text-amber-700 dark:text-amber-400">
+            <ShieldAlert className="size-4 shrink-0 mt-0.5" />
+            <span>
+              This is a {risk === 'high' ? 'high-risk' : 'destructive'} action and needs your approval before it runs.
+            </span>
+          </div>
+          <div className="bg-card border border-border rounded-md p-3 mt-2 max-h-48 overflow-y-auto">
+            <pre className="text-xs whitespace-pre-wrap font-mono text-foreground leading-relaxed">
+              {JSON.stringify(toolArgs, null, 2)}
+            </pre>
+          </div>
+          <div className="flex gap-2 mt-3">
+            <Button
+              size="sm"
+              onClick={onApprove}
+              disabled={!onApprove}
+              className="gap-1.5 bg-[#21759B] hover:bg-[#1a5f7e] text-white"
+            >
+              <Check className="size-3.5" />
+              Approve
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={onReject}
+              disabled={!onReject}
+              className="gap-1.5 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-950"
+            >
+              <X className="size-3.5" />
+              Reject
+            </Button>
+          </div>
+        </div>
+      )}
+
       {isExpanded && (
         <div className="px-3 pb-3 border-t border-border/30">
           <div className="mt-2">
@@ -94,6 +171,18 @@ export function ToolCallDropdown({
               </div>
             )}
           </div>
+          {(undoStatus === 'available' || undoStatus === 'undoing') && onUndo && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={onUndo}
+              disabled={undoStatus === 'undoing'}
+              className="gap-1.5 mt-2"
+            >
+              {undoStatus === 'undoing' ? <Loader2 className="size-3.5 animate-spin" /> : <Undo2 className="size-3.5" />}
+              Undo this change
+            </Button>
+          )}
         </div>
       )}
     </div>
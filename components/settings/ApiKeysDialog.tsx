@@ -0,0 +1,278 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Check, Copy, KeyRound, Loader2, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { authService } from '@/lib/supabase';
+import { toast } from 'sonner';
+import type { ApiKeyScope, ApiKeySummary } from '@/lib/api-keys';
+
+interface ApiKeysDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SCOPE_OPTIONS: { value: ApiKeyScope; label: string; description: string }[] = [
+  { value: 'runs:read', label: 'Read runs', description: 'List runs, poll status, stream events and fetch transcripts' },
+  { value: 'runs:write', label: 'Start runs', description: 'Start and cancel agent runs on your sites' },
+];
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'Never' },
+];
+
+function formatDate(date?: string | Date | null): string {
+  return date ? new Date(date).toLocaleDateString() : '—';
+}
+
+export function ApiKeysDialog({ isOpen, onClose }: ApiKeysDialogProps) {
+  const [apiKeys, setApiKeys] = useState<ApiKeySummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [draft, setDraft] = useState<{ name: string; scopes: ApiKeyScope[]; expiry: string }>({
+    name: '',
+    scopes: ['runs:read'],
+    expiry: '90',
+  });
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const loadApiKeys = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/keys', { headers: await authService.getAuthHeaders() });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`);
+      }
+      setApiKeys(result.keys || []);
+    } catch (error) {
+      console.error('Error loading API keys:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load API keys');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      loadApiKeys();
+    } else {
+      // The key is only shown once; never keep it around after the dialog closes
+      setNewKey(null);
+      setIsCreating(false);
+    }
+  }, [isOpen]);
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setDraft(current => ({
+      ...current,
+      scopes: checked ? [...current.scopes, scope] : current.scopes.filter(value => value !== scope),
+    }));
+  };
+
+  const handleCreate = async () => {
+    if (!draft.name.trim() || draft.scopes.length === 0) {
+      toast.error('Enter a name and pick at least one scope');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await authService.getAuthHeaders()) },
+        body: JSON.stringify({
+          name: draft.name.trim(),
+          scopes: draft.scopes,
+          expires_in_days: draft.expiry === 'never' ? null : Number(draft.expiry),
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`);
+      }
+
+      setApiKeys(current => [result.apiKey, ...current]);
+      setNewKey(result.key);
+      setCopied(false);
+      setIsCreating(false);
+      setDraft({ name: '', scopes: ['runs:read'], expiry: '90' });
+    } catch (error) {
+      console.error('Error creating API key:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create API key');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKeySummary) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Anything using it will stop working immediately.`)) return;
+
+    try {
+      const response = await fetch(`/api/keys/${apiKey.id}`, {
+        method: 'DELETE',
+        headers: await authService.getAuthHeaders(),
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || `HTTP error! status: ${response.status}`);
+      }
+
+      setApiKeys(current => current.filter(key => key.id !== apiKey.id));
+      toast.success('API key revoked');
+    } catch (error) {
+      console.error('Error revoking API key:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke API key');
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    setCopied(true);
+    toast.success('API key copied');
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="size-4" />
+            API keys
+          </DialogTitle>
+          <DialogDescription>
+            Use keys with the REST API at <code>/api/v1/agent/runs</code>, sent as <code>Authorization: Bearer &lt;key&gt;</code>.
+            Runs started with a key use your credits.
+          </DialogDescription>
+        </DialogHeader>
+
+        {newKey && (
+          <div className="rounded-md border border-amber-300 bg-amber-50 p-3 space-y-2 dark:border-amber-800 dark:bg-amber-950">
+            <p className="text-sm font-medium">Copy your new key now. It won't be shown again.</p>
+            <div className="flex gap-2">
+              <Input readOnly value={newKey} className="font-mono text-xs" onFocus={event => event.target.select()} />
+              <Button variant="outline" size="sm" onClick={handleCopy}>
+                {copied ? <Check className="size-4" /> : <Copy className="size-4" />}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isCreating ? (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="api-key-name">Name *</Label>
+              <Input
+                id="api-key-name"
+                value={draft.name}
+                maxLength={100}
+                placeholder="e.g. CI deploy checks"
+                onChange={event => setDraft(current => ({ ...current, name: event.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Scopes *</Label>
+              {SCOPE_OPTIONS.map(option => (
+                <label key={option.value} className="flex items-start gap-2 text-sm">
+                  <Checkbox
+                    checked={draft.scopes.includes(option.value)}
+                    onCheckedChange={checked => toggleScope(option.value, checked === true)}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    <span className="font-medium">{option.label}</span>
+                    <span className="block text-xs text-muted-foreground">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <div>
+              <Label>Expires after</Label>
+              <Select value={draft.expiry} onValueChange={expiry => setDraft(current => ({ ...current, expiry }))}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        ) : (
+          <div className="max-h-72 overflow-y-auto divide-y rounded-md border">
+            {isLoading ? (
+              <div className="flex justify-center p-6">
+                <Loader2 className="size-4 animate-spin text-muted-foreground" />
+              </div>
+            ) : apiKeys.length === 0 ? (
+              <p className="p-6 text-center text-sm text-muted-foreground">No API keys yet.</p>
+            ) : (
+              apiKeys.map(apiKey => (
+                <div key={apiKey.id} className="flex items-center justify-between gap-3 p-3">
+                  <div className="min-w-0 space-y-0.5">
+                    <p className="truncate text-sm font-medium">{apiKey.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      <code>{apiKey.prefix}…</code> · {apiKey.scopes.join(', ')}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Created {formatDate(apiKey.createdAt)} · Last used {formatDate(apiKey.lastUsed)} · Expires {apiKey.expiresAt ? formatDate(apiKey.expiresAt) : 'never'}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRevoke(apiKey)}
+                    className="text-muted-foreground hover:text-red-500"
+                    title="Revoke"
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {isCreating ? (
+            <>
+              <Button variant="outline" onClick={() => setIsCreating(false)}>Cancel</Button>
+              <Button onClick={handleCreate} disabled={isSaving} className="bg-[#21759B] hover:bg-[#1a5f7e] text-white">
+                {isSaving && <Loader2 className="size-4 animate-spin" />}
+                Create key
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>Close</Button>
+              <Button onClick={() => setIsCreating(true)} className="bg-[#21759B] hover:bg-[#1a5f7e] text-white">
+                <Plus className="size-4" />
+                New key
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
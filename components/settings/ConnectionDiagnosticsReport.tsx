@@ -0,0 +1,49 @@
+'use client';
+
+import { CheckCircle, XCircle, AlertTriangle, Info } from 'lucide-react';
+import type { ConnectionDiagnostics, DiagnosticStatus } from '@/lib/wordpress-diagnostics';
+
+interface ConnectionDiagnosticsReportProps {
+  diagnostics: ConnectionDiagnostics;
+}
+
+const STATUS_ICONS: Record<DiagnosticStatus, React.ReactNode> = {
+  pass: <CheckCircle className="w-4 h-4 text-green-600 dark:text-green-400 shrink-0" />,
+  warn: <AlertTriangle className="w-4 h-4 text-amber-600 dark:text-amber-400 shrink-0" />,
+  fail: <XCircle className="w-4 h-4 text-red-600 dark:text-red-400 shrink-0" />,
+  info: <Info className="w-4 h-4 text-gray-500 shrink-0" />,
+};
+
+// Problems first, so the fixes are what the user sees
+const STATUS_ORDER: DiagnosticStatus[] = ['fail', 'warn', 'pass', 'info'];
+
+export function ConnectionDiagnosticsReport({ diagnostics }: ConnectionDiagnosticsReportProps) {
+  const checks = [...diagnostics.checks].sort(
+    (a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status)
+  );
+
+  return (
+    <div className="mb-4 rounded-lg border p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Connection diagnostics</span>
+        <span className="text-xs text-muted-foreground">
+          {new Date(diagnostics.checkedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </span>
+      </div>
+      {checks.map(check => (
+        <div key={check.id} className="flex items-start gap-2">
+          {STATUS_ICONS[check.status]}
+          <div className="min-w-0 text-xs">
+            <div>
+              <span className="font-medium text-foreground">{check.label}:</span>{' '}
+              <span className="text-muted-foreground">{check.detail}</span>
+            </div>
+            {check.fix && (check.status === 'fail' || check.status === 'warn') && (
+              <div className="mt-0.5 text-amber-700 dark:text-amber-400">Fix: {check.fix}</div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,86 +1,243 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { X, Globe, CheckCircle, XCircle, Loader2 } from 'lucide-react';
+import { X, Globe, CheckCircle, XCircle, Loader2, Plus, Trash2, Stethoscope } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
 import {
+  SITE_COLORS,
+  diagnoseWordPressConnection,
+  getSiteProfile,
   getWordPressConnection,
   saveWordPressConnection,
   removeWordPressConnection,
+  revokeVaultConnection,
+  saveConnectionToVault,
   testWordPressConnection,
   formatWordPressUrl,
+  type ModelProvider,
   type WordPressConnection
 } from '@/lib/wordpress-connection';
+import type { MCPServerConfig, MCPTransport } from '@/lib/mcp-client-manager';
+import type { ConnectionDiagnostics } from '@/lib/wordpress-diagnostics';
+import { ConnectionDiagnosticsReport } from './ConnectionDiagnosticsReport';
 import { toast } from 'sonner';
 
 interface WordPressSettingsProps {
   isOpen: boolean;
   onClose: () => void;
   onConnectionChange?: () => void;
+  profileId?: string | null; // Site profile to edit: omitted = active site, null = new site
 }
 
-export function WordPressSettings({ isOpen, onClose, onConnectionChange }: WordPressSettingsProps) {
+const PROVIDER_OPTIONS: { value: ModelProvider; label: string; modelPlaceholder: string }[] = [
+  { value: 'anthropic', label: 'Anthropic', modelPlaceholder: 'claude-sonnet-4-20250514' },
+  { value: 'openai', label: 'OpenAI-compatible', modelPlaceholder: 'gpt-4.1' },
+  { value: 'ollama', label: 'Ollama (local)', modelPlaceholder: 'llama3.1' },
+];
+
+const MCP_TRANSPORT_OPTIONS: { value: MCPTransport; label: string }[] = [
+  { value: 'stdio', label: 'Local (wpmcp via npx)' },
+  { value: 'http', label: 'Remote (streamable HTTP)' },
+  { value: 'sse', label: 'Remote (SSE)' },
+];
+
+// Additional servers are edited with a single Authorization header
+interface MCPServerDraft {
+  name: string;
+  url: string;
+  transport: 'http' | 'sse';
+  authorization: string;
+}
+
+function toServerDrafts(servers: MCPServerConfig[] = []): MCPServerDraft[] {
+  return servers.map(server => ({
+    name: server.name,
+    url: server.url,
+    transport: server.transport ?? 'http',
+    authorization: server.headers?.Authorization ?? '',
+  }));
+}
+
+function toServerConfigs(drafts: MCPServerDraft[]): MCPServerConfig[] {
+  return drafts
+    .filter(draft => draft.name.trim() && draft.url.trim())
+    .map(draft => ({
+      name: draft.name.trim().toLowerCase(),
+      url: draft.url.trim(),
+      transport: draft.transport,
+      ...(draft.authorization.trim() && { headers: { Authorization: draft.authorization.trim() } }),
+    }));
+}
+
+export function WordPressSettings({ isOpen, onClose, onConnectionChange, profileId }: WordPressSettingsProps) {
   const [connection, setConnection] = useState<WordPressConnection | null>(null);
   const [isConnecting, setIsConnecting] = useState(false);
+  const [name, setName] = useState('');
+  const [label, setLabel] = useState('');
+  const [color, setColor] = useState('');
+  const [isDefault, setIsDefault] = useState(false);
   const [url, setUrl] = useState('');
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [anthropicApiKey, setAnthropicApiKey] = useState('');
+  const [openaiApiKey, setOpenaiApiKey] = useState('');
+  const [provider, setProvider] = useState<ModelProvider>('anthropic');
+  const [model, setModel] = useState('');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [mcpTransport, setMcpTransport] = useState<MCPTransport>('stdio');
+  const [mcpUrl, setMcpUrl] = useState('');
+  const [mcpServers, setMcpServers] = useState<MCPServerDraft[]>([]);
+  const [serversEdited, setServersEdited] = useState(false);
+  const [diagnostics, setDiagnostics] = useState<ConnectionDiagnostics | null>(null);
+  const [isDiagnosing, setIsDiagnosing] = useState(false);
+
+  // Secrets of a vault connection stay on the server; blank fields keep the stored value
+  const isVaultConnection = !!connection?.connectionId;
+
+  // Anthropic needs a key; OpenAI-compatible endpoints need a key or a base URL; Ollama needs neither
+  const hasModelCredentials = isVaultConnection ||
+    (provider === 'anthropic' ? !!anthropicApiKey.trim()
+    : provider === 'openai' ? !!(openaiApiKey.trim() || baseUrl.trim())
+    : true);
+  const hasPassword = isVaultConnection || !!password.trim();
 
   useEffect(() => {
     if (isOpen) {
-      const currentConnection = getWordPressConnection();
+      const currentConnection = profileId === null
+        ? null
+        : profileId ? getSiteProfile(profileId) : getWordPressConnection();
       setConnection(currentConnection);
+      setDiagnostics(null);
       
       if (currentConnection) {
+        setName(currentConnection.name || '');
+        setLabel(currentConnection.label || '');
+        setColor(currentConnection.color || SITE_COLORS[0]);
+        setIsDefault(currentConnection.isDefault === true);
         setUrl(currentConnection.url);
         setUsername(currentConnection.username);
         setPassword(currentConnection.password);
         setAnthropicApiKey(currentConnection.anthropicApiKey || '');
+        setOpenaiApiKey(currentConnection.openaiApiKey || '');
+        setProvider(currentConnection.provider || 'anthropic');
+        setModel(currentConnection.model || '');
+        setBaseUrl(currentConnection.baseUrl || '');
+        setMcpTransport(currentConnection.mcpTransport || 'stdio');
+        setMcpUrl(currentConnection.mcpUrl || '');
+        setMcpServers(toServerDrafts(currentConnection.mcpServers));
+        setServersEdited(false);
       } else {
+        setName('');
+        setLabel('');
+        setColor('');
+        setIsDefault(false);
         setUrl('');
         setUsername('');
         setPassword('');
         setAnthropicApiKey('');
+        setOpenaiApiKey('');
+        setProvider('anthropic');
+        setModel('');
+        setBaseUrl('');
+        setMcpTransport('stdio');
+        setMcpUrl('');
+        setMcpServers([]);
+        setServersEdited(false);
       }
     }
-  }, [isOpen]);
+  }, [isOpen, profileId]);
+
+  const editServers = (update: (servers: MCPServerDraft[]) => MCPServerDraft[]) => {
+    setMcpServers(update);
+    setServersEdited(true);
+  };
+
+  const updateServer = (index: number, changes: Partial<MCPServerDraft>) => {
+    editServers(prev => prev.map((server, i) => i === index ? { ...server, ...changes } : server));
+  };
 
   const handleConnect = async () => {
-    if (!url.trim() || !username.trim() || !password.trim()) {
+    if (!url.trim() || !username.trim() || !hasPassword) {
       toast.error('Please enter URL, username, and application password');
       return;
     }
 
-    if (!anthropicApiKey.trim()) {
-      toast.error('Please enter your Anthropic API key');
+    if (!hasModelCredentials) {
+      toast.error(provider === 'anthropic'
+        ? 'Please enter your Anthropic API key'
+        : 'Please enter an API key or a base URL for your OpenAI-compatible endpoint');
+      return;
+    }
+
+    if (mcpTransport !== 'stdio' && !mcpUrl.trim()) {
+      toast.error('Please enter the URL of your remote WordPress MCP endpoint');
+      return;
+    }
+
+    const invalidServer = mcpServers.find(server =>
+      (server.name.trim() || server.url.trim()) && !/^[a-z][a-z0-9_-]{0,31}$/i.test(server.name.trim())
+    );
+    if (invalidServer) {
+      toast.error('Server names must start with a letter and use only letters, numbers, - and _');
       return;
     }
 
     setIsConnecting(true);
     try {
       const cleanUrl = formatWordPressUrl(url.trim());
-      const result = await testWordPressConnection(
-        cleanUrl,
-        username.trim(),
-        password.trim()
-      );
+      // A stored vault password cannot be tested from the browser; the server verifies it on use
+      const result = password.trim()
+        ? await testWordPressConnection(cleanUrl, username.trim(), password.trim())
+        : { success: true, siteName: connection?.siteName, diagnostics: undefined };
+      setDiagnostics(result.diagnostics ?? null);
 
       if (result.success) {
-        const newConnection: WordPressConnection = {
+        const fields = {
+          name: name.trim() || undefined,
+          label: label.trim() || undefined,
+          color: color || undefined,
+          isDefault,
           url: cleanUrl,
           username: username.trim(),
           password: password.trim(),
-          anthropicApiKey: anthropicApiKey.trim(),
-          connected: true,
-          lastConnected: new Date(),
+          anthropicApiKey: anthropicApiKey.trim() || undefined,
+          openaiApiKey: openaiApiKey.trim() || undefined,
+          provider,
+          model: model.trim() || undefined,
+          baseUrl: baseUrl.trim() || undefined,
+          mcpTransport,
+          mcpUrl: mcpTransport !== 'stdio' ? mcpUrl.trim() : undefined,
+          mcpServers: !isVaultConnection || serversEdited ? toServerConfigs(mcpServers) : undefined,
           siteName: result.siteName || 'WordPress Site'
         };
 
-        saveWordPressConnection(newConnection);
-        setConnection(newConnection);
+        // Signed-in users: keep secrets in the server-side vault, store only the connection ID here
+        const connectionId = await saveConnectionToVault(fields, connection?.connectionId);
+        if (!connectionId && isVaultConnection && !fields.password) {
+          toast.error('Sign in again to update this saved connection');
+          return;
+        }
+        const newConnection = connectionId
+          ? {
+            ...fields,
+            connectionId,
+            password: '',
+            anthropicApiKey: undefined,
+            openaiApiKey: undefined,
+            // Server names and URLs only; auth headers stay in the vault
+            mcpServers: (fields.mcpServers ?? connection?.mcpServers ?? []).map(({ headers, ...server }) => server),
+            connected: true,
+            lastConnected: new Date(),
+          }
+          : { ...fields, mcpServers: fields.mcpServers ?? [], connected: true, lastConnected: new Date() };
+
+        const savedProfile = saveWordPressConnection({ ...newConnection, id: connection?.id });
+        setConnection(savedProfile);
+        setColor(savedProfile.color || '');
         toast.success('Connected to WordPress successfully!');
         
         // Notify parent component about connection change
@@ -97,14 +254,46 @@ export function WordPressSettings({ isOpen, onClose, onConnectionChange }: WordP
     }
   };
 
+  // Re-check the saved connection; vault credentials are checked server-side by ID
+  const handleRunDiagnostics = async () => {
+    if (!connection) return;
+
+    setIsDiagnosing(true);
+    try {
+      const report = await diagnoseWordPressConnection(connection.connectionId
+        ? { connection_id: connection.connectionId }
+        : { wordpress_credentials: { url: connection.url, username: connection.username, password: connection.password } });
+      setDiagnostics(report);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Diagnostics failed');
+    } finally {
+      setIsDiagnosing(false);
+    }
+  };
+
   const handleDisconnect = () => {
-    removeWordPressConnection();
+    if (connection?.connectionId) {
+      void revokeVaultConnection(connection.connectionId);
+    }
+    removeWordPressConnection(connection?.id);
     setConnection(null);
+    setName('');
+    setLabel('');
+    setColor('');
+    setIsDefault(false);
     setUrl('');
     setUsername('');
     setPassword('');
     setAnthropicApiKey('');
-    toast.success('Disconnected from WordPress');
+    setOpenaiApiKey('');
+    setProvider('anthropic');
+    setModel('');
+    setBaseUrl('');
+    setMcpTransport('stdio');
+    setMcpUrl('');
+    setMcpServers([]);
+    setDiagnostics(null);
+    toast.success('Site removed');
     
     // Notify parent component about connection change
     if (onConnectionChange) {
@@ -119,7 +308,7 @@ export function WordPressSettings({ isOpen, onClose, onConnectionChange }: WordP
       className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50"
       onClick={(e) => e.target === e.currentTarget && onClose()}
     >
-      <div className="bg-white dark:bg-gray-900 rounded-lg p-6 w-96 max-w-[90vw] shadow-xl">
+      <div className="bg-white dark:bg-gray-900 rounded-lg p-6 w-96 max-w-[90vw] max-h-[90vh] overflow-y-auto shadow-xl">
         {/* Header */}
         <div className="flex items-center justify-between mb-6">
           <div className="flex items-center gap-2">
@@ -139,6 +328,23 @@ export function WordPressSettings({ isOpen, onClose, onConnectionChange }: WordP
               <span className="font-medium">Connected to {connection.siteName}</span>
             </div>
             <p className="text-xs text-green-600 dark:text-green-500 mt-1">{connection.url}</p>
+            {connection.connectionId && (
+              <p className="text-xs text-green-600 dark:text-green-500 mt-1">Credentials are stored encrypted on the server</p>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleRunDiagnostics}
+              disabled={isDiagnosing || isConnecting}
+              className="mt-2 h-7 px-2 text-xs text-green-700 dark:text-green-400"
+            >
+              {isDiagnosing ? (
+                <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+              ) : (
+                <Stethoscope className="w-3 h-3 mr-1" />
+              )}
+              Run diagnostics
+            </Button>
           </div>
         ) : (
           <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg border">
@@ -149,8 +355,56 @@ export function WordPressSettings({ isOpen, onClose, onConnectionChange }: WordP
           </div>
         )}
 
+        {diagnostics && <ConnectionDiagnosticsReport diagnostics={diagnostics} />}
+
         {/* Form */}
         <div className="space-y-4">
+          <div>
+            <Label htmlFor="siteName">Site Name</Label>
+            <Input
+              id="siteName"
+              type="text"
+              placeholder={connection?.siteName || 'Defaults to the WordPress site title'}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isConnecting}
+              className="mt-1"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="siteLabel">Label</Label>
+            <Input
+              id="siteLabel"
+              type="text"
+              placeholder="e.g. Staging, Client: Acme"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              disabled={isConnecting}
+              className="mt-1"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex gap-1.5">
+              {SITE_COLORS.map((swatch) => (
+                <button
+                  key={swatch}
+                  type="button"
+                  onClick={() => setColor(swatch)}
+                  disabled={isConnecting}
+                  className={`size-5 rounded-full border-2 ${color === swatch ? 'border-foreground' : 'border-transparent'}`}
+                  style={{ backgroundColor: swatch }}
+                  title={swatch}
+                />
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="siteDefault" checked={isDefault} onCheckedChange={setIsDefault} disabled={isConnecting} />
+              <Label htmlFor="siteDefault" className="text-xs">Default</Label>
+            </div>
+          </div>
+
           <div>
             <Label htmlFor="url">WordPress URL</Label>
             <Input
@@ -182,7 +436,7 @@ export function WordPressSettings({ isOpen, onClose, onConnectionChange }: WordP
             <Input
               id="password"
               type="password"
-              placeholder="Your WordPress app password"
+              placeholder={isVaultConnection ? 'Stored securely - leave blank to keep' : 'Your WordPress app password'}
               value={password}
               onChange={(e) => setPassword(e.target.value)}
               disabled={isConnecting}
@@ -191,19 +445,191 @@ export function WordPressSettings({ isOpen, onClose, onConnectionChange }: WordP
           </div>
 
           <div>
-            <Label htmlFor="anthropicApiKey">Anthropic API Key *</Label>
+            <Label htmlFor="provider">AI Provider</Label>
+            <Select
+              value={provider}
+              onValueChange={(value) => setProvider(value as ModelProvider)}
+              disabled={isConnecting}
+            >
+              <SelectTrigger id="provider" className="mt-1 w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROVIDER_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="model">Model</Label>
             <Input
-              id="anthropicApiKey"
-              type="password"
-              placeholder="sk-ant-..."
-              value={anthropicApiKey}
-              onChange={(e) => setAnthropicApiKey(e.target.value)}
+              id="model"
+              type="text"
+              placeholder={PROVIDER_OPTIONS.find(option => option.value === provider)?.modelPlaceholder}
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
               disabled={isConnecting}
               className="mt-1"
-              required
             />
             <p className="text-xs text-muted-foreground mt-1">
-              Required: Get your API key from <a href="https://console.anthropic.com" target="_blank" rel="noopener noreferrer" className="text-[#21759B] hover:underline">console.anthropic.com</a>
+              Leave empty to use the provider default. Cheaper models work well for read-only tasks.
+            </p>
+          </div>
+
+          {provider === 'anthropic' && (
+            <div>
+              <Label htmlFor="anthropicApiKey">Anthropic API Key *</Label>
+              <Input
+                id="anthropicApiKey"
+                type="password"
+                placeholder={isVaultConnection ? 'Stored securely - leave blank to keep' : 'sk-ant-...'}
+                value={anthropicApiKey}
+                onChange={(e) => setAnthropicApiKey(e.target.value)}
+                disabled={isConnecting}
+                className="mt-1"
+                required
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Required: Get your API key from <a href="https://console.anthropic.com" target="_blank" rel="noopener noreferrer" className="text-[#21759B] hover:underline">console.anthropic.com</a>
+              </p>
+            </div>
+          )}
+
+          {provider === 'openai' && (
+            <div>
+              <Label htmlFor="openaiApiKey">API Key</Label>
+              <Input
+                id="openaiApiKey"
+                type="password"
+                placeholder={isVaultConnection ? 'Stored securely - leave blank to keep' : 'sk-...'}
+                value={openaiApiKey}
+                onChange={(e) => setOpenaiApiKey(e.target.value)}
+                disabled={isConnecting}
+                className="mt-1"
+              />
+            </div>
+          )}
+
+          {provider !== 'anthropic' && (
+            <div>
+              <Label htmlFor="baseUrl">Base URL</Label>
+              <Input
+                id="baseUrl"
+                type="url"
+                placeholder={provider === 'ollama' ? 'http://localhost:11434/v1' : 'https://api.openai.com/v1'}
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                disabled={isConnecting}
+                className="mt-1"
+              />
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="mcpTransport">WordPress MCP Connection</Label>
+            <Select
+              value={mcpTransport}
+              onValueChange={(value) => setMcpTransport(value as MCPTransport)}
+              disabled={isConnecting}
+            >
+              <SelectTrigger id="mcpTransport" className="mt-1 w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MCP_TRANSPORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {mcpTransport !== 'stdio' && (
+              <>
+                <Input
+                  id="mcpUrl"
+                  type="url"
+                  placeholder="https://your-site.com/wp-json/mcp"
+                  value={mcpUrl}
+                  onChange={(e) => setMcpUrl(e.target.value)}
+                  disabled={isConnecting}
+                  className="mt-2"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Authenticated with your username and application password. Use a remote endpoint on serverless hosts.
+                </p>
+              </>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between">
+              <Label>Additional MCP Servers</Label>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => editServers(prev => [...prev, { name: '', url: '', transport: 'http', authorization: '' }])}
+                disabled={isConnecting}
+                className="h-7 px-2 text-[#21759B]"
+              >
+                <Plus className="w-3 h-3 mr-1" />
+                Add
+              </Button>
+            </div>
+            {mcpServers.map((server, index) => (
+              <div key={index} className="mt-2 p-2 space-y-2 rounded-lg border">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Name, e.g. analytics"
+                    value={server.name}
+                    onChange={(e) => updateServer(index, { name: e.target.value })}
+                    disabled={isConnecting}
+                  />
+                  <Select
+                    value={server.transport}
+                    onValueChange={(value) => updateServer(index, { transport: value as 'http' | 'sse' })}
+                    disabled={isConnecting}
+                  >
+                    <SelectTrigger className="w-24 shrink-0">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="http">HTTP</SelectItem>
+                      <SelectItem value="sse">SSE</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => editServers(prev => prev.filter((_, i) => i !== index))}
+                    disabled={isConnecting}
+                    className="p-2 hover:text-red-600"
+                    title="Remove server"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <Input
+                  type="url"
+                  placeholder="https://mcp.example.com/mcp"
+                  value={server.url}
+                  onChange={(e) => updateServer(index, { url: e.target.value })}
+                  disabled={isConnecting}
+                />
+                <Input
+                  type="password"
+                  placeholder={isVaultConnection && !serversEdited ? 'Stored securely' : 'Authorization header, e.g. Bearer ...'}
+                  value={server.authorization}
+                  onChange={(e) => updateServer(index, { authorization: e.target.value })}
+                  disabled={isConnecting}
+                />
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground mt-1">
+              Tools from these servers are available to the agent as name__tool.
             </p>
           </div>
 
@@ -212,7 +638,7 @@ export function WordPressSettings({ isOpen, onClose, onConnectionChange }: WordP
               <>
                 <Button
                   onClick={handleConnect}
-                  disabled={isConnecting || !url.trim() || !username.trim() || !password.trim() || !anthropicApiKey.trim()}
+                  disabled={isConnecting || !url.trim() || !username.trim() || !hasPassword || !hasModelCredentials}
                   className="flex-1 bg-[#21759B] hover:bg-[#1a5f7e]"
                 >
                   {isConnecting ? (
@@ -229,13 +655,13 @@ export function WordPressSettings({ isOpen, onClose, onConnectionChange }: WordP
                   variant="outline"
                   className="flex-1"
                 >
-                  Disconnect
+                  Remove Site
                 </Button>
               </>
             ) : (
               <Button
                 onClick={handleConnect}
-                disabled={isConnecting || !url.trim() || !username.trim() || !password.trim() || !anthropicApiKey.trim()}
+                disabled={isConnecting || !url.trim() || !username.trim() || !hasPassword || !hasModelCredentials}
                 className="w-full bg-[#21759B] hover:bg-[#1a5f7e]"
               >
                 {isConnecting ? (
@@ -260,7 +686,7 @@ export function WordPressSettings({ isOpen, onClose, onConnectionChange }: WordP
           </div>
           <div className="p-3 bg-purple-50 dark:bg-purple-900/20 rounded-lg">
             <p className="text-xs text-purple-700 dark:text-purple-400">
-              <strong>Anthropic API Key:</strong> Required. Get your key from <a href="https://console.anthropic.com" target="_blank" rel="noopener noreferrer" className="underline">console.anthropic.com</a>
+              <strong>AI Provider:</strong> Anthropic needs an API key from <a href="https://console.anthropic.com" target="_blank" rel="noopener noreferrer" className="underline">console.anthropic.com</a>. OpenAI-compatible and Ollama endpoints can run fully offline.
             </p>
           </div>
         </div>
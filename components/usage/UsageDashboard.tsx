@@ -0,0 +1,279 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '@/components/ui/chart';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useAuth } from '@/hooks/useAuth';
+import { authService } from '@/lib/supabase';
+import { getChatByThreadId } from '@/lib/chat-storage';
+import { cn, formatCost, formatTokens } from '@/lib/utils';
+import type { UsageReport } from '@/lib/agents/wp-agent/types';
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+// Series charted individually; smaller ones are summed into "Other"
+const MAX_CHART_SERIES = 5;
+
+type UsageGrouping = 'sites' | 'threads';
+
+function describeThread(threadId: string): string {
+  return getChatByThreadId(threadId)?.title || `Thread ${threadId.slice(-8)}`;
+}
+
+/**
+ * Daily spend as stacked bars, one series per site or thread
+ */
+function buildChart(report: UsageReport, grouping: UsageGrouping) {
+  const totals = new Map<string, number>();
+  for (const day of report.daily) {
+    for (const [key, cost] of Object.entries(day[grouping])) {
+      totals.set(key, (totals.get(key) ?? 0) + cost);
+    }
+  }
+
+  const keys = [...totals.entries()].sort((a, b) => b[1] - a[1]).map(([key]) => key);
+  const shown = keys.slice(0, MAX_CHART_SERIES);
+  const hasOther = keys.length > MAX_CHART_SERIES;
+
+  // Config keys become CSS variables, so series are numbered rather than named
+  const config: ChartConfig = {};
+  shown.forEach((key, index) => {
+    config[`series${index}`] = {
+      label: grouping === 'threads' ? describeThread(key) : key,
+      color: `var(--chart-${index + 1})`,
+    };
+  });
+  if (hasOther) {
+    config.other = { label: 'Other', color: 'var(--muted-foreground)' };
+  }
+
+  const data = report.daily.map(day => {
+    const row: Record<string, string | number> = { date: day.date };
+    shown.forEach((key, index) => {
+      row[`series${index}`] = day[grouping][key] ?? 0;
+    });
+    if (hasOther) {
+      row.other = Object.entries(day[grouping])
+        .filter(([key]) => !shown.includes(key))
+        .reduce((sum, [, cost]) => sum + cost, 0);
+    }
+    return row;
+  });
+
+  return { config, data };
+}
+
+export function UsageDashboard() {
+  const { user, loading: authLoading } = useAuth();
+  const [days, setDays] = useState(30);
+  const [grouping, setGrouping] = useState<UsageGrouping>('sites');
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    const loadReport = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/usage?days=${days}`, { headers: await authService.getAuthHeaders() });
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || `HTTP error! status: ${response.status}`);
+        }
+        if (!cancelled) setReport(result.report);
+      } catch (error) {
+        console.error('Failed to load usage:', error);
+        if (!cancelled) setError(error instanceof Error ? error.message : 'Failed to load usage');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadReport();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, days]);
+
+  if (authLoading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <Loader2 className="size-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="mx-auto max-w-4xl p-6 space-y-4">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/"><ArrowLeft className="size-4" /> Back to chat</Link>
+        </Button>
+        <p className="text-sm text-muted-foreground">Sign in to see your token usage and cost.</p>
+      </div>
+    );
+  }
+
+  const chart = report ? buildChart(report, grouping) : null;
+
+  return (
+    <div className="mx-auto max-w-5xl p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" asChild>
+            <Link href="/"><ArrowLeft className="size-4" /></Link>
+          </Button>
+          <h1 className="text-xl font-semibold">Usage & cost</h1>
+        </div>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={String(days)}
+          onValueChange={(value) => value && setDays(Number(value))}
+        >
+          {RANGE_OPTIONS.map(option => (
+            <ToggleGroupItem key={option} value={String(option)}>
+              {option} days
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {report && (
+        <div className="grid gap-4 sm:grid-cols-3">
+          <Card>
+            <CardHeader>
+              <CardDescription>Spend</CardDescription>
+              <CardTitle className="text-2xl">{formatCost(report.totals.costUsd)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardDescription>Tokens</CardDescription>
+              <CardTitle className="text-2xl">{formatTokens(report.totals.totalTokens)}</CardTitle>
+            </CardHeader>
+            <CardContent className="text-xs text-muted-foreground">
+              {formatTokens(report.totals.inputTokens)} input / {formatTokens(report.totals.outputTokens)} output
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardDescription>Model calls</CardDescription>
+              <CardTitle className="text-2xl">{report.totals.calls.toLocaleString()}</CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Daily spend</CardTitle>
+            <CardDescription>USD per day, by {grouping === 'sites' ? 'site' : 'conversation'}</CardDescription>
+          </div>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={grouping}
+            onValueChange={(value) => value && setGrouping(value as UsageGrouping)}
+          >
+            <ToggleGroupItem value="sites">Sites</ToggleGroupItem>
+            <ToggleGroupItem value="threads">Conversations</ToggleGroupItem>
+          </ToggleGroup>
+        </CardHeader>
+        <CardContent className={cn(isLoading && 'opacity-50')}>
+          {chart && Object.keys(chart.config).length > 0 ? (
+            <ChartContainer config={chart.config} className="aspect-auto h-72 w-full">
+              <BarChart data={chart.data}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="date"
+                  tickLine={false}
+                  axisLine={false}
+                  minTickGap={24}
+                  tickFormatter={(date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString([], { month: 'short', day: 'numeric', timeZone: 'UTC' })}
+                />
+                <YAxis tickLine={false} axisLine={false} width={56} tickFormatter={(cost: number) => formatCost(cost)} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(date) => new Date(`${date}T00:00:00Z`).toLocaleDateString([], { dateStyle: 'medium', timeZone: 'UTC' })}
+                    />
+                  }
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                {Object.keys(chart.config).map(key => (
+                  <Bar key={key} dataKey={key} stackId="cost" fill={`var(--color-${key})`} />
+                ))}
+              </BarChart>
+            </ChartContainer>
+          ) : (
+            <p className="py-12 text-center text-sm text-muted-foreground">
+              {isLoading ? 'Loading usage…' : 'No usage recorded in this period.'}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {report && report.threads.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Conversations</CardTitle>
+            <CardDescription>Most expensive first</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Conversation</TableHead>
+                  <TableHead>Site</TableHead>
+                  <TableHead className="text-right">Calls</TableHead>
+                  <TableHead className="text-right">Tokens</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.threads.map(thread => (
+                  <TableRow key={thread.threadId}>
+                    <TableCell className="max-w-64 truncate">
+                      <Link href={`/?t=${thread.threadId}`} className="hover:underline">
+                        {describeThread(thread.threadId)}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{thread.site || '—'}</TableCell>
+                    <TableCell className="text-right">{thread.calls}</TableCell>
+                    <TableCell className="text-right">{formatTokens(thread.totalTokens)}</TableCell>
+                    <TableCell className="text-right">{formatCost(thread.costUsd)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
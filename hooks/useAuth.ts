@@ -9,19 +9,14 @@ interface AuthState {
 }
 
 // Function to sync user with our custom users table
-const syncUserToDatabase = async (user: User) => {
+// The server reads the identity from the verified access token, not from the request body
+const syncUserToDatabase = async (session: Session) => {
   try {
-    console.log('Syncing user to database:', user.id, user.email);
+    console.log('Syncing user to database:', session.user.id, session.user.email);
     
     const response = await fetch('/api/auth/sync-user', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        id: user.id,
-        email: user.email,
-        name: user.user_metadata?.full_name || user.email?.split('@')[0],
-        avatar: user.user_metadata?.avatar_url,
-      }),
+      headers: { Authorization: `Bearer ${session.access_token}` },
     });
     
     if (!response.ok) {
@@ -60,7 +55,7 @@ export const useAuth = () => {
         
         // If user exists, sync to our database
         if (session?.user) {
-          await syncUserToDatabase(session.user);
+          await syncUserToDatabase(session);
         }
         
         if (isMounted) {
@@ -92,7 +87,7 @@ export const useAuth = () => {
         try {
           // If user signs in or token refreshes, sync to our database
           if (session?.user && (event === 'SIGNED_IN' || event === 'TOKEN_REFRESHED')) {
-            await syncUserToDatabase(session.user);
+            await syncUserToDatabase(session);
           }
           
           if (isMounted) {
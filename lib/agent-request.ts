@@ -0,0 +1,177 @@
+/**
+ * Agent Request Helpers
+ * Resolves per-request agent configuration for the /api/wordpress routes
+ */
+
+import { validateModelConfig, type ModelProvider, type WpAgentConfig } from '@/lib/agents/wp-agent';
+import type { NextRequest } from 'next/server';
+import { getRequestUser } from '@/lib/auth-middleware';
+import { resolveConnectionCredentials } from '@/lib/credential-vault';
+import type { MCPServerConfig, MCPTransport } from '@/lib/mcp-client-manager';
+import { validateOutboundUrl } from '@/lib/outbound-urls';
+
+export interface WordPressRequestCredentials {
+  url?: string;
+  username?: string;
+  password?: string;
+  anthropicApiKey?: string;
+  openaiApiKey?: string;
+  provider?: ModelProvider;
+  model?: string;
+  baseUrl?: string;
+  mcpTransport?: MCPTransport;
+  mcpUrl?: string;
+  mcpServers?: MCPServerConfig[];
+}
+
+const MCP_TRANSPORTS: MCPTransport[] = ['stdio', 'http', 'sse'];
+
+function toMCPTransport(value: unknown): MCPTransport | undefined {
+  return MCP_TRANSPORTS.includes(value as MCPTransport) ? value as MCPTransport : undefined;
+}
+
+/**
+ * Keep only well-formed additional MCP servers: unique tool-safe names, public http(s) URLs
+ * (see validateOutboundUrl), string headers
+ */
+export function sanitizeMCPServers(servers: unknown): MCPServerConfig[] {
+  if (!Array.isArray(servers)) return [];
+
+  const names = new Set<string>(['wordpress']);
+  const sanitized: MCPServerConfig[] = [];
+
+  for (const server of servers) {
+    const name = typeof server?.name === 'string' ? server.name.trim().toLowerCase() : '';
+    if (!/^[a-z][a-z0-9_-]{0,31}$/.test(name) || names.has(name) || validateOutboundUrl(server.url)) {
+      console.warn('Ignoring invalid MCP server config:', name || server?.name);
+      continue;
+    }
+
+    const headers = Object.fromEntries(
+      Object.entries(server.headers ?? {}).filter(([key, value]) => key.trim() && typeof value === 'string')
+    ) as Record<string, string>;
+
+    names.add(name);
+    sanitized.push({
+      name,
+      url: server.url,
+      transport: server.transport === 'sse' ? 'sse' : 'http',
+      ...(Object.keys(headers).length > 0 && { headers }),
+    });
+  }
+
+  return sanitized;
+}
+
+/**
+ * Build agent config from client-provided credentials, falling back to env.
+ * Env keys are only used with the env or default model endpoint: a client-chosen
+ * base URL must pass the outbound URL check and, for OpenAI, come with the client's own key.
+ * A client-chosen site and MCP endpoint must pass the same check.
+ */
+export function resolveAgentConfig(
+  credentials?: WordPressRequestCredentials | null
+): { config: WpAgentConfig; error?: string; status?: number } {
+  const customBaseUrl = credentials?.baseUrl || undefined;
+  const clientSite = Boolean(credentials?.url || credentials?.mcpUrl);
+
+  // Model settings: prioritize client-provided, then env (resolved in the model factory)
+  const config: WpAgentConfig = {
+    provider: credentials?.provider,
+    model: credentials?.model || undefined,
+    modelBaseUrl: customBaseUrl,
+    anthropicApiKey: credentials?.anthropicApiKey || process.env.ANTHROPIC_API_KEY,
+    openaiApiKey: credentials?.openaiApiKey || (customBaseUrl ? undefined : process.env.OPENAI_API_KEY),
+    // WordPress site and MCP connection: the client's own, or else the env site. Never mixed,
+    // so env credentials are only ever sent to the env site and MCP endpoint.
+    ...(clientSite
+      ? {
+        wordpressUrl: credentials?.url || undefined,
+        wordpressUsername: credentials?.username || undefined,
+        wordpressAppPassword: credentials?.password || undefined,
+        wordpressMcpTransport: toMCPTransport(credentials?.mcpTransport),
+        wordpressMcpUrl: credentials?.mcpUrl || undefined,
+      }
+      : {
+        wordpressUrl: process.env.WORDPRESS_URL,
+        wordpressUsername: process.env.WORDPRESS_USERNAME,
+        wordpressAppPassword: process.env.WORDPRESS_APP_PASSWORD,
+        wordpressMcpTransport: toMCPTransport(process.env.WORDPRESS_MCP_TRANSPORT),
+        wordpressMcpUrl: process.env.WORDPRESS_MCP_URL || undefined,
+      }),
+    // Additional servers are always the client's
+    mcpServers: sanitizeMCPServers(credentials?.mcpServers),
+  };
+
+  if (clientSite && config.wordpressUrl) {
+    const urlError = validateOutboundUrl(config.wordpressUrl, 'WordPress URL');
+    if (urlError) {
+      return { config, error: urlError, status: 400 };
+    }
+  }
+
+  if (clientSite && config.wordpressMcpUrl) {
+    const urlError = validateOutboundUrl(config.wordpressMcpUrl, 'MCP endpoint URL');
+    if (urlError) {
+      return { config, error: urlError, status: 400 };
+    }
+  }
+
+  if (customBaseUrl) {
+    const urlError = validateOutboundUrl(customBaseUrl, 'Model base URL');
+    if (urlError) {
+      return { config, error: urlError, status: 400 };
+    }
+  }
+
+  const error = validateModelConfig(config);
+  return error ? { config, error, status: customBaseUrl ? 400 : 500 } : { config };
+}
+
+/**
+ * Resolve the site credentials for a request body: a vault connection ID (resolved for
+ * the signed-in owner) takes precedence over inline credentials.
+ * Pass `userId` when the caller already authenticated the request, e.g. by API key.
+ */
+export async function resolveRequestCredentials(
+  request: NextRequest,
+  body: { connection_id?: string; wordpress_credentials?: WordPressRequestCredentials | null },
+  options: { userId?: string | null } = {}
+): Promise<{ credentials: WordPressRequestCredentials | null; error?: string; status?: number }> {
+  if (!body.connection_id) {
+    return { credentials: body.wordpress_credentials ?? null };
+  }
+
+  const userId = options.userId !== undefined ? options.userId : (await getRequestUser(request))?.id;
+  if (!userId) {
+    return { credentials: null, error: 'Sign in to use a saved connection', status: 401 };
+  }
+
+  const credentials = await resolveConnectionCredentials(body.connection_id, userId);
+  if (!credentials) {
+    return { credentials: null, error: 'Connection not found or revoked', status: 404 };
+  }
+
+  return { credentials };
+}
+
+/**
+ * Build agent config for a request body (see resolveRequestCredentials).
+ * A `userId` is also recorded on the config as the user the agent acts for.
+ */
+export async function resolveRequestAgentConfig(
+  request: NextRequest,
+  body: { connection_id?: string; wordpress_credentials?: WordPressRequestCredentials | null },
+  options: { userId?: string | null } = {}
+): Promise<{ config: WpAgentConfig; error?: string; status?: number }> {
+  const { credentials, error: credentialsError, status } = await resolveRequestCredentials(request, body, options);
+  if (credentialsError) {
+    return { config: {}, error: credentialsError, status };
+  }
+
+  const { config, error, status: configStatus } = resolveAgentConfig(credentials);
+  if (options.userId) {
+    config.userId = options.userId;
+  }
+  return error ? { config, error, status: configStatus ?? 500 } : { config };
+}
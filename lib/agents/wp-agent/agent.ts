@@ -4,50 +4,101 @@
  */
 
 import { createReactAgent } from "@langchain/langgraph/prebuilt";
-import { MemorySaver } from "@langchain/langgraph";
-import { ChatAnthropic } from '@langchain/anthropic';
-import { mcpClientManager } from '@/lib/mcp-client-manager';
-import { WP_AGENT_SYSTEM_PROMPT } from './prompts/system-prompt';
-import type { WpAgentConfig } from './types';
+import { Command } from "@langchain/langgraph";
+import { AIMessage, HumanMessage, ToolMessage, isAIMessage, isAIMessageChunk, isToolMessage } from '@langchain/core/messages';
+import { mcpClientManager, type MCPClientConfig, type MCPClientStatus } from '@/lib/mcp-client-manager';
+import { buildSystemPrompt } from './prompts/prompt-builder';
+import { getCheckpointer, getActiveCheckpointer } from './checkpointer';
+import { CANCELLED_ARTIFACT, CANCEL_SIGNAL_KEY, WpToolNode } from './tool-node';
+import { classifyToolRisk } from './tool-risk';
+import { priceModelUsage } from './usage';
+import {
+  buildInverse,
+  findSnapshotTool,
+  findUndoableEntries,
+  getJournalSite,
+  getToolOutputError,
+  isJournaledTool,
+  markChange,
+  recordChange,
+  takeSnapshot
+} from './journal';
+import { createChatModel, resolveModelProvider, validateModelConfig } from './models';
+import { describeSiteCapabilities, filterToolsByCapabilities, getSiteCapabilities } from './capabilities';
+import { createSupervisorAgent, getSubAgents, HANDOFF_TOOL_PREFIX, SUPERVISOR_NODE } from './sub-agents';
+import type { StreamEventPayload } from '@/lib/stream-events';
+import type {
+  JournalContext,
+  PlanExecutionResult,
+  PlanStep,
+  ToolApprovalDecision,
+  ToolPlanStep,
+  UndoResult,
+  WpAgentConfig
+} from './types';
 
 /**
  * Default configuration for wpAgent
  */
 const DEFAULT_CONFIG: WpAgentConfig = {
-  model: "claude-sonnet-4-20250514",
+  provider: "anthropic",
+  temperature: 0.1,
   enableWebSearch: true,
-  enableTemplates: false,
-  enableSubAgents: false,
+  enableTemplates: process.env.WP_AGENT_ENABLE_TEMPLATES === 'true',
+  enableSubAgents: process.env.WP_AGENT_ENABLE_SUB_AGENTS === 'true',
   customNodes: [],
+  requireApproval: true,
+  dryRun: false,
+  enableJournal: true,
+  enableCapabilityFilter: process.env.WP_AGENT_CAPABILITY_FILTER !== 'false',
 };
 
 /**
- * Memory saver instance for conversation persistence
+ * Resolve the site credentials for the MCP client pool.
+ * Env credentials are only used for the env site, never completed into a config that names its own.
  */
-const memory = new MemorySaver();
+function getMCPClientConfig(config: WpAgentConfig): MCPClientConfig | null {
+  const useEnvSite = !config.wordpressUrl && !config.wordpressMcpUrl;
+  const wpUrl = useEnvSite ? process.env.WORDPRESS_URL : config.wordpressUrl;
+  const wpUsername = useEnvSite ? process.env.WORDPRESS_USERNAME : config.wordpressUsername;
+  const wpPassword = useEnvSite ? process.env.WORDPRESS_APP_PASSWORD : config.wordpressAppPassword;
+
+  if (!wpUrl || !wpUsername || !wpPassword) {
+    return null;
+  }
+
+  return {
+    wordpressUrl: wpUrl,
+    wordpressUsername: wpUsername,
+    wordpressPassword: wpPassword,
+    transport: config.wordpressMcpTransport
+      || (useEnvSite ? process.env.WORDPRESS_MCP_TRANSPORT as MCPClientConfig['transport'] : undefined)
+      || 'stdio',
+    serverUrl: useEnvSite ? process.env.WORDPRESS_MCP_URL : config.wordpressMcpUrl,
+    servers: config.mcpServers,
+  };
+}
 
 /**
- * Get WordPress MCP tools using persistent client
+ * The site and user that journal entries made with a config belong to
+ */
+function getJournalContext(config: WpAgentConfig): JournalContext {
+  return { site: getJournalSite(getMCPClientConfig(config)?.wordpressUrl), userId: config.userId ?? null };
+}
+
+/**
+ * Get WordPress MCP tools using the pooled client for this site
  */
 async function getWordPressMCPTools(config: WpAgentConfig): Promise<any[]> {
-  const wpUrl = config.wordpressUrl || process.env.WORDPRESS_URL;
-  const wpUsername = config.wordpressUsername || process.env.WORDPRESS_USERNAME;
-  const wpPassword = config.wordpressAppPassword || process.env.WORDPRESS_APP_PASSWORD;
+  const mcpConfig = getMCPClientConfig(config);
 
-  if (!wpUrl || !wpUsername || !wpPassword) {
+  if (!mcpConfig) {
     console.warn('WordPress credentials not fully configured. Some tools may be unavailable.');
     return [];
   }
 
   try {
-    // Use singleton MCP client manager
-    const tools = await mcpClientManager.getTools({
-      wordpressUrl: wpUrl,
-      wordpressUsername: wpUsername,
-      wordpressPassword: wpPassword,
-    });
-    
-    return tools;
+    return await mcpClientManager.getTools(mcpConfig);
   } catch (error) {
     console.error('Failed to get WordPress MCP tools:', error);
     return [];
@@ -55,55 +106,140 @@ async function getWordPressMCPTools(config: WpAgentConfig): Promise<any[]> {
 }
 
 /**
- * Create wpAgent with specified configuration and memory support
+ * This site's pooled MCP client, held for a run: agents built from `tools` use the leased
+ * client, which is not evicted or closed until `release` is called
  */
-export async function createWpAgent(config: WpAgentConfig = {}): Promise<any> {
-  const finalConfig = { ...DEFAULT_CONFIG, ...config };
-  
-  // Validate required API key: prioritize config, then env
-  const anthropicKey = finalConfig.anthropicApiKey || process.env.ANTHROPIC_API_KEY;
-  
-  if (!anthropicKey) {
-    throw new Error(
-      'Anthropic API key is required. Please configure it in WordPress Settings or set ANTHROPIC_API_KEY environment variable.'
-    );
+interface WordPressClientLease {
+  tools: any[] | null; // Null when no client could be acquired
+  release: () => void;
+}
+
+/**
+ * Hold this site's pooled MCP client for the duration of a run so it is not evicted mid-run
+ */
+async function acquireWordPressClient(config: WpAgentConfig): Promise<WordPressClientLease> {
+  const mcpConfig = getMCPClientConfig(config);
+  if (!mcpConfig) return { tools: null, release: () => {} };
+
+  try {
+    const lease = await mcpClientManager.acquire(mcpConfig);
+    return { tools: lease.tools, release: lease.release };
+  } catch (error) {
+    console.error('Failed to acquire WordPress MCP client:', error);
+    return { tools: null, release: () => {} };
   }
+}
 
-  // Configure model
-  const model = new ChatAnthropic({
-    model: "claude-sonnet-4-20250514",
-    anthropicApiKey: anthropicKey as string,
-    temperature: 0.1,
-    maxTokens: 64000,
-    clientOptions: {
-      defaultHeaders: {
-        "anthropic-beta": ["token-efficient-tools-2025-02-19",
-        "fine-grained-tool-streaming-2025-05-14"]
-      },
-    },
-  });
+/**
+ * Health of this site's MCP client. With probe, pings the client (or connects it if idle).
+ * Returns null when no WordPress credentials are configured.
+ */
+export async function getWordPressMCPStatus(
+  config: WpAgentConfig,
+  options: { probe?: boolean } = {}
+): Promise<MCPClientStatus | null> {
+  const mcpConfig = getMCPClientConfig(config);
+  if (!mcpConfig) return null;
+
+  if (options.probe && !mcpClientManager.isInitialized(mcpConfig)) {
+    try {
+      await mcpClientManager.getTools(mcpConfig);
+    } catch (error) {
+      console.error('WordPress MCP health probe failed:', error);
+    }
+  }
+
+  return mcpClientManager.status(mcpConfig, options);
+}
+
+// Prompt version each agent was built with, stamped onto the turns it runs
+const agentPrompts = new WeakMap<object, { version: string; hash: string }>();
+
+/**
+ * Create wpAgent with specified configuration and memory support.
+ * Pass `tools` from a lease (acquireWordPressClient) so the agent uses the client the run holds.
+ */
+export async function createWpAgent(config: WpAgentConfig = {}, options: { tools?: any[] | null } = {}): Promise<any> {
+  // Config values override defaults; unset keys fall back to env and provider defaults
+  const finalConfig = { ...DEFAULT_CONFIG, ...config, provider: resolveModelProvider(config) };
+
+  // Configure model for the selected provider (validates API keys)
+  const model = createChatModel(finalConfig);
 
   // Get WordPress MCP tools using persistent client
-  const wpTools = await getWordPressMCPTools(finalConfig);
+  let wpTools = options.tools ?? await getWordPressMCPTools(finalConfig);
 
-  // Combine MCP tools with web search
-  const allTools = [
-    ...wpTools,
-    {
+  // Site context for the prompt; capabilities drop tools this site cannot serve
+  const mcpConfig = getMCPClientConfig(finalConfig);
+  const capabilities = mcpConfig && wpTools.length > 0
+    ? await getSiteCapabilities({
+        url: mcpConfig.wordpressUrl,
+        username: mcpConfig.wordpressUsername,
+        password: mcpConfig.wordpressPassword,
+      })
+    : null;
+  let capabilityPrompt = '';
+  if (capabilities && finalConfig.enableCapabilityFilter) {
+    const filtered = filterToolsByCapabilities(wpTools, capabilities);
+    if (filtered.unavailable.length > 0) {
+      console.log(`🧩 Removed ${wpTools.length - filtered.tools.length} tools unavailable on this site: ${filtered.unavailable.join(', ')}`);
+    }
+    wpTools = filtered.tools;
+    capabilityPrompt = describeSiteCapabilities(capabilities, filtered.unavailable);
+  }
+
+  // Combine MCP tools with web search (Anthropic server-side tool only)
+  const allTools = [...wpTools];
+  if (finalConfig.enableWebSearch && finalConfig.provider === 'anthropic') {
+    allTools.push({
       type: "web_search_20250305",
       name: "web_search",
       max_uses: 5,
-    } as any,
-  ];
+    } as any);
+  }
+
+  const { prompt: systemPrompt, version, hash } = buildSystemPrompt({
+    tools: allTools,
+    site: capabilities?.site ?? (mcpConfig ? { url: mcpConfig.wordpressUrl } : null),
+    capabilities: capabilityPrompt,
+    dryRun: finalConfig.dryRun,
+  });
+  console.log(`📝 System prompt v${version} (${hash}) with ${allTools.length} tools`);
+  const promptInfo = { version, hash };
+
+  // Delegate to specialist sub-agents, each limited to its own slice of tools
+  if (finalConfig.enableSubAgents) {
+    const supervisor = createSupervisorAgent({
+      model,
+      tools: allTools,
+      subAgents: getSubAgents(finalConfig),
+      systemPrompt,
+      checkpointer: getCheckpointer(finalConfig),
+      requireApproval: finalConfig.requireApproval,
+      dryRun: finalConfig.dryRun,
+      journal: finalConfig.enableJournal,
+      journalContext: getJournalContext(finalConfig),
+    });
+    agentPrompts.set(supervisor, promptInfo);
+    return supervisor;
+  }
 
   // Create ReAct Agent with WordPress MCP tools and memory support
+  // High-risk tool calls pause the graph until the user approves them;
+  // in dry-run mode write calls are recorded as a plan instead
   const agent = createReactAgent({
-    tools: allTools,
-    stateModifier: WP_AGENT_SYSTEM_PROMPT,
+    tools: new WpToolNode(allTools, {
+      requireApproval: finalConfig.requireApproval,
+      dryRun: finalConfig.dryRun,
+      journal: finalConfig.enableJournal,
+      journalContext: getJournalContext(finalConfig),
+    }),
+    stateModifier: systemPrompt,
     llm: model,
-    checkpointSaver: memory,
+    checkpointSaver: getCheckpointer(finalConfig),
   });
 
+  agentPrompts.set(agent, promptInfo);
   return agent;
 }
 
@@ -118,9 +254,10 @@ export function validateWpAgentEnvironment(): {
   const errors: string[] = [];
   const warnings: string[] = [];
 
-  // Check for Anthropic API key
-  if (!process.env.ANTHROPIC_API_KEY) {
-    errors.push('ANTHROPIC_API_KEY environment variable is not set');
+  // Check for the configured provider's API key
+  const modelError = validateModelConfig();
+  if (modelError) {
+    errors.push(modelError);
   }
 
   // Check for WordPress credentials
@@ -144,92 +281,676 @@ export function validateWpAgentEnvironment(): {
 }
 
 /**
- * Get memory saver instance
+ * Get the active checkpointer (memory, file or postgres)
  */
 export function getMemory() {
-  return memory;
+  return getActiveCheckpointer();
 }
 
 /**
- * Stream WordPress operations with tool call visibility and memory support
+ * Stream WordPress operations with tool call visibility and memory support.
+ * Aborting `signal` cancels the run at the next safe point.
  */
 export async function* streamWordPressOperations(
   description: string,
   threadId: string,
-  config: WpAgentConfig = {}
-): AsyncGenerator<any, void, unknown> {
-  const agent = await createWpAgent(config);
-  
-  const messages = [
+  config: WpAgentConfig = {},
+  signal?: AbortSignal
+): AsyncGenerator<StreamEventPayload, void, unknown> {
+  const { tools, release } = await acquireWordPressClient(config);
+
+  try {
+    const agent = await createWpAgent(config, { tools });
+
+    const prompt = agentPrompts.get(agent);
+    const messages = [
+      {
+        role: 'user' as const,
+        content: description,
+        // Persisted with the checkpoint, so each turn records which prompt produced it
+        additional_kwargs: prompt ? { prompt_version: prompt.version, prompt_hash: prompt.hash } : {}
+      }
+    ];
+
+    yield* streamAgentEvents(agent, { messages }, threadId, signal);
+  } finally {
+    release();
+  }
+}
+
+/**
+ * Resume a run paused for tool approval on the given thread
+ */
+export async function* resumeWordPressOperations(
+  threadId: string,
+  decision: ToolApprovalDecision,
+  config: WpAgentConfig = {},
+  signal?: AbortSignal
+): AsyncGenerator<StreamEventPayload, void, unknown> {
+  const { tools, release } = await acquireWordPressClient(config);
+
+  try {
+    // A fixed tool plan paused on one of its steps carries on with the rest of the plan
+    const toolPlan = await getPausedToolPlan(threadId, config);
+    if (toolPlan) {
+      const agent = await createWpAgent({ ...config, enableSubAgents: false }, { tools });
+      yield* runToolPlanSteps(agent, toolPlan.steps, threadId, signal, { index: toolPlan.index, decision });
+      return;
+    }
+
+    const agent = await createWpAgent(config, { tools });
+    yield* streamAgentEvents(agent, new Command({ resume: decision }), threadId, signal);
+  } finally {
+    release();
+  }
+}
+
+/**
+ * The fixed tool plan a thread is paused on, read from its last message
+ */
+async function getPausedToolPlan(
+  threadId: string,
+  config: WpAgentConfig
+): Promise<{ steps: ToolPlanStep[]; index: number } | null> {
+  const checkpointer = getCheckpointer({ ...DEFAULT_CONFIG, ...config });
+  const tuple = await checkpointer.getTuple({ configurable: { thread_id: threadId } });
+  const messages: any[] = (tuple?.checkpoint?.channel_values as any)?.messages ?? [];
+  return messages[messages.length - 1]?.additional_kwargs?.tool_plan ?? null;
+}
+
+/**
+ * Execute selected steps of a dry-run plan recorded on the thread.
+ * Steps come from the thread state, so only calls the agent actually planned can run.
+ */
+export async function* executeWordPressPlan(
+  threadId: string,
+  stepIds: string[],
+  config: WpAgentConfig = {},
+  signal?: AbortSignal
+): AsyncGenerator<StreamEventPayload, void, unknown> {
+  const { tools, release } = await acquireWordPressClient(config);
+
+  try {
+    yield* runPlanSteps(threadId, stepIds, config, tools, signal);
+  } finally {
+    release();
+  }
+}
+
+/**
+ * Run a fixed list of tool calls against a site in order, without the model.
+ * Steps go through the agent's tool node, so high-risk steps pause for approval, dry-run
+ * writes become plan steps and changes are journaled as in chat runs.
+ * Stops after the first failure, on rejection or on cancellation.
+ */
+export async function* streamWordPressToolPlan(
+  steps: ToolPlanStep[],
+  threadId: string,
+  config: WpAgentConfig = {},
+  signal?: AbortSignal
+): AsyncGenerator<StreamEventPayload, void, unknown> {
+  const lease = await acquireWordPressClient(config);
+
+  try {
+    const tools = lease.tools ?? await getWordPressMCPTools({ ...DEFAULT_CONFIG, ...config });
+    if (tools.length === 0) {
+      yield { type: 'error', content: 'No WordPress tools are available for this site.' };
+      return;
+    }
+
+    // Steps are handed straight to the tool node, which the supervisor graph does not have
+    const agent = await createWpAgent({ ...config, enableSubAgents: false }, { tools });
+    yield* runToolPlanSteps(agent, steps, threadId, signal);
+  } catch (error) {
+    console.error('Error running WordPress tool plan:', error);
+    yield {
+      type: 'error',
+      content: error instanceof Error ? error.message : 'Unknown tool plan error'
+    };
+  } finally {
+    lease.release();
+  }
+}
+
+/**
+ * Run fixed plan steps one at a time. Each step is added to the thread as a tool call and
+ * only the tool node runs, stopping before the model. The step's message records the plan,
+ * so a step paused for approval continues from there once `resume` brings the decision.
+ */
+async function* runToolPlanSteps(
+  agent: any,
+  steps: ToolPlanStep[],
+  threadId: string,
+  signal?: AbortSignal,
+  resume?: { index: number; decision: ToolApprovalDecision }
+): AsyncGenerator<StreamEventPayload, void, unknown> {
+  const threadConfig = { configurable: { thread_id: threadId } };
+  const stepId = (index: number) => `${threadId}_step_${index + 1}`;
+  const completed: { id: string; name: string }[] = [];
+  const planSteps: PlanStep[] = [];
+
+  for (let index = resume?.index ?? 0; index < steps.length; index++) {
+    const call = { id: stepId(index), name: steps[index].tool, args: steps[index].args ?? {} };
+    const later = steps.slice(index + 1).map((step, offset) => ({ id: stepId(index + offset + 1), name: step.tool }));
+    const resuming = index === resume?.index;
+
+    // Cancelled: the remaining steps never start
+    if (signal?.aborted && !resuming) {
+      yield { type: 'cancelled', completed, skipped: [{ id: call.id, name: call.name }, ...later] };
+      break;
+    }
+
+    if (!resuming) {
+      yield { type: 'tool_call', ...call };
+      await agent.updateState(
+        threadConfig,
+        {
+          messages: [
+            // The first step opens a turn, which groups the plan's changes for undo
+            ...(index === 0 ? [new HumanMessage(`Run tool plan: ${steps.map(step => step.tool).join(', ')}`)] : []),
+            new AIMessage({ content: '', tool_calls: [call], additional_kwargs: { tool_plan: { steps, index } } })
+          ]
+        },
+        'agent'
+      );
+    }
+
+    const input = resuming ? new Command({ resume: resume!.decision }) : null;
+    let outcome: 'done' | 'paused' | 'stopped' = 'stopped';
+    let planned = false;
+
+    for await (const event of streamAgentEvents(agent, input, threadId, signal, { toolCalls: [call] })) {
+      switch (event.type) {
+        case 'plan':
+          // Reported once for the whole plan below
+          continue;
+        case 'plan_step':
+          planSteps.push({ id: event.id, name: event.name, args: event.args ?? {}, risk: event.risk });
+          planned = true;
+          outcome = 'done';
+          break;
+        case 'tool_result':
+          outcome = event.isError || event.content.startsWith('Error:') ? 'stopped' : 'done';
+          break;
+        case 'approval_required':
+          outcome = 'paused';
+          break;
+        case 'cancelled':
+          outcome = 'stopped';
+          yield { ...event, completed: [...completed, ...event.completed], skipped: [...event.skipped, ...later] };
+          continue;
+      }
+      yield event;
+    }
+
+    const rejected = resuming && !(resume!.decision.toolCalls?.[call.id] ?? resume!.decision.approved);
+    if (outcome !== 'done' || rejected) break;
+    if (!planned) completed.push({ id: call.id, name: call.name });
+  }
+
+  if (planSteps.length > 0 && !signal?.aborted) {
+    yield { type: 'plan', thread_id: threadId, steps: planSteps };
+  }
+}
+
+/**
+ * Invoke one tool call directly (outside the agent graph), journaling it like the tool node does.
+ * Only used for steps of a dry-run plan, where the user's selection of steps is the approval.
+ */
+async function invokeToolStep(
+  step: { id: string; name: string; args: Record<string, any> },
+  tools: any[],
+  threadId: string,
+  turnId: string,
+  config: WpAgentConfig
+): Promise<{ output: any; entry: Awaited<ReturnType<typeof recordChange>> | null }> {
+  const tool = tools.find(candidate => candidate.name === step.name);
+  if (!tool) {
+    throw new Error(`Tool ${step.name} is not available on this site`);
+  }
+
+  // Snapshot before update/delete steps, as the tool node does for live runs
+  const journaled = config.enableJournal && isJournaledTool(step.name);
+  const readTool = journaled ? findSnapshotTool(step.name, tools) : undefined;
+  const snapshot = readTool
+    ? await takeSnapshot(readTool, step.args).catch(() => null)
+    : null;
+
+  const output = await tool.invoke(step.args);
+  // A failed step is not journaled and stops the rest of the plan
+  const toolError = getToolOutputError(output);
+  if (toolError) {
+    throw new Error(toolError.replace(/^Error:\s*/, ''));
+  }
+
+  const entry = journaled
+    ? await recordChange({
+        threadId,
+        ...getJournalContext(config),
+        turnId,
+        toolCallId: step.id,
+        toolName: step.name,
+        args: step.args,
+        snapshot,
+        inverse: buildInverse(step.name, step.args, snapshot, tools),
+      })
+    : null;
+
+  return { output, entry };
+}
+
+async function* runPlanSteps(
+  threadId: string,
+  stepIds: string[],
+  config: WpAgentConfig,
+  leasedTools: any[] | null,
+  signal?: AbortSignal
+): AsyncGenerator<StreamEventPayload, void, unknown> {
+  const finalConfig = { ...DEFAULT_CONFIG, ...config, dryRun: false };
+  const agent = await createWpAgent(finalConfig, { tools: leasedTools });
+  const threadConfig = { configurable: { thread_id: threadId } };
+
+  const state = await agent.getState(threadConfig);
+  const messages: any[] = state?.values?.messages ?? [];
+
+  // Planned calls that have not been executed or discarded yet
+  const handledIds = new Set<string>(
+    messages.flatMap(message => message.additional_kwargs?.plan_execution?.stepIds ?? [])
+  );
+  const plannedIds = new Set<string>(
+    messages
+      .filter(message => message.artifact?.dryRun && !handledIds.has(message.tool_call_id))
+      .map(message => message.tool_call_id)
+  );
+  const plan: PlanStep[] = messages
+    .flatMap(message => (message.tool_calls ?? []) as any[])
+    .filter(call => plannedIds.has(call.id))
+    .map(call => ({ id: call.id, name: call.name, args: call.args, risk: classifyToolRisk(call.name) }));
+
+  if (plan.length === 0) {
+    yield { type: 'error', content: 'There is no pending plan on this thread.' };
+    return;
+  }
+
+  const tools = leasedTools ?? await getWordPressMCPTools(finalConfig);
+  const selected = new Set(stepIds);
+  // Journal entries belong to the turn that produced the plan
+  const turnId: string | undefined = [...messages].reverse().find(message => message._getType?.() === 'human')?.id;
+  const result: PlanExecutionResult = { executed: [], failed: [], skipped: [] };
+
+  for (const step of plan) {
+    // Stop after the first failure (later steps may depend on it) or when cancelled
+    if (!selected.has(step.id) || result.failed.length > 0 || signal?.aborted) {
+      result.skipped.push(step.id);
+      continue;
+    }
+
+    yield { type: 'tool_call', id: step.id, name: step.name, args: step.args };
+
+    try {
+      const { output, entry } = await invokeToolStep(step, tools, threadId, turnId ?? threadId, finalConfig);
+      result.executed.push(step.id);
+
+      yield {
+        type: 'tool_result',
+        id: step.id,
+        name: step.name,
+        content: typeof output === 'string' ? output : JSON.stringify(output),
+        journalEntryId: entry?.id,
+        undoable: !!entry?.inverse
+      };
+    } catch (error) {
+      result.failed.push(step.id);
+      yield {
+        type: 'tool_result',
+        id: step.id,
+        name: step.name,
+        content: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        isError: true
+      };
+    }
+  }
+
+  const describe = (ids: string[]) => plan
+    .filter(step => ids.includes(step.id))
+    .map(step => step.name)
+    .join(', ') || 'none';
+
+  const cancelledSteps = signal?.aborted
+    ? plan.filter(step => selected.has(step.id) && result.skipped.includes(step.id))
+    : [];
+
+  const summary = [
+    cancelledSteps.length > 0 ? 'Stopped by the user.' : '',
+    `Plan execution: ${result.executed.length} executed, ${result.failed.length} failed, ${result.skipped.length} skipped.`,
+    `Executed: ${describe(result.executed)}.`,
+    result.failed.length > 0 ? `Failed: ${describe(result.failed)}.` : '',
+    result.skipped.length > 0 ? `Skipped (not executed): ${describe(result.skipped)}.` : '',
+  ].filter(Boolean).join(' ');
+
+  // Record the outcome on the thread so the agent knows what actually changed
+  await agent.updateState(
+    threadConfig,
     {
-      role: 'user' as const,
-      content: description
+      messages: [new AIMessage({
+        content: summary,
+        additional_kwargs: { plan_execution: { stepIds: plan.map(step => step.id), ...result } }
+      })]
+    },
+    finalConfig.enableSubAgents ? SUPERVISOR_NODE : 'agent'
+  );
+
+  if (cancelledSteps.length > 0) {
+    yield {
+      type: 'cancelled',
+      completed: plan.filter(step => result.executed.includes(step.id)).map(step => ({ id: step.id, name: step.name })),
+      skipped: cancelledSteps.map(step => ({ id: step.id, name: step.name }))
+    };
+  }
+  yield { type: 'plan_executed', thread_id: threadId, ...result };
+  yield { type: 'token', content: summary };
+}
+
+/**
+ * Undo journaled changes on a thread by replaying their inverse operations.
+ * Selects specific entries or every change from one agent turn; newest changes are undone first.
+ */
+export async function undoWordPressChanges(
+  threadId: string,
+  selection: { entryIds?: string[]; turnId?: string },
+  config: WpAgentConfig = {}
+): Promise<UndoResult> {
+  const { tools, release } = await acquireWordPressClient(config);
+
+  try {
+    return await undoJournalEntries(threadId, selection, config, tools);
+  } finally {
+    release();
+  }
+}
+
+async function undoJournalEntries(
+  threadId: string,
+  selection: { entryIds?: string[]; turnId?: string },
+  config: WpAgentConfig,
+  leasedTools: any[] | null
+): Promise<UndoResult> {
+  const finalConfig = { ...DEFAULT_CONFIG, ...config };
+  const { site, userId } = getJournalContext(finalConfig);
+  // Another user's entries on a shared thread are not theirs to undo
+  const entries = (await findUndoableEntries(threadId, selection))
+    .filter(entry => !entry.userId || entry.userId === userId);
+  const tools = leasedTools ?? await getWordPressMCPTools(finalConfig);
+  const result: UndoResult = { undone: [], failed: [] };
+
+  for (const entry of entries) {
+    // Inverse operations only make sense on the site the change was made on
+    if (!entry.site || entry.site !== site) {
+      result.failed.push({
+        id: entry.id,
+        error: entry.site
+          ? `This change was made on ${entry.site}; connect to that site to undo it`
+          : 'The site this change was made on was not recorded',
+      });
+      continue;
     }
-  ];
+
+    try {
+      if (!entry.inverse) {
+        throw new Error('No snapshot was available for this change');
+      }
+
+      const tool = tools.find(candidate => candidate.name === entry.inverse!.tool);
+      if (!tool) {
+        throw new Error(`Tool ${entry.inverse.tool} is not available on this site`);
+      }
+
+      const toolError = getToolOutputError(await tool.invoke(entry.inverse.args));
+      if (toolError) {
+        throw new Error(toolError);
+      }
+
+      await markChange(entry.id, 'UNDONE');
+      result.undone.push(entry.id);
+    } catch (error) {
+      await markChange(entry.id, 'UNDO_FAILED');
+      result.failed.push({ id: entry.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  // Tell the agent what was rolled back so it does not rely on stale state
+  if (entries.length > 0) {
+    const agent = await createWpAgent(finalConfig, { tools });
+    const describe = (ids: string[]) => entries
+      .filter(entry => ids.includes(entry.id))
+      .map(entry => `${entry.toolName} ${JSON.stringify(entry.args)}`)
+      .join('; ');
+
+    await agent.updateState(
+      { configurable: { thread_id: threadId } },
+      {
+        messages: [new AIMessage(
+          `The user undid these changes: ${describe(result.undone) || 'none'}.` +
+          (result.failed.length > 0 ? ` Undo failed for: ${describe(result.failed.map(failure => failure.id))}.` : '')
+        )]
+      },
+      finalConfig.enableSubAgents ? SUPERVISOR_NODE : 'agent'
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Translate LangGraph stream chunks into chat events.
+ * Cancelling `signal` stops the graph at the next safe point: a model call is aborted at once,
+ * while tool calls already running finish first (they may be partway through changing the site).
+ * `options.toolCalls` were added to the thread directly (fixed tool plans): only the tool node
+ * runs them and the graph stops before the model.
+ */
+async function* streamAgentEvents(
+  agent: any,
+  input: any,
+  threadId: string,
+  signal?: AbortSignal,
+  options: { toolCalls?: { id: string; name: string; args: any }[] } = {}
+): AsyncGenerator<StreamEventPayload, void, unknown> {
+  const emittedApprovals = new Set<string>();
+  // Tool calls seen so far, so planned (dry-run) results can be turned into plan steps
+  const seenToolCalls = new Map<string, { name: string; args: any }>(
+    (options.toolCalls ?? []).map(call => [call.id, { name: call.name, args: call.args }])
+  );
+  const planSteps: PlanStep[] = [];
+
+  // Step boundaries, tracked per (sub)graph: a step starts with its first streamed
+  // message (or with its update when nothing was streamed) and ends with its update
+  let stepCount = 0;
+  const openSteps = new Map<string, { step: number; node: string; key?: string; agent?: string }>();
+  const endedSteps = new Set<string>();
+  const endStep = (graph: string): StreamEventPayload | null => {
+    const open = openSteps.get(graph);
+    if (!open) return null;
+    openSteps.delete(graph);
+    if (open.key) endedSteps.add(open.key);
+    return { type: 'step_end', step: open.step, node: open.node, agent: open.agent };
+  };
+  const startStep = (graph: string, node: string, agent?: string, key?: string): StreamEventPayload[] => {
+    const events: StreamEventPayload[] = [];
+    const previous = endStep(graph);
+    if (previous) events.push(previous);
+    openSteps.set(graph, { step: ++stepCount, node, key, agent });
+    events.push({ type: 'step_start', step: stepCount, node, agent });
+    return events;
+  };
+
+  // Tool calls dispatched but not answered yet; the graph is only stopped while this is empty
+  const openToolCalls = new Set<string>((options.toolCalls ?? []).map(call => call.id));
+  const completedCalls: { id: string; name: string }[] = [];
+  const skippedCalls: { id: string; name: string }[] = [];
+  const graphController = new AbortController();
+  const stopIfSafe = () => {
+    if (signal?.aborted && openToolCalls.size === 0) graphController.abort();
+  };
+  signal?.addEventListener('abort', stopIfSafe, { once: true });
 
   try {
+    stopIfSafe();
     // Use multiple stream modes to see both updates (tool calls) and messages
     const stream = await agent.stream(
-      { messages },
+      input,
       {
         streamMode: ["updates", "messages"],
-        configurable: { thread_id: threadId }
+        // Include sub-agent (subgraph) events so each step can be attributed
+        subgraphs: true,
+        configurable: { thread_id: threadId, [CANCEL_SIGNAL_KEY]: signal },
+        signal: graphController.signal,
+        ...(options.toolCalls ? { interruptAfter: ['tools'] } : {})
       }
     );
 
     for await (const chunk of stream) {
-      const [streamType, data] = chunk;
+      const [namespace, streamType, data] = chunk;
+      // Sub-agent namespaces look like ["content:<task id>"]
+      const agentName: string | undefined = namespace.length > 0 ? namespace[0].split(':')[0] : undefined;
+      const graph = namespace.join('|');
       
       if (streamType === "updates") {
+        // Graph paused waiting for the user to approve high-risk tool calls
+        if ('__interrupt__' in data) {
+          for (const pending of data.__interrupt__ as any[]) {
+            if (pending.value?.type === 'approval_required') {
+              // Subgraph interrupts surface at every level of the graph
+              const key = pending.value.toolCalls.map((call: any) => call.id).join(',');
+              if (emittedApprovals.has(key)) continue;
+              emittedApprovals.add(key);
+
+              yield {
+                type: 'approval_required',
+                thread_id: threadId,
+                toolCalls: pending.value.toolCalls,
+                agent: agentName
+              };
+            }
+          }
+          continue;
+        }
+
         // Handle state updates (includes tool calls)
         for (const [nodeName, nodeData] of Object.entries(data)) {
+          // Sub-agent output was already streamed from inside its subgraph
+          if (namespace.length === 0 && nodeName !== 'agent' && nodeName !== 'tools' && nodeName !== SUPERVISOR_NODE) {
+            continue;
+          }
+
+          if (openSteps.get(graph)?.node !== nodeName) {
+            yield* startStep(graph, nodeName, agentName);
+          }
+
           if (nodeData && typeof nodeData === 'object' && 'messages' in nodeData) {
             const messages = nodeData.messages as any[];
             for (const message of messages) {
-              // Check if this message has tool calls
-              if (message.tool_calls && message.tool_calls.length > 0) {
-                for (const toolCall of message.tool_calls) {
+              if (isAIMessage(message)) {
+                // Token usage of each completed model call
+                if (message.usage_metadata) {
+                  const model = message.response_metadata?.model ?? message.response_metadata?.model_name;
+                  const inputTokens = message.usage_metadata.input_tokens ?? 0;
+                  const outputTokens = message.usage_metadata.output_tokens ?? 0;
+                  yield {
+                    type: 'usage',
+                    input_tokens: inputTokens,
+                    output_tokens: outputTokens,
+                    total_tokens: message.usage_metadata.total_tokens ?? inputTokens + outputTokens,
+                    model,
+                    cost_usd: priceModelUsage(model, inputTokens, outputTokens),
+                    agent: agentName
+                  };
+                }
+
+                // Assistant text was already streamed token by token from the messages stream
+                for (const toolCall of message.tool_calls ?? []) {
+                  // Supervisor handoffs become step boundaries, not tool calls
+                  if (toolCall.name.startsWith(HANDOFF_TOOL_PREFIX)) {
+                    yield {
+                      type: 'agent_step',
+                      agent: toolCall.name.slice(HANDOFF_TOOL_PREFIX.length),
+                      task: toolCall.args?.task
+                    };
+                    continue;
+                  }
+
+                  seenToolCalls.set(toolCall.id ?? '', { name: toolCall.name, args: toolCall.args });
+                  openToolCalls.add(toolCall.id ?? '');
+
                   yield {
                     type: 'tool_call',
-                    name: toolCall.name || toolCall.function?.name,
-                    args: toolCall.args || toolCall.function?.arguments,
-                    id: toolCall.id
+                    name: toolCall.name,
+                    args: toolCall.args,
+                    id: toolCall.id ?? '',
+                    agent: agentName
                   };
                 }
-              }
-              
-              // Check for tool call results
-              if (message.name && message.content) {
+              } else if (isToolMessage(message)) {
+                const name = message.name ?? seenToolCalls.get(message.tool_call_id)?.name ?? 'tool';
+                if (name.startsWith(HANDOFF_TOOL_PREFIX)) continue;
+
+                openToolCalls.delete(message.tool_call_id);
+                if (message.artifact?.cancelled) {
+                  skippedCalls.push({ id: message.tool_call_id, name });
+                } else if (!message.artifact?.dryRun) {
+                  completedCalls.push({ id: message.tool_call_id, name });
+                }
+
+                // Dry-run write calls become plan steps instead of results
+                if (message.artifact?.dryRun) {
+                  const step: PlanStep = {
+                    id: message.tool_call_id,
+                    name,
+                    args: seenToolCalls.get(message.tool_call_id)?.args ?? {},
+                    risk: classifyToolRisk(name)
+                  };
+                  planSteps.push(step);
+                  yield { type: 'plan_step', ...step, agent: agentName };
+                  continue;
+                }
+
                 yield {
                   type: 'tool_result',
-                  name: message.name,
-                  content: message.content
+                  id: message.tool_call_id,
+                  name,
+                  content: typeof message.content === 'string' ? message.content : JSON.stringify(message.content),
+                  isError: message.status === 'error' || undefined,
+                  agent: agentName,
+                  // Set when the change was journaled and can be undone
+                  journalEntryId: message.artifact?.journalEntryId,
+                  undoable: message.artifact?.undoable
                 };
               }
-              
-              // Regular assistant message content
-              if (message.role === 'assistant' && message.content && !message.tool_calls) {
-                const content = Array.isArray(message.content)
-                  ? message.content.map((part: any) => typeof part === 'string' ? part : part.text || '').join('')
-                  : message.content;
-                
-                if (content.trim()) {
-                  yield {
-                    type: 'content',
-                    content: content
-                  };
-                }
-              }
             }
           }
+
+          const ended = endStep(graph);
+          if (ended) yield ended;
         }
+
+        // A cancel that arrived while tools were running takes effect once they finish
+        stopIfSafe();
       } else if (streamType === "messages") {
         // Handle streaming messages (tokens and tool calls)
         const [message, metadata] = data;
-        
-        if (message && message.content && Array.isArray(message.content)) {
-          // Look for tool calls and results in content array
-          for (const contentPart of message.content) {
+
+        const stepKey = `${graph}:${metadata?.langgraph_step}`;
+        if (metadata?.langgraph_node && openSteps.get(graph)?.key !== stepKey && !endedSteps.has(stepKey)) {
+          yield* startStep(graph, metadata.langgraph_node, agentName, stepKey);
+        }
+
+        // Only model output is streamed as text. Tool messages (including planned dry-run
+        // results) arrive through the updates stream as tool_result / plan_step events.
+        if (!isAIMessageChunk(message) && !isAIMessage(message)) continue;
+        if (metadata?.langgraph_node === 'tools') continue;
+
+        if (Array.isArray(message.content)) {
+          // Provider content blocks: server-side tool use (web search) and text
+          for (const contentPart of message.content as any[]) {
             if (contentPart.type === 'server_tool_use') {
               yield {
                 type: 'tool_call',
@@ -238,84 +959,115 @@ export async function* streamWordPressOperations(
                 id: contentPart.id
               };
             } else if (contentPart.type === 'web_search_tool_result') {
+              const result = contentPart.content || contentPart.result || 'Search completed';
               yield {
                 type: 'tool_result',
+                id: contentPart.tool_use_id,
                 name: 'web_search',
-                content: contentPart.content || contentPart.result || 'Search completed',
+                content: typeof result === 'string' ? result : JSON.stringify(result),
                 data: contentPart
               };
             } else if (contentPart.type === 'text' && contentPart.text) {
-              // Filter out MCP tool results (they show in dropdown)
-              const text = contentPart.text.trim();
-              
-              // Skip empty content
-              if (!text) continue;
-              
-              // Skip if it starts with emoji indicator (MCP tool output)
-              if (/^[🔌📄✅❌⚙️🎯💡⚠️🔧📊🔍🎨🔐💾🏷️👤📝ℹ️]/.test(text)) {
-                continue;
-              }
-              
-              // Skip if it looks like JSON data (any line starting with { or [)
-              if (text.startsWith('{') || text.startsWith('[')) {
-                continue;
-              }
-              
-              // Skip if it contains WordPress-specific patterns (tool output)
-              const toolOutputPatterns = [
-                /Retrieved \d+/,
-                /Connected as .+ user to/,
-                /Site:/,
-                /^\{[\s\S]*"id"[\s\S]*"title"[\s\S]*\}$/, // JSON object
-                /^\[[\s\S]*\]$/, // JSON array
-                /"plugin[s]?":/,
-                /"post[s]?":/,
-                /"page[s]?":/,
-                /"user[s]?":/,
-                /"theme[s]?":/,
-                /"media":/,
-                /"name":/,
-                /"url":/,
-                /"status":/,
-                /"author":/,
-                /"content":/,
-              ];
-              
-              const isToolOutput = toolOutputPatterns.some(pattern => pattern.test(text));
-              if (isToolOutput) {
-                continue;
-              }
-              
-              // Only yield actual assistant conversational content
-              if (text) {
-                yield {
-                  type: 'token',
-                  content: contentPart.text
-                };
-              }
+              yield {
+                type: 'token',
+                content: contentPart.text
+              };
             }
           }
-        } else if (message && message.content) {
-          // Handle simple content
-          const content = Array.isArray(message.content)
-            ? message.content.map((part: any) => typeof part === 'string' ? part : part.text || '').join('')
-            : message.content;
-          
-          if (content.trim()) {
-            yield {
-              type: 'token',
-              content: content
-            };
-          }
+        } else if (message.content) {
+          // Whitespace-only chunks are kept; they carry spacing and line breaks
+          yield {
+            type: 'token',
+            content: message.content
+          };
         }
       }
     }
+
+    // The full plan, once the agent has finished planning
+    if (planSteps.length > 0 && !graphController.signal.aborted) {
+      yield {
+        type: 'plan',
+        thread_id: threadId,
+        steps: planSteps
+      };
+    }
   } catch (error) {
-    console.error('Error streaming WordPress operations:', error);
-    yield {
-      type: 'error',
-      content: error instanceof Error ? error.message : 'Unknown streaming error'
-    };
+    if (!graphController.signal.aborted) {
+      console.error('Error streaming WordPress operations:', error);
+      yield {
+        type: 'error',
+        content: error instanceof Error ? error.message : 'Unknown streaming error'
+      };
+    }
+  } finally {
+    signal?.removeEventListener('abort', stopIfSafe);
+  }
+
+  // Steps still open when the graph paused for approval or was cancelled
+  for (const graph of [...openSteps.keys()]) {
+    const ended = endStep(graph);
+    if (ended) yield ended;
+  }
+
+  if (graphController.signal.aborted) {
+    console.log(`🛑 Run on thread ${threadId} cancelled after ${completedCalls.length} tool calls`);
+    const { summary, skipped } = await recordCancellation(agent, threadId, completedCalls, skippedCalls);
+    yield { type: 'cancelled', completed: completedCalls, skipped };
+    yield { type: 'token', content: `\n\n${summary}` };
+  }
+}
+
+/**
+ * Record on the thread which operations ran before the user cancelled, so the agent
+ * knows the site's actual state next turn. Tool calls left unanswered are closed out.
+ */
+async function recordCancellation(
+  agent: any,
+  threadId: string,
+  completed: { id: string; name: string }[],
+  skipped: { id: string; name: string }[]
+): Promise<{ summary: string; skipped: { id: string; name: string }[] }> {
+  const threadConfig = { configurable: { thread_id: threadId } };
+  const allSkipped = [...skipped];
+
+  try {
+    const state = await agent.getState(threadConfig);
+    const messages: any[] = state?.values?.messages ?? [];
+    const answered = new Set(messages.filter(message => isToolMessage(message)).map(message => message.tool_call_id));
+    const lastCall = [...messages].reverse().find(message => isAIMessage(message));
+    const unanswered = ((lastCall?.tool_calls ?? []) as any[]).filter(call => !answered.has(call.id));
+    allSkipped.push(...unanswered
+      .filter(call => !allSkipped.some(skippedCall => skippedCall.id === call.id))
+      .map(call => ({ id: call.id, name: call.name })));
+
+    const describe = (calls: { name: string }[]) => calls.map(call => call.name).join(', ') || 'none';
+    const summary = [
+      'Stopped by the user.',
+      `Completed before stopping: ${describe(completed)}.`,
+      allSkipped.length > 0 ? `Not run: ${describe(allSkipped)}.` : '',
+    ].filter(Boolean).join(' ');
+
+    await agent.updateState(
+      threadConfig,
+      {
+        messages: [
+          ...unanswered.map(call => new ToolMessage({
+            name: call.name,
+            tool_call_id: call.id,
+            content: 'Cancelled by the user before it ran. It was not executed.',
+            artifact: CANCELLED_ARTIFACT,
+          })),
+          new AIMessage({ content: summary, additional_kwargs: { cancellation: { completed, skipped: allSkipped } } }),
+        ]
+      },
+      SUPERVISOR_NODE in (agent.nodes ?? {}) ? SUPERVISOR_NODE : 'agent'
+    );
+
+    return { summary, skipped: allSkipped };
+  } catch (error) {
+    console.error('Error recording cancellation:', error);
+    return { summary: 'Stopped by the user.', skipped: allSkipped };
   }
 }
 
@@ -327,8 +1079,8 @@ export async function* streamWordPressUpdates(
   threadId: string,
   config: WpAgentConfig = {}
 ): AsyncGenerator<any, void, unknown> {
-  const agent = await createWpAgent(config);
-  
+  const { tools, release } = await acquireWordPressClient(config);
+
   const messages = [
     {
       role: 'user' as const,
@@ -337,6 +1089,8 @@ export async function* streamWordPressUpdates(
   ];
 
   try {
+    const agent = await createWpAgent(config, { tools });
+
     // Use stream with updates mode to see tool calls and state changes
     const stream = await agent.stream(
       { messages },
@@ -361,6 +1115,8 @@ export async function* streamWordPressUpdates(
       type: 'error',
       content: error instanceof Error ? error.message : 'Unknown streaming error'
     };
+  } finally {
+    release();
   }
 }
 
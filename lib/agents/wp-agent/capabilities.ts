@@ -0,0 +1,182 @@
+/**
+ * wpAgent Site Capabilities
+ * Detects the site context, which plugin APIs a site exposes and what the connected user may do,
+ * then prunes tools the site cannot serve so the model does not waste turns on 404s and 403s
+ */
+
+import { createHash } from 'crypto';
+import {
+  basicAuthorization,
+  checkRestApi,
+  fetchActivePlugins,
+  fetchSite,
+  restUrl
+} from '@/lib/wordpress-diagnostics';
+import type { SiteCapabilities } from './types';
+
+const CAPABILITY_TTL_MS = 60 * 60 * 1000;
+
+interface ToolRequirement {
+  feature: string; // Shown to the model when the tools are removed
+  tools: RegExp;
+  namespace?: RegExp; // Plugin REST namespace that must be registered
+  plugin?: RegExp; // Or an active plugin slug that provides it
+  capability?: string; // WordPress capability the user needs
+}
+
+/**
+ * Requirements of WordPress MCP tools, checked in order; a tool must satisfy every rule it matches
+ */
+const TOOL_REQUIREMENTS: ToolRequirement[] = [
+  { feature: 'WooCommerce', tools: /woocommerce|(^|_)wc_|_products?(_|$)|_orders?(_|$)|_coupons?(_|$)|_customers?(_|$)/, namespace: /^wc\/v3$/, plugin: /^woocommerce\// },
+  { feature: 'Yoast SEO', tools: /yoast/, namespace: /^yoast\//, plugin: /^wordpress-seo\// },
+  { feature: 'Rank Math', tools: /rank_?math/, namespace: /^rankmath\//, plugin: /^seo-by-rank-math\// },
+  { feature: 'Advanced Custom Fields', tools: /(^|_)acf_|custom_field/, namespace: /^acf/, plugin: /^advanced-custom-fields/ },
+  { feature: 'plugin management', tools: /_plugins?(_|$)/, capability: 'activate_plugins' },
+  { feature: 'theme management', tools: /_themes?(_|$)/, capability: 'switch_themes' },
+  { feature: 'site settings', tools: /_settings(_|$)|_options?(_|$)/, capability: 'manage_options' },
+  { feature: 'menus and widgets', tools: /_menus?(_|$)|_widgets?(_|$)/, capability: 'edit_theme_options' },
+  { feature: 'creating users', tools: /_create_user/, capability: 'create_users' },
+  { feature: 'deleting users', tools: /_delete_user/, capability: 'delete_users' },
+  { feature: 'editing users', tools: /_update_user/, capability: 'edit_users' },
+  { feature: 'listing users', tools: /_get_users/, capability: 'list_users' },
+  { feature: 'uploading media', tools: /_upload_media|_(update|delete)_media/, capability: 'upload_files' },
+  { feature: 'publishing posts', tools: /_(publish|schedule)_post/, capability: 'publish_posts' },
+  { feature: 'deleting posts', tools: /_delete_post/, capability: 'delete_posts' },
+  { feature: 'editing posts', tools: /_(create|update|duplicate)_post/, capability: 'edit_posts' },
+  { feature: 'deleting pages', tools: /_delete_page/, capability: 'delete_pages' },
+  { feature: 'editing pages', tools: /_(create|update)_page/, capability: 'edit_pages' },
+  { feature: 'managing categories and tags', tools: /_(create|update|delete)_(category|categories|tag|tags)(_|$)/, capability: 'manage_categories' },
+  { feature: 'moderating comments', tools: /_(update|delete|approve|spam)_comments?(_|$)/, capability: 'moderate_comments' },
+];
+
+interface SiteCredentials {
+  url: string;
+  username: string;
+  password: string;
+}
+
+const cache = new Map<string, { capabilities: SiteCapabilities; expiresAt: number }>();
+
+// Keyed on the password too, so only callers holding the password that read them get cached capabilities
+function getCacheKey({ url, username, password }: SiteCredentials): string {
+  const passwordHash = createHash('sha256').update(password).digest('hex');
+  return `${url.trim().replace(/\/+$/, '').toLowerCase()}|${username.trim().toLowerCase()}|${passwordHash}`;
+}
+
+/**
+ * Store capabilities detected elsewhere (e.g. by connection diagnostics) with the credentials that read them
+ */
+export function cacheSiteCapabilities(credentials: SiteCredentials, capabilities: SiteCapabilities): void {
+  cache.set(getCacheKey(credentials), { capabilities, expiresAt: Date.now() + CAPABILITY_TTL_MS });
+}
+
+/**
+ * Detect capabilities from the REST index, the current user and active plugins.
+ * Returns null when the site or user cannot be read, in which case no tools are pruned.
+ */
+export async function detectSiteCapabilities(credentials: SiteCredentials): Promise<SiteCapabilities | null> {
+  const baseUrl = credentials.url.trim().replace(/\/+$/, '');
+  const rest = await checkRestApi(baseUrl, []);
+  if (!rest) return null;
+
+  const authorization = basicAuthorization(credentials.username, credentials.password);
+  const me = await fetchSite(restUrl(rest.restBase, '/wp/v2/users/me', { context: 'edit' }), authorization);
+  if (me.status !== 200 || !me.json?.capabilities) return null;
+
+  const granted: Record<string, boolean> = me.json.capabilities;
+  const capabilities = Object.keys(granted).filter(capability => granted[capability]);
+
+  const { index } = rest;
+  const themes = await fetchSite(restUrl(rest.restBase, '/wp/v2/themes', { status: 'active' }), authorization);
+  const theme = Array.isArray(themes.json) ? themes.json[0] : undefined;
+  const offset = Number(index.gmt_offset) || 0;
+
+  return {
+    site: {
+      name: index.name || undefined,
+      description: index.description || undefined,
+      url: index.url || baseUrl,
+      timezone: index.timezone_string || `UTC${offset >= 0 ? '+' : ''}${offset}`,
+      activeTheme: theme ? [theme.name?.rendered ?? theme.name, theme.version].filter(Boolean).join(' ') : undefined,
+    },
+    namespaces: index.namespaces || [],
+    plugins: granted.activate_plugins ? await fetchActivePlugins(rest.restBase, authorization) : [],
+    roles: me.json.roles || [],
+    capabilities,
+    detectedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Cached capabilities for a site, detected on first use (or again with refresh)
+ */
+export async function getSiteCapabilities(
+  credentials: SiteCredentials,
+  options: { refresh?: boolean } = {}
+): Promise<SiteCapabilities | null> {
+  const key = getCacheKey(credentials);
+  const cached = cache.get(key);
+  if (!options.refresh && cached && cached.expiresAt > Date.now()) {
+    return cached.capabilities;
+  }
+
+  try {
+    const capabilities = await detectSiteCapabilities(credentials);
+    if (capabilities) {
+      cacheSiteCapabilities(credentials, capabilities);
+    }
+    return capabilities;
+  } catch (error) {
+    console.error('Failed to detect site capabilities:', error);
+    return null;
+  }
+}
+
+function isSatisfied(requirement: ToolRequirement, capabilities: SiteCapabilities): boolean {
+  if (requirement.capability) {
+    return capabilities.capabilities.includes(requirement.capability);
+  }
+  return capabilities.namespaces.some(namespace => requirement.namespace?.test(namespace))
+    || capabilities.plugins.some(plugin => requirement.plugin?.test(plugin));
+}
+
+/**
+ * Remove WordPress tools the site or user cannot serve. Tools from additional MCP servers
+ * (server__tool) and server-side tools such as web search are kept.
+ */
+export function filterToolsByCapabilities<T extends { name: string }>(
+  tools: T[],
+  capabilities: SiteCapabilities
+): { tools: T[]; unavailable: string[] } {
+  const unavailable = new Set<string>();
+
+  const kept = tools.filter(tool => {
+    if (!tool.name || tool.name.includes('__') || tool.name === 'web_search') return true;
+
+    const name = tool.name.toLowerCase();
+    const unmet = TOOL_REQUIREMENTS.filter(requirement => requirement.tools.test(name) && !isSatisfied(requirement, capabilities));
+    unmet.forEach(requirement => unavailable.add(requirement.feature));
+    return unmet.length === 0;
+  });
+
+  return { tools: kept, unavailable: Array.from(unavailable) };
+}
+
+/**
+ * System prompt section describing what this site supports
+ */
+export function describeSiteCapabilities(capabilities: SiteCapabilities, unavailable: string[]): string {
+  const integrations = TOOL_REQUIREMENTS
+    .filter(requirement => !requirement.capability && isSatisfied(requirement, capabilities))
+    .map(requirement => requirement.feature);
+
+  return [
+    'SITE CAPABILITIES:',
+    `- Connected user role: ${capabilities.roles.join(', ') || 'unknown'}`,
+    `- Plugin integrations available: ${integrations.join(', ') || 'none (core WordPress only)'}`,
+    unavailable.length > 0
+      ? `- Not available on this site: ${unavailable.join(', ')}. The tools for these were removed. If the user asks for them, explain what is missing (plugin not installed or insufficient role) instead of attempting the task.`
+      : '- Every WordPress tool listed is usable on this site.',
+  ].join('\n');
+}
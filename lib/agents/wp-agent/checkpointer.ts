@@ -0,0 +1,370 @@
+/**
+ * wpAgent Checkpointers
+ * Persistent LangGraph checkpoint backends for conversation threads
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { RunnableConfig } from '@langchain/core/runnables';
+import {
+  BaseCheckpointSaver,
+  MemorySaver,
+  TASKS,
+  WRITES_IDX_MAP,
+  copyCheckpoint,
+  getCheckpointId,
+  type Checkpoint,
+  type CheckpointListOptions,
+  type CheckpointMetadata,
+  type CheckpointPendingWrite,
+  type CheckpointTuple,
+  type PendingWrite,
+  type SerializerProtocol,
+} from '@langchain/langgraph-checkpoint';
+import { prisma } from '@/lib/prisma';
+import type { CheckpointerBackend, WpAgentConfig } from './types';
+
+/**
+ * Default directory for the file-based checkpointer (local development)
+ */
+const DEFAULT_CHECKPOINT_DIR = path.join(process.cwd(), '.wpagent', 'checkpoints');
+
+/**
+ * Postgres checkpointer backed by the Prisma AgentCheckpoint models
+ */
+export class PrismaCheckpointSaver extends BaseCheckpointSaver {
+  constructor(serde?: SerializerProtocol) {
+    super(serde);
+  }
+
+  /**
+   * Load sends queued on the parent checkpoint (stored as TASKS writes)
+   */
+  private async getPendingSends(
+    threadId: string,
+    checkpointNs: string,
+    parentCheckpointId: string | null
+  ): Promise<any[]> {
+    if (!parentCheckpointId) return [];
+
+    const rows = await prisma.agentCheckpointWrite.findMany({
+      where: { threadId, checkpointNs, checkpointId: parentCheckpointId, channel: TASKS },
+      orderBy: [{ taskId: 'asc' }, { idx: 'asc' }],
+    });
+
+    return Promise.all(rows.map((row: any) => this.serde.loadsTyped(row.type, row.value)));
+  }
+
+  /**
+   * Convert a stored checkpoint row into a LangGraph checkpoint tuple
+   */
+  private async toTuple(row: any, metadata?: CheckpointMetadata): Promise<CheckpointTuple> {
+    const writes = await prisma.agentCheckpointWrite.findMany({
+      where: {
+        threadId: row.threadId,
+        checkpointNs: row.checkpointNs,
+        checkpointId: row.checkpointId,
+      },
+      orderBy: [{ taskId: 'asc' }, { idx: 'asc' }],
+    });
+
+    const pendingWrites: CheckpointPendingWrite[] = await Promise.all(
+      writes.map(async (write: any) => [
+        write.taskId,
+        write.channel,
+        await this.serde.loadsTyped(write.type, write.value),
+      ] as CheckpointPendingWrite)
+    );
+
+    const pendingSends = await this.getPendingSends(row.threadId, row.checkpointNs, row.parentCheckpointId);
+
+    const tuple: CheckpointTuple = {
+      config: {
+        configurable: {
+          thread_id: row.threadId,
+          checkpoint_ns: row.checkpointNs,
+          checkpoint_id: row.checkpointId,
+        },
+      },
+      checkpoint: {
+        ...(await this.serde.loadsTyped(row.type, row.checkpoint)),
+        pending_sends: pendingSends,
+      },
+      metadata: metadata ?? (await this.serde.loadsTyped('json', row.metadata)),
+      pendingWrites,
+    };
+
+    if (row.parentCheckpointId) {
+      tuple.parentConfig = {
+        configurable: {
+          thread_id: row.threadId,
+          checkpoint_ns: row.checkpointNs,
+          checkpoint_id: row.parentCheckpointId,
+        },
+      };
+    }
+
+    return tuple;
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+    const checkpointId = getCheckpointId(config);
+
+    if (!threadId) return undefined;
+
+    const row = checkpointId
+      ? await prisma.agentCheckpoint.findUnique({
+          where: { threadId_checkpointNs_checkpointId: { threadId, checkpointNs, checkpointId } },
+        })
+      : await prisma.agentCheckpoint.findFirst({
+          where: { threadId, checkpointNs },
+          orderBy: { checkpointId: 'desc' },
+        });
+
+    if (!row) return undefined;
+
+    const tuple = await this.toTuple(row);
+    // Preserve the caller's config when a specific checkpoint was requested
+    return checkpointId ? { ...tuple, config } : tuple;
+  }
+
+  async *list(config: RunnableConfig, options?: CheckpointListOptions): AsyncGenerator<CheckpointTuple> {
+    const { before, limit, filter } = options ?? {};
+    const where: Record<string, any> = {};
+
+    if (config.configurable?.thread_id) where.threadId = config.configurable.thread_id;
+    if (config.configurable?.checkpoint_ns !== undefined) where.checkpointNs = config.configurable.checkpoint_ns;
+    if (config.configurable?.checkpoint_id) where.checkpointId = config.configurable.checkpoint_id;
+    if (before?.configurable?.checkpoint_id) {
+      where.checkpointId = { ...(where.checkpointId ? { equals: where.checkpointId } : {}), lt: before.configurable.checkpoint_id };
+    }
+
+    const rows = await prisma.agentCheckpoint.findMany({
+      where,
+      orderBy: { checkpointId: 'desc' },
+      // Metadata filters are applied in memory, so only push the limit down without them
+      ...(limit !== undefined && !filter ? { take: limit } : {}),
+    });
+
+    let remaining = limit;
+    for (const row of rows) {
+      const metadata = (await this.serde.loadsTyped('json', row.metadata)) as CheckpointMetadata;
+
+      if (filter && !Object.entries(filter).every(([key, value]) => (metadata as any)[key] === value)) {
+        continue;
+      }
+
+      if (remaining !== undefined) {
+        if (remaining <= 0) break;
+        remaining -= 1;
+      }
+
+      yield await this.toTuple(row, metadata);
+    }
+  }
+
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+    const parentCheckpointId = config.configurable?.checkpoint_id ?? null;
+
+    if (threadId === undefined) {
+      throw new Error('Failed to put checkpoint. The passed RunnableConfig is missing a required "thread_id" field in its "configurable" property.');
+    }
+
+    const prepared: Partial<Checkpoint> = copyCheckpoint(checkpoint);
+    delete prepared.pending_sends;
+
+    const [type, serializedCheckpoint] = this.serde.dumpsTyped(prepared);
+    const [, serializedMetadata] = this.serde.dumpsTyped(metadata);
+
+    const data = {
+      parentCheckpointId,
+      type,
+      checkpoint: Buffer.from(serializedCheckpoint),
+      metadata: Buffer.from(serializedMetadata),
+    };
+
+    await prisma.agentCheckpoint.upsert({
+      where: { threadId_checkpointNs_checkpointId: { threadId, checkpointNs, checkpointId: checkpoint.id } },
+      update: data,
+      create: { threadId, checkpointNs, checkpointId: checkpoint.id, ...data },
+    });
+
+    return {
+      configurable: {
+        thread_id: threadId,
+        checkpoint_ns: checkpointNs,
+        checkpoint_id: checkpoint.id,
+      },
+    };
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+    const checkpointId = config.configurable?.checkpoint_id;
+
+    if (threadId === undefined) {
+      throw new Error('Failed to put writes. The passed RunnableConfig is missing a required "thread_id" field in its "configurable" property');
+    }
+    if (checkpointId === undefined) {
+      throw new Error('Failed to put writes. The passed RunnableConfig is missing a required "checkpoint_id" field in its "configurable" property.');
+    }
+
+    await prisma.$transaction(
+      writes.map(([channel, value], index) => {
+        const [type, serializedValue] = this.serde.dumpsTyped(value);
+        const idx = WRITES_IDX_MAP[channel] || index;
+        const key = { threadId, checkpointNs, checkpointId, taskId, idx };
+        const data = { channel, type, value: Buffer.from(serializedValue) };
+
+        // Regular writes are idempotent per task; special writes (errors, interrupts) overwrite
+        return prisma.agentCheckpointWrite.upsert({
+          where: { threadId_checkpointNs_checkpointId_taskId_idx: key },
+          update: idx < 0 ? data : {},
+          create: { ...key, ...data },
+        });
+      })
+    );
+  }
+}
+
+/**
+ * File-based checkpointer for local development.
+ * Keeps the MemorySaver layout and flushes it to a JSON file after every write.
+ */
+export class FileCheckpointSaver extends MemorySaver {
+  private readonly filePath: string;
+  private loadPromise: Promise<void> | null = null;
+  private flushQueue: Promise<void> = Promise.resolve();
+
+  constructor(directory: string = DEFAULT_CHECKPOINT_DIR, serde?: SerializerProtocol) {
+    super(serde);
+    this.filePath = path.join(directory, 'checkpoints.json');
+  }
+
+  /**
+   * Load persisted checkpoints once per process
+   */
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const raw = await fs.readFile(this.filePath, 'utf8');
+          const parsed = JSON.parse(raw, (_key, value) =>
+            value && value.__bytes !== undefined ? new Uint8Array(Buffer.from(value.__bytes, 'base64')) : value
+          );
+          this.storage = parsed.storage ?? {};
+          this.writes = parsed.writes ?? {};
+        } catch (error: any) {
+          if (error?.code !== 'ENOENT') {
+            console.error('Failed to load checkpoints from file:', error);
+          }
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Serialize flushes so concurrent writes never interleave on disk
+   */
+  private flush(): Promise<void> {
+    this.flushQueue = this.flushQueue.then(async () => {
+      const payload = JSON.stringify({ storage: this.storage, writes: this.writes }, (_key, value) =>
+        value instanceof Uint8Array ? { __bytes: Buffer.from(value).toString('base64') } : value
+      );
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, payload, 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    }).catch((error) => {
+      console.error('Failed to persist checkpoints to file:', error);
+    });
+    return this.flushQueue;
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    await this.load();
+    return super.getTuple(config);
+  }
+
+  async *list(config: RunnableConfig, options?: CheckpointListOptions): AsyncGenerator<CheckpointTuple> {
+    await this.load();
+    yield* super.list(config, options);
+  }
+
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata): Promise<RunnableConfig> {
+    await this.load();
+    const result = await super.put(config, checkpoint, metadata);
+    await this.flush();
+    return result;
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    await this.load();
+    await super.putWrites(config, writes, taskId);
+    await this.flush();
+  }
+}
+
+/**
+ * Checkpointer instances, one per backend for the lifetime of the process
+ */
+const checkpointers: Partial<Record<CheckpointerBackend, BaseCheckpointSaver>> = {};
+let activeBackend: CheckpointerBackend | null = null;
+
+/**
+ * Resolve which backend to use: config, then WP_AGENT_CHECKPOINTER, then environment defaults
+ */
+export function resolveCheckpointerBackend(config: WpAgentConfig = {}): CheckpointerBackend {
+  const requested = config.checkpointer || process.env.WP_AGENT_CHECKPOINTER;
+
+  if (requested === 'memory' || requested === 'file' || requested === 'postgres') {
+    return requested;
+  }
+
+  if (requested) {
+    console.warn(`Unknown checkpointer "${requested}", falling back to environment defaults`);
+  }
+
+  if (process.env.DATABASE_URL) return 'postgres';
+  if (process.env.NODE_ENV === 'development') return 'file';
+  return 'memory';
+}
+
+/**
+ * Get (or create) the checkpointer for the configured backend
+ */
+export function getCheckpointer(config: WpAgentConfig = {}): BaseCheckpointSaver {
+  const backend = resolveCheckpointerBackend(config);
+
+  if (!checkpointers[backend]) {
+    switch (backend) {
+      case 'postgres':
+        checkpointers[backend] = new PrismaCheckpointSaver();
+        break;
+      case 'file':
+        checkpointers[backend] = new FileCheckpointSaver(
+          config.checkpointDir || process.env.WP_AGENT_CHECKPOINT_DIR || DEFAULT_CHECKPOINT_DIR
+        );
+        break;
+      default:
+        checkpointers[backend] = new MemorySaver();
+    }
+    console.log(`💾 Using ${backend} checkpointer for conversation threads`);
+  }
+
+  activeBackend = backend;
+  return checkpointers[backend]!;
+}
+
+/**
+ * Get the checkpointer that is currently in use
+ */
+export function getActiveCheckpointer(): BaseCheckpointSaver {
+  return activeBackend ? checkpointers[activeBackend]! : getCheckpointer();
+}
@@ -0,0 +1,236 @@
+/**
+ * wpAgent Fan-out Runs
+ * Runs one instruction (or a fixed tool plan) against every site in a group with bounded
+ * concurrency. Events are tagged with the site they came from, and a summary table closes the run.
+ */
+
+import { streamWordPressOperations, streamWordPressToolPlan } from './agent';
+import type { StreamEventPayload } from '@/lib/stream-events';
+import type { FanOutSite, FanOutSiteResult, ToolPlanStep } from './types';
+
+const DEFAULT_FANOUT_CONCURRENCY = 3;
+
+/**
+ * Upper bound on sites per fan-out run
+ */
+export const MAX_FANOUT_SITES = 25;
+
+export interface FanOutRequest {
+  message?: string; // Agent mode: the same instruction for every site
+  plan?: ToolPlanStep[]; // Fixed plan mode: these tool calls run on every site, no model involved
+}
+
+/**
+ * How many sites run at once (WP_AGENT_FANOUT_CONCURRENCY, default 3)
+ */
+export function resolveFanOutConcurrency(requested?: number): number {
+  const limit = Number(process.env.WP_AGENT_FANOUT_CONCURRENCY) || DEFAULT_FANOUT_CONCURRENCY;
+  const value = Number(requested) || limit;
+  return Math.max(1, Math.min(value, limit));
+}
+
+/**
+ * Interleave events from several generators, running at most `concurrency` of them at a time.
+ * Sources must handle their own errors.
+ */
+async function* mergeBounded<T>(
+  sources: Array<() => AsyncGenerator<T, void, unknown>>,
+  concurrency: number
+): AsyncGenerator<T, void, unknown> {
+  const queue: T[] = [];
+  let notify: (() => void) | null = null;
+  let next = 0;
+  let running = 0;
+
+  const wake = () => {
+    notify?.();
+    notify = null;
+  };
+
+  const startMore = () => {
+    while (running < concurrency && next < sources.length) {
+      const source = sources[next++];
+      running++;
+      (async () => {
+        try {
+          for await (const item of source()) {
+            queue.push(item);
+            wake();
+          }
+        } finally {
+          running--;
+          startMore();
+          wake();
+        }
+      })();
+    }
+  };
+
+  startMore();
+  while (running > 0 || queue.length > 0) {
+    if (queue.length === 0) {
+      await new Promise<void>(resolve => { notify = resolve; });
+      continue;
+    }
+    yield queue.shift()!;
+  }
+}
+
+/**
+ * Run one site and tag its events. Tool call IDs are prefixed with the site ID so
+ * identical calls on different sites stay distinct (clients strip the prefix when
+ * addressing the site's thread); agent text is collected into the site summary instead
+ * of being streamed, since interleaved tokens would be unreadable.
+ */
+async function* runSite(
+  site: FanOutSite,
+  request: FanOutRequest,
+  threadId: string,
+  results: FanOutSiteResult[],
+  signal?: AbortSignal
+): AsyncGenerator<StreamEventPayload, void, unknown> {
+  const tag = { site_id: site.id, site: site.name };
+  const result: FanOutSiteResult = { siteId: site.id, name: site.name, status: 'completed', toolCalls: 0, errors: [], summary: '' };
+  const prefixId = (id: string) => `${site.id}:${id}`;
+  let planned = 0;
+  let cancelled = false;
+
+  yield { type: 'site_start', ...tag };
+
+  try {
+    // Sites still queued when the run is cancelled never start
+    if (signal?.aborted) {
+      result.status = 'cancelled';
+      result.summary = 'Cancelled before this site started.';
+      results.push(result);
+      yield { type: 'site_complete', ...tag, status: result.status, summary: result.summary, toolCalls: 0, errors: [] };
+      return;
+    }
+
+    // Each site gets its own thread so checkpoints and journals stay per site
+    const siteThreadId = `${threadId}:${site.id}`;
+    const events = request.plan
+      ? streamWordPressToolPlan(request.plan, siteThreadId, site.config, signal)
+      : streamWordPressOperations(request.message!, siteThreadId, site.config, signal);
+
+    for await (const event of events) {
+      switch (event.type) {
+        case 'tool_call':
+          result.toolCalls++;
+          yield { ...event, id: prefixId(event.id), ...tag };
+          break;
+
+        case 'tool_result':
+          if (event.isError || event.content.startsWith('Error:')) {
+            result.errors.push(`${event.name}: ${event.content.replace(/^Error:\s*/, '')}`);
+          }
+          yield { ...event, id: prefixId(event.id), ...tag };
+          break;
+
+        case 'plan_step':
+          planned++;
+          yield { ...event, id: prefixId(event.id), ...tag };
+          break;
+
+        // Approvals and plans carry the site's own thread, which the client resumes
+        // (or executes the plan on) for that site alone
+        case 'approval_required':
+          result.status = 'approval_required';
+          result.summary += `${result.summary ? '\n\n' : ''}Paused: ${event.toolCalls.map(call => call.name).join(', ')} needs approval.`;
+          yield { ...event, toolCalls: event.toolCalls.map(call => ({ ...call, id: prefixId(call.id) })), ...tag };
+          break;
+
+        case 'plan':
+          yield { ...event, steps: event.steps.map(step => ({ ...step, id: prefixId(step.id) })), ...tag };
+          break;
+
+        case 'usage':
+          yield { ...event, ...tag };
+          break;
+
+        case 'cancelled':
+          cancelled = true;
+          yield {
+            ...event,
+            completed: event.completed.map(call => ({ ...call, id: prefixId(call.id) })),
+            skipped: event.skipped.map(call => ({ ...call, id: prefixId(call.id) })),
+            ...tag
+          };
+          break;
+
+        case 'token':
+          result.summary += event.content;
+          break;
+
+        case 'error':
+          result.errors.push(event.content);
+          break;
+      }
+    }
+  } catch (error) {
+    console.error(`Fan-out run failed for site ${site.name}:`, error);
+    result.errors.push(error instanceof Error ? error.message : String(error));
+  }
+
+  if (result.status !== 'approval_required') {
+    result.status = cancelled ? 'cancelled' : result.errors.length > 0 ? 'failed' : planned > 0 ? 'planned' : 'completed';
+  }
+  result.summary = result.summary.trim();
+  results.push(result);
+
+  yield { type: 'site_complete', ...tag, status: result.status, summary: result.summary, toolCalls: result.toolCalls, errors: result.errors };
+}
+
+/**
+ * Markdown table summarising a fan-out run, one row per site
+ */
+export function formatFanOutSummary(results: FanOutSiteResult[]): string {
+  const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s+/g, ' ').trim();
+  const truncate = (text: string) => text.length > 120 ? `${text.slice(0, 117)}...` : text;
+
+  const rows = results.map(result => [
+    cell(result.name),
+    result.status.replace('_', ' '),
+    String(result.toolCalls),
+    String(result.errors.length),
+    cell(truncate(result.errors[0] || result.summary.split('\n')[0] || '-')),
+  ]);
+
+  return [
+    `Ran on ${results.length} site${results.length === 1 ? '' : 's'}:`,
+    '',
+    '| Site | Status | Tool calls | Errors | Result |',
+    '| --- | --- | --- | --- | --- |',
+    ...rows.map(row => `| ${row.join(' | ')} |`),
+  ].join('\n');
+}
+
+/**
+ * Stream a fan-out run across a group of sites.
+ * Emits site_start / site_complete around each site's tagged events, then a fanout_summary.
+ */
+export async function* streamFanOutOperations(
+  request: FanOutRequest,
+  sites: FanOutSite[],
+  threadId: string,
+  options: { concurrency?: number; signal?: AbortSignal } = {}
+): AsyncGenerator<StreamEventPayload, void, unknown> {
+  const concurrency = resolveFanOutConcurrency(options.concurrency);
+  const results: FanOutSiteResult[] = [];
+
+  console.log(`🌐 Fan-out run on ${sites.length} sites (concurrency ${concurrency})`);
+  yield { type: 'fanout_start', thread_id: threadId, sites: sites.map(site => ({ id: site.id, name: site.name })) };
+
+  yield* mergeBounded(
+    sites.map(site => () => runSite(site, request, threadId, results, options.signal)),
+    concurrency
+  );
+
+  // Keep the group's site order in the summary, not completion order
+  const ordered = sites
+    .map(site => results.find(result => result.siteId === site.id))
+    .filter((result): result is FanOutSiteResult => !!result);
+
+  yield { type: 'fanout_summary', thread_id: threadId, results: ordered };
+  yield { type: 'token', content: `\n\n${formatFanOutSummary(ordered)}` };
+}
@@ -10,9 +10,71 @@ export {
   validateWpAgentEnvironment,
   getMemory,
   streamWordPressOperations,
-  streamWordPressUpdates
+  streamWordPressUpdates,
+  resumeWordPressOperations,
+  executeWordPressPlan,
+  undoWordPressChanges,
+  streamWordPressToolPlan,
+  getWordPressMCPStatus
 } from './agent';
-export { WP_AGENT_SYSTEM_PROMPT } from './prompts/system-prompt';
+export {
+  streamFanOutOperations,
+  formatFanOutSummary,
+  resolveFanOutConcurrency,
+  MAX_FANOUT_SITES
+} from './fan-out';
+export { listJournal, isJournaledTool } from './journal';
+export {
+  startAgentRun,
+  streamAgentRun,
+  getAgentRuns,
+  getAgentRunEvents,
+  listUserAgentRuns,
+  getThreadUserIds,
+  findRunningThreadRun,
+  getPendingApproval,
+  cancelAgentRun
+} from './runs';
+export { buildRunTranscript } from './transcript';
+export { getUsageReport, getSiteLabel, priceModelUsage, MAX_USAGE_REPORT_DAYS } from './usage';
+export {
+  cacheSiteCapabilities,
+  detectSiteCapabilities,
+  getSiteCapabilities,
+  filterToolsByCapabilities,
+  describeSiteCapabilities
+} from './capabilities';
+export { classifyToolRisk, requiresApproval, isReadTool, isWriteTool } from './tool-risk';
+export {
+  createChatModel,
+  resolveModelProvider,
+  resolveModelName,
+  validateModelConfig,
+  MODEL_PROVIDERS,
+  PROVIDER_DEFAULTS
+} from './models';
+export {
+  registerSubAgent,
+  getSubAgents,
+  selectSubAgentTools,
+  assignSubAgentTools,
+  BUILT_IN_SUB_AGENTS,
+  GENERAL_SUB_AGENT
+} from './sub-agents';
+export {
+  BUILT_IN_TEMPLATES,
+  isTemplatesEnabled,
+  extractTemplatePlaceholders,
+  expandTemplate
+} from './templates';
+export {
+  PrismaCheckpointSaver,
+  FileCheckpointSaver,
+  getCheckpointer,
+  resolveCheckpointerBackend
+} from './checkpointer';
+export { WP_AGENT_SYSTEM_PROMPT, WP_AGENT_PROMPT_VERSION } from './prompts/system-prompt';
+export { buildSystemPrompt, groupToolsByCategory } from './prompts/prompt-builder';
 export type * from './types';
 
 /**
@@ -32,7 +94,7 @@ export function checkWpAgentEnvironment() {
     isReady: false,
     message: '❌ wpAgent environment setup required',
     steps: [
-      'Set ANTHROPIC_API_KEY environment variable',
+      'Set ANTHROPIC_API_KEY (or OPENAI_API_KEY / OLLAMA_BASE_URL with WP_AGENT_PROVIDER)',
       'Configure WordPress credentials (WORDPRESS_URL, WORDPRESS_USERNAME, WORDPRESS_APP_PASSWORD)',
       'Ensure WordPress REST API is enabled',
       'Test connection to WordPress site'
@@ -0,0 +1,179 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import {
+  buildInverse,
+  findSnapshotTool,
+  getToolOutputError,
+  isRecordSnapshot,
+  parseToolOutput,
+  pickIdentifierArgs,
+  takeSnapshot
+} from './journal';
+
+// wpmcp answers with Responses.success(data, message): a status line and a JSON block,
+// which the MCP adapter passes on as text content blocks
+function success(data: unknown, message: string) {
+  return [
+    { type: 'text', text: message },
+    { type: 'text', text: JSON.stringify(data, null, 2) },
+  ];
+}
+
+const tools = [
+  'wordpress_get_post',
+  'wordpress_get_posts',
+  'wordpress_create_post',
+  'wordpress_update_post',
+  'wordpress_delete_post',
+  'wordpress_get_pages',
+  'wordpress_create_page',
+  'wordpress_update_page',
+  'wordpress_delete_page',
+  'wordpress_get_users',
+  'wordpress_update_user',
+  'wordpress_wc_get_products',
+  'wordpress_wc_update_product',
+  'wordpress_get_menu_items',
+  'wordpress_update_menu_item',
+  'wordpress_get_option',
+  'wordpress_update_option',
+].map(name => ({ name }));
+
+const post = {
+  id: 12,
+  title: 'Old title',
+  content: '<p>Old content</p>',
+  excerpt: '',
+  url: 'https://example.com/old-title',
+  status: 'draft',
+  date: '2026-10-01T10:00:00',
+  modified: '2026-10-02T10:00:00',
+  author: 1,
+  categories: [3],
+  tags: [],
+  featured_media: 0,
+};
+
+describe('pickIdentifierArgs', () => {
+  it('picks the camelCase IDs wpmcp tools take', () => {
+    expect(pickIdentifierArgs({ postId: 12, updates: { title: 'New' } })).toEqual({ postId: 12 });
+    expect(pickIdentifierArgs({ pageId: 4, force: true })).toEqual({ pageId: 4 });
+    expect(pickIdentifierArgs({ userId: 7, updates: {} })).toEqual({ userId: 7 });
+    expect(pickIdentifierArgs({ productId: 9, updates: {} })).toEqual({ productId: 9 });
+    expect(pickIdentifierArgs({ itemId: 2, updates: {} })).toEqual({ itemId: 2 });
+    expect(pickIdentifierArgs({ taxonomy: 'genre', termId: 5, updates: {} })).toEqual({ termId: 5, taxonomy: 'genre' });
+  });
+});
+
+describe('findSnapshotTool', () => {
+  it('uses the single-record read tool', () => {
+    expect(findSnapshotTool('wordpress_update_post', tools)?.name).toBe('wordpress_get_post');
+    expect(findSnapshotTool('wordpress_delete_post', tools)?.name).toBe('wordpress_get_post');
+    expect(findSnapshotTool('wordpress_update_option', tools)?.name).toBe('wordpress_get_option');
+  });
+
+  it('never falls back to list tools, which ignore the ID', () => {
+    expect(findSnapshotTool('wordpress_delete_page', tools)).toBeUndefined();
+    expect(findSnapshotTool('wordpress_update_page', tools)).toBeUndefined();
+    expect(findSnapshotTool('wordpress_update_user', tools)).toBeUndefined();
+    expect(findSnapshotTool('wordpress_wc_update_product', tools)).toBeUndefined();
+    expect(findSnapshotTool('wordpress_update_menu_item', tools)).toBeUndefined();
+  });
+});
+
+describe('parseToolOutput', () => {
+  it('reads the JSON block after the status line', () => {
+    expect(parseToolOutput(success(post, '📄 Retrieved post: "Old title"'))).toEqual(post);
+  });
+
+  it('ignores JSON in the status line', () => {
+    const option = { name: 'blogname', value: { a: 1 }, exists: true };
+    expect(parseToolOutput(success(option, '✅ Option "blogname": {"a":1}'))).toEqual(option);
+  });
+
+  it('parses error outputs to null', () => {
+    expect(parseToolOutput('Error: Failed to get post: rest_post_invalid_id')).toBeNull();
+    expect(parseToolOutput([
+      { type: 'text', text: 'Error: Failed to get post' },
+      { type: 'text', text: '{"code":"rest_post_invalid_id"}' },
+    ])).toBeNull();
+  });
+});
+
+describe('getToolOutputError', () => {
+  it('finds errors reported in the output', () => {
+    expect(getToolOutputError('Error: Failed to update post: rest_post_invalid_id')).toMatch(/^Error: Failed/);
+    expect(getToolOutputError([{ type: 'text', text: 'Error: Failed to delete page' }])).toBe('Error: Failed to delete page');
+    expect(getToolOutputError({ isError: true, content: [{ type: 'text', text: 'Forbidden' }] })).not.toBeNull();
+  });
+
+  it('passes successful outputs', () => {
+    expect(getToolOutputError(success(post, '✅ Updated post 12'))).toBeNull();
+    expect(getToolOutputError('✅ Option updated')).toBeNull();
+  });
+});
+
+describe('isRecordSnapshot', () => {
+  it('rejects list envelopes, missing options and other records', () => {
+    expect(isRecordSnapshot({ pages: [{ id: 4, title: 'About' }], count: 1 }, { pageId: 4 })).toBe(false);
+    expect(isRecordSnapshot({ name: 'blogname', value: null, exists: false }, { name: 'blogname' })).toBe(false);
+    expect(isRecordSnapshot({ ...post, id: 13 }, { postId: 12 })).toBe(false);
+    expect(isRecordSnapshot(post, { postId: 12 })).toBe(true);
+  });
+});
+
+describe('takeSnapshot', () => {
+  it('reads the record by its identifying arguments only', async () => {
+    const invoke = vi.fn().mockResolvedValue(success(post, '📄 Retrieved post: "Old title"'));
+
+    const snapshot = await takeSnapshot({ invoke }, { postId: 12, updates: { title: 'New title' } });
+
+    expect(invoke).toHaveBeenCalledWith({ postId: 12 }, undefined);
+    expect(snapshot).toEqual(post);
+  });
+
+  it('discards list-shaped reads', async () => {
+    const invoke = vi.fn().mockResolvedValue(success({ pages: [{ id: 4 }], count: 1 }, '📄 Retrieved 1 pages'));
+    expect(await takeSnapshot({ invoke }, { pageId: 4 })).toBeNull();
+  });
+});
+
+describe('buildInverse', () => {
+  it('restores the fields nested under updates', () => {
+    const args = { postId: 12, updates: { title: 'New title', status: 'publish' } };
+    expect(buildInverse('wordpress_update_post', args, post, tools)).toEqual({
+      tool: 'wordpress_update_post',
+      args: { postId: 12, updates: { title: 'Old title', status: 'draft' } },
+    });
+  });
+
+  it('restores flat fields alongside the identifier', () => {
+    const snapshot = { name: 'blogname', value: 'Old name', exists: true };
+    expect(buildInverse('wordpress_update_option', { name: 'blogname', value: 'New name' }, snapshot, tools)).toEqual({
+      tool: 'wordpress_update_option',
+      args: { name: 'blogname', value: 'Old name' },
+    });
+  });
+
+  it('recreates a deleted post without its generated fields', () => {
+    const inverse = buildInverse('wordpress_delete_post', { postId: 12, force: true }, post, tools);
+    expect(inverse?.tool).toBe('wordpress_create_post');
+    expect(inverse?.args).toMatchObject({ title: 'Old title', content: '<p>Old content</p>', status: 'draft' });
+    expect(inverse?.args).not.toHaveProperty('id');
+    expect(inverse?.args).not.toHaveProperty('url');
+    expect(inverse?.args).not.toHaveProperty('modified');
+  });
+
+  it('never builds an inverse from a list envelope', () => {
+    const envelope = { pages: [{ id: 4, title: 'About', status: 'publish' }], count: 1 };
+    expect(buildInverse('wordpress_delete_page', { pageId: 4 }, envelope, tools)).toBeNull();
+    expect(buildInverse('wordpress_update_page', { pageId: 4, updates: { title: 'New' } }, envelope, tools)).toBeNull();
+  });
+
+  it('is null without a snapshot of the changed fields', () => {
+    expect(buildInverse('wordpress_update_user', { userId: 7, updates: { name: 'New' } }, null, tools)).toBeNull();
+    expect(buildInverse('wordpress_update_post', { postId: 12, updates: { sticky: true } }, post, tools)).toBeNull();
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * wpAgent Change Journal
+ * Snapshots records before update/delete tools run so agent changes can be undone
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { ChangeJournalEntry, JournalInverse } from './types';
+
+/**
+ * Identifying arguments passed through to read tools, in order of preference.
+ * wpmcp tools take camelCase IDs (wordpress_update_post({ postId, updates })); other servers may use snake_case.
+ */
+const IDENTIFIER_KEYS = [
+  'id', 'postId', 'pageId', 'userId', 'productId', 'mediaId', 'menuId', 'itemId', 'categoryId', 'commentId',
+  'termId', 'blockId', 'widgetId', 'taxonomy', 'theme',
+  'post_id', 'page_id', 'menu_id', 'user_id', 'product_id', 'media_id', 'option', 'option_name', 'name', 'key', 'slug',
+];
+
+/**
+ * Fields of a snapshot that are not passed back when a deleted record is recreated
+ */
+const GENERATED_FIELDS = ['id', 'link', 'url', 'guid', '_links', 'date_gmt', 'modified', 'modified_gmt'];
+
+/**
+ * The site a journal entry belongs to: its normalized URL
+ */
+export function getJournalSite(url?: string | null): string | null {
+  return url ? url.trim().replace(/\/+$/, '').toLowerCase() : null;
+}
+
+/**
+ * Split a write tool name into its action and entity, e.g. wordpress_update_post -> update / post
+ */
+export function parseWriteTool(toolName: string): { prefix: string; action: 'update' | 'delete'; entity: string } | null {
+  const match = toolName.match(/^(.*?)(update|delete)_(\w+)$/);
+  if (!match) return null;
+  return { prefix: match[1], action: match[2] as 'update' | 'delete', entity: match[3] };
+}
+
+/**
+ * Check whether a tool call changes a record that should be journaled
+ */
+export function isJournaledTool(toolName: string): boolean {
+  return parseWriteTool(toolName) !== null;
+}
+
+/**
+ * Find the read tool that returns the record an update/delete tool changes.
+ * Only single-record reads qualify: list tools (get_pages for delete_page) ignore the ID.
+ */
+export function findSnapshotTool<T extends { name: string }>(toolName: string, tools: T[]): T | undefined {
+  const parsed = parseWriteTool(toolName);
+  if (!parsed) return undefined;
+
+  const { prefix, entity } = parsed;
+  const candidates = [`${prefix}get_${entity}`, `${prefix}get_${entity.replace(/s$/, '')}`];
+
+  return candidates
+    .map(name => tools.find(tool => tool.name === name))
+    .find(Boolean);
+}
+
+/**
+ * Pick the arguments that identify the record (id, option name, ...)
+ */
+export function pickIdentifierArgs(args: Record<string, any> = {}): Record<string, any> {
+  const identifiers: Record<string, any> = {};
+  for (const key of IDENTIFIER_KEYS) {
+    if (args[key] !== undefined) {
+      identifiers[key] = args[key];
+    }
+  }
+  return identifiers;
+}
+
+function parseJsonText(text: string): any {
+  const start = text.search(/[{[]/);
+  if (start === -1) return null;
+
+  try {
+    return JSON.parse(text.slice(start));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a read tool's output into a record. MCP tools often prefix JSON with a status line,
+ * either in the same text or as a separate content block; error outputs parse to null.
+ */
+export function parseToolOutput(output: unknown): any {
+  if (Array.isArray(output) && output.every(block => block?.type === 'text')) {
+    if (output.some(block => String(block.text).startsWith('Error:'))) return null;
+    // The JSON block follows the status line
+    return output
+      .map(block => parseJsonText(String(block.text)))
+      .reverse()
+      .find(parsed => parsed !== null) ?? null;
+  }
+  if (output && typeof output === 'object') return output;
+
+  const text = String(output ?? '');
+  return text.startsWith('Error:') ? null : parseJsonText(text);
+}
+
+/**
+ * The error a tool reported in its output instead of throwing: an `Error:` text (as wpmcp
+ * returns failures), in a string or any text block, or an MCP result flagged isError
+ */
+export function getToolOutputError(output: unknown): string | null {
+  if (Array.isArray(output)) {
+    const block = output.find(item => item?.type === 'text' && String(item.text).startsWith('Error:'));
+    return block ? String(block.text) : null;
+  }
+  if (output && typeof output === 'object' && (output as any).isError) {
+    return getToolOutputError((output as any).content) ?? 'Error: the tool reported a failure';
+  }
+  return typeof output === 'string' && output.startsWith('Error:') ? output : null;
+}
+
+/**
+ * Check that a snapshot is the one record the arguments identify, not a list envelope
+ * ({ pages: [...], count }), a missing option or a different record
+ */
+export function isRecordSnapshot(snapshot: any, args: Record<string, any> = {}): boolean {
+  if (!snapshot || typeof snapshot !== 'object' || Array.isArray(snapshot)) return false;
+  if (snapshot.exists === false) return false;
+  if (Object.values(snapshot).some(value => Array.isArray(value) && value.some(item => item && typeof item === 'object'))) {
+    return false;
+  }
+
+  const id = Object.entries(pickIdentifierArgs(args)).find(([key]) => /(^id|Id|_id)$/.test(key))?.[1];
+  return id === undefined || snapshot.id === undefined || String(snapshot.id) === String(id);
+}
+
+/**
+ * Read the record a write tool call is about to change through its snapshot tool.
+ * Returns null when the read fails or does not return that one record.
+ */
+export async function takeSnapshot(
+  readTool: { invoke: (args: Record<string, any>, config?: any) => Promise<unknown> },
+  args: Record<string, any>,
+  config?: any
+): Promise<any> {
+  const snapshot = parseToolOutput(await readTool.invoke(pickIdentifierArgs(args), config));
+  return isRecordSnapshot(snapshot, args) ? snapshot : null;
+}
+
+/**
+ * Read a field from a WordPress REST record, preferring raw over rendered values
+ */
+function readField(record: any, key: string): any {
+  const value = record?.[key];
+  if (value && typeof value === 'object' && ('raw' in value || 'rendered' in value)) {
+    return value.raw ?? value.rendered;
+  }
+  return value;
+}
+
+/**
+ * Build the operation that reverses a change, or null if the snapshot cannot support one
+ */
+export function buildInverse(
+  toolName: string,
+  args: Record<string, any>,
+  snapshot: any,
+  tools: { name: string }[]
+): JournalInverse | null {
+  const parsed = parseWriteTool(toolName);
+  if (!parsed || !isRecordSnapshot(snapshot, args)) return null;
+
+  const identifiers = pickIdentifierArgs(args);
+
+  if (parsed.action === 'update') {
+    // wpmcp update tools nest the changed fields under `updates`; others take them alongside the IDs
+    const nested = Boolean(args.updates) && typeof args.updates === 'object' && !Array.isArray(args.updates);
+    const changed: Record<string, any> = nested ? args.updates : args;
+
+    // Restore only the fields the update touched
+    const restored: Record<string, any> = {};
+    for (const key of Object.keys(changed)) {
+      if (!nested && key in identifiers) continue;
+      const previous = readField(snapshot, key);
+      if (previous !== undefined) {
+        restored[key] = previous;
+      }
+    }
+
+    if (Object.keys(restored).length === 0) return null;
+    return { tool: toolName, args: nested ? { ...identifiers, updates: restored } : { ...identifiers, ...restored } };
+  }
+
+  // Deletes are reversed by recreating the record from its snapshot (it gets a new ID)
+  const createTool = `${parsed.prefix}create_${parsed.entity}`;
+  if (!tools.some(tool => tool.name === createTool)) return null;
+
+  const recreatedArgs: Record<string, any> = {};
+  for (const [key, value] of Object.entries(snapshot)) {
+    if (GENERATED_FIELDS.includes(key)) continue;
+    recreatedArgs[key] = readField(snapshot, key) ?? value;
+  }
+
+  return { tool: createTool, args: recreatedArgs };
+}
+
+function toEntry(record: any): ChangeJournalEntry {
+  return {
+    id: record.id,
+    threadId: record.threadId,
+    site: record.site ?? null,
+    userId: record.userId ?? null,
+    turnId: record.turnId,
+    toolCallId: record.toolCallId,
+    toolName: record.toolName,
+    args: record.args,
+    snapshot: record.snapshot,
+    inverse: record.inverse,
+    status: record.status,
+    createdAt: record.createdAt,
+    undoneAt: record.undoneAt,
+  };
+}
+
+/**
+ * Record a change in the thread's journal. Failures are logged, never thrown,
+ * so a missing database does not stop the agent.
+ */
+export async function recordChange(
+  entry: Omit<ChangeJournalEntry, 'id' | 'status' | 'createdAt' | 'undoneAt'>
+): Promise<ChangeJournalEntry | null> {
+  try {
+    const record = await prisma.changeJournalEntry.create({
+      data: {
+        threadId: entry.threadId,
+        site: entry.site,
+        userId: entry.userId,
+        turnId: entry.turnId,
+        toolCallId: entry.toolCallId,
+        toolName: entry.toolName,
+        args: entry.args,
+        snapshot: entry.snapshot ?? undefined,
+        inverse: entry.inverse ?? undefined,
+        status: 'APPLIED',
+      },
+    });
+    return toEntry(record);
+  } catch (error) {
+    console.warn('⚠️ Failed to record change in journal:', error);
+    return null;
+  }
+}
+
+/**
+ * List a thread's journal, newest first
+ */
+export async function listJournal(threadId: string): Promise<ChangeJournalEntry[]> {
+  const records = await prisma.changeJournalEntry.findMany({
+    where: { threadId },
+    orderBy: { createdAt: 'desc' },
+  });
+  return records.map(toEntry);
+}
+
+/**
+ * Find applied entries to undo: specific entries, or everything from one agent turn
+ */
+export async function findUndoableEntries(
+  threadId: string,
+  selection: { entryIds?: string[]; turnId?: string }
+): Promise<ChangeJournalEntry[]> {
+  const records = await prisma.changeJournalEntry.findMany({
+    where: {
+      threadId,
+      status: 'APPLIED',
+      ...(selection.entryIds ? { id: { in: selection.entryIds } } : {}),
+      ...(selection.turnId ? { turnId: selection.turnId } : {}),
+    },
+    // Undo in reverse order so later changes are rolled back first
+    orderBy: { createdAt: 'desc' },
+  });
+  return records.map(toEntry);
+}
+
+export async function markChange(entryId: string, status: 'UNDONE' | 'UNDO_FAILED'): Promise<void> {
+  await prisma.changeJournalEntry.update({
+    where: { id: entryId },
+    data: { status, undoneAt: status === 'UNDONE' ? new Date() : undefined },
+  });
+}
@@ -0,0 +1,119 @@
+/**
+ * wpAgent Model Factory
+ * Builds the chat model for the configured LLM provider
+ */
+
+import { ChatAnthropic } from '@langchain/anthropic';
+import { ChatOpenAI } from '@langchain/openai';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { ModelProvider, WpAgentConfig } from './types';
+
+export const MODEL_PROVIDERS: ModelProvider[] = ['anthropic', 'openai', 'ollama'];
+
+/**
+ * Per-provider defaults used when the config leaves a setting unset
+ */
+export const PROVIDER_DEFAULTS: Record<ModelProvider, { model: string; maxTokens: number; baseUrl?: string }> = {
+  anthropic: { model: 'claude-sonnet-4-20250514', maxTokens: 64000 },
+  openai: { model: 'gpt-4.1', maxTokens: 16384 },
+  ollama: { model: 'llama3.1', maxTokens: 8192, baseUrl: 'http://localhost:11434/v1' },
+};
+
+/**
+ * Resolve the provider: config, then WP_AGENT_PROVIDER, then anthropic
+ */
+export function resolveModelProvider(config: WpAgentConfig = {}): ModelProvider {
+  const requested = config.provider || process.env.WP_AGENT_PROVIDER;
+  return MODEL_PROVIDERS.includes(requested as ModelProvider) ? (requested as ModelProvider) : 'anthropic';
+}
+
+/**
+ * Resolve the model name for the active provider
+ */
+export function resolveModelName(config: WpAgentConfig = {}): string {
+  const provider = resolveModelProvider(config);
+  return config.model || process.env.WP_AGENT_MODEL || PROVIDER_DEFAULTS[provider].model;
+}
+
+/**
+ * Check whether the provider's credentials are available, returning an error message if not
+ */
+export function validateModelConfig(config: WpAgentConfig = {}): string | null {
+  switch (resolveModelProvider(config)) {
+    case 'anthropic':
+      return config.anthropicApiKey || process.env.ANTHROPIC_API_KEY
+        ? null
+        : 'Anthropic API key is required. Please configure it in WordPress Settings or set ANTHROPIC_API_KEY environment variable.';
+    case 'openai':
+      // A custom endpoint never receives the server's key, so it needs its own
+      if (config.modelBaseUrl) {
+        return config.openaiApiKey
+          ? null
+          : 'An API key is required when using a custom model base URL. Please add it in WordPress Settings.';
+      }
+      // Self-hosted OpenAI-compatible endpoints often run without a key
+      return config.openaiApiKey || process.env.OPENAI_API_KEY || process.env.OPENAI_BASE_URL
+        ? null
+        : 'OpenAI API key is required. Please configure it in WordPress Settings or set OPENAI_API_KEY environment variable.';
+    case 'ollama':
+      return null;
+  }
+}
+
+/**
+ * Create the chat model for the configured provider
+ */
+export function createChatModel(config: WpAgentConfig = {}): BaseChatModel {
+  const provider = resolveModelProvider(config);
+  const defaults = PROVIDER_DEFAULTS[provider];
+  const model = resolveModelName(config);
+  const temperature = config.temperature ?? 0.1;
+  const maxTokens = config.maxTokens ?? defaults.maxTokens;
+
+  const configError = validateModelConfig(config);
+  if (configError) {
+    throw new Error(configError);
+  }
+
+  switch (provider) {
+    case 'openai':
+      return new ChatOpenAI({
+        model,
+        temperature,
+        maxTokens,
+        // The env key only goes to the env or default endpoint
+        apiKey: config.modelBaseUrl
+          ? config.openaiApiKey
+          : config.openaiApiKey || process.env.OPENAI_API_KEY || 'not-needed',
+        configuration: {
+          baseURL: config.modelBaseUrl || process.env.OPENAI_BASE_URL || undefined,
+        },
+      });
+
+    case 'ollama':
+      // Ollama exposes an OpenAI-compatible API under /v1
+      return new ChatOpenAI({
+        model,
+        temperature,
+        maxTokens,
+        apiKey: 'ollama',
+        configuration: {
+          baseURL: config.modelBaseUrl || process.env.OLLAMA_BASE_URL || defaults.baseUrl,
+        },
+      });
+
+    default:
+      return new ChatAnthropic({
+        model,
+        anthropicApiKey: (config.anthropicApiKey || process.env.ANTHROPIC_API_KEY) as string,
+        temperature,
+        maxTokens,
+        clientOptions: {
+          defaultHeaders: {
+            "anthropic-beta": ["token-efficient-tools-2025-02-19",
+            "fine-grained-tool-streaming-2025-05-14"]
+          },
+        },
+      });
+  }
+}
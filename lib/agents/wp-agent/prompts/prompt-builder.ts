@@ -0,0 +1,122 @@
+/**
+ * wpAgent Prompt Builder
+ * Assembles the system prompt from the tools the MCP client actually returned, grouped by
+ * category, plus the connected site's context
+ */
+
+import { createHash } from 'crypto';
+import {
+  WP_AGENT_GUIDELINES_PROMPT,
+  WP_AGENT_IDENTITY_PROMPT,
+  WP_AGENT_PROMPT_VERSION,
+  WP_DRY_RUN_PROMPT
+} from './system-prompt';
+import type { SiteContext } from '../types';
+
+/**
+ * Tool categories, matched in order against tool names; the first match wins
+ */
+const TOOL_CATEGORIES: { name: string; pattern: RegExp }[] = [
+  { name: 'WooCommerce', pattern: /woocommerce|(^|_)wc_|_products?(_|$)|_orders?(_|$)|_coupons?(_|$)|_customers?(_|$)/ },
+  { name: 'SEO', pattern: /seo|yoast|rank_?math|sitemap|redirect/ },
+  { name: 'Custom fields', pattern: /(^|_)acf_|custom_field|_meta(_|$)/ },
+  { name: 'Posts', pattern: /_posts?(_|$)|_revisions?(_|$)/ },
+  { name: 'Pages', pattern: /_pages?(_|$)/ },
+  { name: 'Media', pattern: /_media|_upload|_images?(_|$)/ },
+  { name: 'Categories & tags', pattern: /_categor|_tags?(_|$)|_taxonom|_terms?(_|$)/ },
+  { name: 'Comments', pattern: /_comments?(_|$)/ },
+  { name: 'Users & roles', pattern: /_users?(_|$)|_roles?(_|$)/ },
+  { name: 'Menus, widgets & blocks', pattern: /_menus?(_|$)|_widgets?(_|$)|_blocks?(_|$)|_navigation/ },
+  { name: 'Plugins', pattern: /_plugins?(_|$)/ },
+  { name: 'Themes', pattern: /_themes?(_|$)|_customizer|_styles?(_|$)/ },
+  { name: 'Site & settings', pattern: /_site|_settings|_options?(_|$)|_health|_cache|_cron|_database|_backup/ },
+];
+
+const OTHER_CATEGORY = 'Other';
+
+export interface SystemPromptOptions {
+  tools: { name: string }[];
+  site?: SiteContext | null;
+  capabilities?: string; // Capability section from describeSiteCapabilities
+  dryRun?: boolean;
+}
+
+export interface SystemPrompt {
+  prompt: string;
+  version: string; // WP_AGENT_PROMPT_VERSION
+  hash: string; // Changes with the tool list and site context too
+}
+
+/**
+ * Group tool names by category. Tools from additional MCP servers (server__tool)
+ * are grouped by server.
+ */
+export function groupToolsByCategory(tools: { name: string }[]): Record<string, string[]> {
+  const groups: Record<string, string[]> = {};
+
+  for (const { name } of tools) {
+    if (!name) continue;
+
+    const [server, serverTool] = name.split('__');
+    const category = serverTool
+      ? `MCP server "${server}"`
+      : name === 'web_search'
+        ? 'Web search'
+        : TOOL_CATEGORIES.find(candidate => candidate.pattern.test(name.toLowerCase()))?.name ?? OTHER_CATEGORY;
+
+    (groups[category] ??= []).push(name);
+  }
+
+  return groups;
+}
+
+function buildToolSection(tools: { name: string }[]): string {
+  if (tools.length === 0) {
+    return 'AVAILABLE TOOLS:\nNo WordPress tools are connected. Ask the user to connect a site in WordPress Settings before attempting site changes.';
+  }
+
+  const groups = groupToolsByCategory(tools);
+  const order = [...TOOL_CATEGORIES.map(category => category.name), OTHER_CATEGORY];
+  const categories = Object.keys(groups).sort((a, b) => {
+    const rank = (name: string) => order.includes(name) ? order.indexOf(name) : order.length;
+    return rank(a) - rank(b) || a.localeCompare(b);
+  });
+
+  return [
+    `AVAILABLE TOOLS (${tools.length}, by category):`,
+    ...categories.map(category => `- ${category}: ${groups[category].sort().join(', ')}`),
+  ].join('\n');
+}
+
+function buildSiteSection(site?: SiteContext | null): string {
+  if (!site) return '';
+
+  return [
+    'CONNECTED SITE:',
+    site.name && `- Name: ${site.name}`,
+    site.description && `- Tagline: ${site.description}`,
+    `- URL: ${site.url}`,
+    site.timezone && `- Timezone: ${site.timezone} (use it for scheduling and dates)`,
+    site.activeTheme && `- Active theme: ${site.activeTheme}`,
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Build the versioned system prompt for one agent
+ */
+export function buildSystemPrompt(options: SystemPromptOptions): SystemPrompt {
+  const prompt = [
+    WP_AGENT_IDENTITY_PROMPT,
+    buildSiteSection(options.site),
+    buildToolSection(options.tools),
+    options.capabilities,
+    WP_AGENT_GUIDELINES_PROMPT,
+    options.dryRun ? WP_DRY_RUN_PROMPT : '',
+  ].filter(Boolean).join('\n\n');
+
+  return {
+    prompt,
+    version: WP_AGENT_PROMPT_VERSION,
+    hash: createHash('sha256').update(prompt).digest('hex').slice(0, 12),
+  };
+}
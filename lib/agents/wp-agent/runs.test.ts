@@ -0,0 +1,34 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { startAgentRun, streamAgentRun } from './runs';
+
+// An agent stream that stays open until `finish` is called
+function pendingAgent() {
+  let finish = () => {};
+  const done = new Promise<void>(resolve => { finish = resolve; });
+  async function* events() {
+    await done;
+    yield { type: 'token' as const, content: 'Done' };
+  }
+  return { start: () => events(), finish };
+}
+
+describe('startAgentRun', () => {
+  it('refuses a second run on a thread while the first is going', async () => {
+    const first = pendingAgent();
+    const runId = startAgentRun(first.start, { threadId: 'thread_busy' });
+
+    expect(runId).toBeTruthy();
+    expect(startAgentRun(pendingAgent().start, { threadId: 'thread_busy' })).toBeNull();
+    expect(startAgentRun(pendingAgent().start, { threadId: 'thread_other' })).toBeTruthy();
+
+    first.finish();
+    for await (const event of streamAgentRun(runId!)) {
+      if (event.type === 'complete') break;
+    }
+
+    expect(startAgentRun(pendingAgent().start, { threadId: 'thread_busy' })).toBeTruthy();
+  });
+});
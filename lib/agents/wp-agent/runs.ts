@@ -0,0 +1,418 @@
+/**
+ * wpAgent Background Runs
+ * Agent runs execute as server-side jobs, independent of the request that started them.
+ * Each run's stamped events are buffered in memory while it is live and persisted to the
+ * AgentRunEvent log, so a client can reattach after a dropped connection or a closed tab.
+ * Runs are cancelled through cancelAgentRun, which aborts the signal handed to the agent.
+ * Token usage of runs started for a signed-in user is recorded as it streams.
+ */
+
+import { randomUUID } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { createEventStamper, type StreamEvent, type StreamEventPayload } from '@/lib/stream-events';
+import { recordTokenUsage } from './usage';
+import type { AgentRunStatus, AgentRunSummary, CancelRunResult, TokenUsage } from './types';
+
+/**
+ * How long finished runs stay in memory; later reads come from the database
+ */
+const RUN_RETENTION_MS = 10 * 60 * 1000;
+
+/**
+ * Events are written to the database in batches at this interval
+ */
+const RUN_FLUSH_MS = 250;
+
+/**
+ * How often reattached streams poll the database for runs live in another process
+ */
+const RUN_POLL_MS = 1000;
+
+/**
+ * A run that reports nothing for this long is treated as lost (its process died)
+ */
+const RUN_STALE_MS = 5 * 60 * 1000;
+
+interface LiveRun {
+  id: string;
+  threadId: string;
+  userId?: string; // Usage is recorded for signed-in users only
+  siteId?: string;
+  site?: string;
+  status: AgentRunStatus;
+  events: StreamEvent[]; // Index equals seq
+  createdAt: Date;
+  finishedAt?: Date;
+  listeners: Set<() => void>;
+  pending: StreamEvent[]; // Not yet written to the database
+  flushTimer: ReturnType<typeof setTimeout> | null;
+  persisted: Promise<void>;
+  persistFailed: boolean;
+  controller: AbortController;
+  usage: TokenUsage; // Summed over the run's model calls
+  onFinish?: (run: { id: string; status: AgentRunStatus; usage: TokenUsage }) => void | Promise<void>;
+}
+
+const liveRuns = new Map<string, LiveRun>();
+
+function notify(run: LiveRun): void {
+  const listeners = [...run.listeners];
+  run.listeners.clear();
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Queue a database write after the run's earlier writes, so the log stays in order
+ */
+function persist(run: LiveRun, write: () => Promise<unknown>): void {
+  run.persisted = run.persisted.then(write).then(() => undefined).catch(error => {
+    // The in-memory log still serves clients attached to this process
+    if (!run.persistFailed) {
+      console.error(`⚠️ Failed to persist agent run ${run.id}:`, error);
+      run.persistFailed = true;
+    }
+  });
+}
+
+function flushEvents(run: LiveRun): void {
+  if (run.flushTimer) {
+    clearTimeout(run.flushTimer);
+    run.flushTimer = null;
+  }
+  if (run.pending.length === 0) return;
+
+  const batch = run.pending.splice(0);
+  persist(run, () => prisma.agentRunEvent.createMany({
+    data: batch.map(event => ({ runId: run.id, seq: event.seq, type: event.type, data: event as any })),
+  }));
+}
+
+/**
+ * Start an agent run in the background and return its ID, or null when a run is already
+ * going on the thread in this process. Checking and registering happen in one synchronous
+ * step, so concurrent requests cannot both start a run on a thread.
+ * The run keeps going when the client disconnects; read it with streamAgentRun.
+ * `start` receives the run's cancel signal and returns the agent's event stream.
+ */
+export function startAgentRun(
+  start: (signal: AbortSignal) => AsyncIterable<StreamEventPayload>,
+  options: {
+    threadId: string;
+    userId?: string;
+    siteId?: string;
+    site?: string;
+    onFinish?: LiveRun['onFinish']; // Called once the run has finished, e.g. to settle credits
+  }
+): string | null {
+  const running = [...liveRuns.values()].find(run => run.threadId === options.threadId && run.status === 'RUNNING');
+  if (running) {
+    console.warn(`⚠️ Refused to start a run on thread ${options.threadId}: run ${running.id} is still going`);
+    return null;
+  }
+
+  const run: LiveRun = {
+    id: `run_${randomUUID()}`,
+    threadId: options.threadId,
+    userId: options.userId,
+    siteId: options.siteId,
+    site: options.site,
+    status: 'RUNNING',
+    events: [],
+    createdAt: new Date(),
+    listeners: new Set(),
+    pending: [],
+    flushTimer: null,
+    persisted: Promise.resolve(),
+    persistFailed: false,
+    controller: new AbortController(),
+    usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0 },
+    onFinish: options.onFinish,
+  };
+  liveRuns.set(run.id, run);
+  persist(run, () => prisma.agentRun.create({ data: { id: run.id, threadId: run.threadId, userId: run.userId } }));
+
+  console.log(`🏃 Agent run ${run.id} started on thread ${run.threadId}`);
+  void executeRun(run, start(run.controller.signal));
+  return run.id;
+}
+
+async function executeRun(run: LiveRun, events: AsyncIterable<StreamEventPayload>): Promise<void> {
+  const stamp = createEventStamper(run.id);
+  let failed = false;
+  let cancelled = false;
+
+  const emit = (payload: StreamEventPayload) => {
+    const event = stamp(payload);
+    if (!event) return;
+
+    run.events.push(event);
+    run.pending.push(event);
+    run.flushTimer ??= setTimeout(() => flushEvents(run), RUN_FLUSH_MS);
+    notify(run);
+  };
+
+  try {
+    emit({ type: 'run_start', thread_id: run.threadId });
+
+    for await (const event of events) {
+      if (event.type === 'error') failed = true;
+      if (event.type === 'cancelled') cancelled = true;
+      if (event.type === 'usage') {
+        run.usage.inputTokens += event.input_tokens;
+        run.usage.outputTokens += event.output_tokens;
+        run.usage.totalTokens += event.total_tokens;
+        run.usage.costUsd += event.cost_usd ?? 0;
+      }
+      if (event.type === 'usage' && run.userId) {
+        // Fan-out events name their own site
+        void recordTokenUsage(run.userId, {
+          inputTokens: event.input_tokens,
+          outputTokens: event.output_tokens,
+          totalTokens: event.total_tokens,
+          costUsd: event.cost_usd ?? 0,
+          model: event.model,
+          agent: event.agent,
+        }, {
+          runId: run.id,
+          threadId: run.threadId,
+          siteId: event.site_id ?? run.siteId,
+          site: event.site ?? run.site,
+        });
+      }
+      emit(event);
+    }
+  } catch (error) {
+    console.error(`Agent run ${run.id} failed:`, error);
+    failed = true;
+    emit({ type: 'error', content: `Server error: ${(error as Error).message}` });
+  }
+
+  // Send completion signal
+  emit({ type: 'complete' });
+
+  run.status = cancelled ? 'CANCELLED' : failed ? 'FAILED' : 'COMPLETED';
+  run.finishedAt = new Date();
+  flushEvents(run);
+  persist(run, () => prisma.agentRun.update({
+    where: { id: run.id },
+    data: { status: run.status, finishedAt: run.finishedAt },
+  }));
+  notify(run);
+
+  console.log(`🏁 Agent run ${run.id} ${run.status.toLowerCase()} after ${run.events.length} events`);
+  try {
+    await run.onFinish?.({ id: run.id, status: run.status, usage: run.usage });
+  } catch (error) {
+    console.error(`Agent run ${run.id} finish handler failed:`, error);
+  }
+  setTimeout(() => liveRuns.delete(run.id), RUN_RETENTION_MS);
+}
+
+/**
+ * Ask a run to stop. The agent finishes the tool calls already in progress, skips the rest
+ * and records what completed; the run's stream ends with a cancelled event.
+ */
+export async function cancelAgentRun(runId: string): Promise<CancelRunResult> {
+  const run = liveRuns.get(runId);
+  if (run) {
+    if (run.status !== 'RUNNING') return 'finished';
+    if (!run.controller.signal.aborted) {
+      console.log(`✋ Cancelling agent run ${run.id}`);
+      run.controller.abort();
+    }
+    return 'cancelling';
+  }
+
+  const record = await prisma.agentRun.findUnique({ where: { id: runId }, select: { status: true } });
+  if (!record) return 'not_found';
+  return record.status === 'RUNNING' ? 'unavailable' : 'finished';
+}
+
+/**
+ * Look up runs by ID, from memory for live runs and from the database otherwise
+ */
+export async function getAgentRuns(runIds: string[]): Promise<AgentRunSummary[]> {
+  const summaries: AgentRunSummary[] = [];
+  const stored: string[] = [];
+
+  for (const id of runIds) {
+    const run = liveRuns.get(id);
+    if (!run) {
+      stored.push(id);
+      continue;
+    }
+    summaries.push({
+      id: run.id,
+      threadId: run.threadId,
+      userId: run.userId,
+      status: run.status,
+      lastSeq: run.events.length - 1,
+      createdAt: run.createdAt,
+      finishedAt: run.finishedAt,
+    });
+  }
+
+  if (stored.length > 0) {
+    const records = await prisma.agentRun.findMany({
+      where: { id: { in: stored } },
+      include: { events: { orderBy: { seq: 'desc' }, take: 1, select: { seq: true } } },
+    });
+    summaries.push(...records.map((record: any) => ({
+      id: record.id,
+      threadId: record.threadId,
+      userId: record.userId,
+      status: record.status,
+      lastSeq: record.events[0]?.seq ?? -1,
+      createdAt: record.createdAt,
+      finishedAt: record.finishedAt,
+    })));
+  }
+
+  return summaries;
+}
+
+/**
+ * A user's most recent runs, newest first
+ */
+export async function listUserAgentRuns(userId: string, limit = 20): Promise<AgentRunSummary[]> {
+  const records = await prisma.agentRun.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    select: { id: true },
+  });
+  // Runs whose database row is not written yet are only in memory
+  const live = [...liveRuns.values()].filter(run => run.userId === userId).map(run => run.id);
+  const ids = [...new Set([...live, ...records.map((record: any) => record.id as string)])];
+
+  const summaries = await getAgentRuns(ids);
+  return summaries
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .slice(0, limit);
+}
+
+/**
+ * Users who have started runs on a thread (runs without a user are not counted)
+ */
+export async function getThreadUserIds(threadId: string): Promise<string[]> {
+  const records = await prisma.agentRun.findMany({
+    where: { threadId, userId: { not: null } },
+    distinct: ['userId'],
+    select: { userId: true },
+  });
+  const live = [...liveRuns.values()]
+    .filter(run => run.threadId === threadId && run.userId)
+    .map(run => run.userId as string);
+
+  return [...new Set([...live, ...records.map((record: any) => record.userId as string)])];
+}
+
+/**
+ * The run still going on a thread, if any. A thread takes one run at a time, since
+ * concurrent runs would write over each other's checkpoints. Routes check this before
+ * taking quota and to see runs in other processes; startAgentRun makes the final check.
+ */
+export async function findRunningThreadRun(threadId: string): Promise<string | null> {
+  const live = [...liveRuns.values()].find(run => run.threadId === threadId && run.status === 'RUNNING');
+  if (live) return live.id;
+  if (!process.env.DATABASE_URL) return null;
+
+  // Runs in other processes; one that stopped reporting progress is treated as lost
+  const since = new Date(Date.now() - RUN_STALE_MS);
+  const record = await prisma.agentRun.findFirst({
+    where: {
+      threadId,
+      status: 'RUNNING',
+      OR: [{ createdAt: { gt: since } }, { events: { some: { createdAt: { gt: since } } } }],
+    },
+    select: { id: true },
+  });
+  return record?.id ?? null;
+}
+
+/**
+ * The approval a thread is waiting on: the tool calls its latest run paused on.
+ * Null when the latest run did not pause for approval, so a decision meant for an
+ * older run cannot resume the thread after it has moved on.
+ */
+export async function getPendingApproval(threadId: string): Promise<{ runId: string; toolCallIds: string[] } | null> {
+  const [live] = [...liveRuns.values()]
+    .filter(run => run.threadId === threadId)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const record = process.env.DATABASE_URL
+    ? await prisma.agentRun.findFirst({
+      where: { threadId },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, createdAt: true },
+    })
+    : null;
+
+  const latest = live && (!record || live.createdAt >= record.createdAt) ? live.id : record?.id;
+  if (!latest) return null;
+
+  const toolCallIds = (await getAgentRunEvents(latest))
+    .flatMap(event => event.type === 'approval_required' ? event.toolCalls.map(call => call.id) : []);
+  return toolCallIds.length > 0 ? { runId: latest, toolCallIds } : null;
+}
+
+/**
+ * All events a run has emitted so far, without waiting for more
+ */
+export async function getAgentRunEvents(runId: string): Promise<StreamEvent[]> {
+  const run = liveRuns.get(runId);
+  if (run) return [...run.events];
+
+  const rows = await prisma.agentRunEvent.findMany({
+    where: { runId },
+    orderBy: { seq: 'asc' },
+  });
+  return rows.map((row: any) => row.data as StreamEvent);
+}
+
+/**
+ * Stream a run's events with seq greater than `after`, then follow it until it finishes.
+ * Replays finished runs in full, so a client can rebuild the turn it missed.
+ */
+export async function* streamAgentRun(
+  runId: string,
+  after = -1
+): AsyncGenerator<StreamEvent, void, unknown> {
+  let cursor = after + 1;
+
+  const run = liveRuns.get(runId);
+  if (run) {
+    while (true) {
+      while (cursor < run.events.length) {
+        yield run.events[cursor++];
+      }
+      if (run.status !== 'RUNNING') return;
+      await new Promise<void>(resolve => run.listeners.add(resolve));
+    }
+  }
+
+  // Not live in this process: follow the persisted log
+  let lastProgress = Date.now();
+  while (true) {
+    const record = await prisma.agentRun.findUnique({ where: { id: runId }, select: { status: true } });
+    if (!record) return;
+
+    const rows = await prisma.agentRunEvent.findMany({
+      where: { runId, seq: { gte: cursor } },
+      orderBy: { seq: 'asc' },
+    });
+    for (const row of rows) {
+      yield row.data as StreamEvent;
+      cursor = row.seq + 1;
+    }
+
+    if (record.status !== 'RUNNING' && rows.length === 0) return;
+    if (rows.length > 0) {
+      lastProgress = Date.now();
+    } else if (Date.now() - lastProgress > RUN_STALE_MS) {
+      console.warn(`⚠️ Agent run ${runId} stopped reporting progress`);
+      return;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, RUN_POLL_MS));
+  }
+}
@@ -0,0 +1,65 @@
+import { readdirSync, readFileSync } from 'fs';
+import { createRequire } from 'module';
+import { dirname, join } from 'path';
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { assignSubAgentTools, getSubAgents, GENERAL_SUB_AGENT } from './sub-agents';
+
+// Every tool the bundled wpmcp server registers, read from its build
+function getWpmcpToolNames(): string[] {
+  const toolsDir = join(dirname(createRequire(import.meta.url).resolve('wpmcp')), 'tools');
+  const names = readdirSync(toolsDir)
+    .filter(file => file.endsWith('.js'))
+    .flatMap(file => [...readFileSync(join(toolsDir, file), 'utf8').matchAll(/server\.tool\('(\w+)'/g)].map(match => match[1]));
+  return [...new Set(names)];
+}
+
+function specialistOf(assignments: ReturnType<typeof assignSubAgentTools>, toolName: string): string[] {
+  return assignments
+    .filter(assignment => assignment.tools.some(tool => tool.name === toolName))
+    .map(assignment => assignment.subAgent.name);
+}
+
+describe('assignSubAgentTools', () => {
+  const tools = [...getWpmcpToolNames(), 'web_search', 'shop__list_items', 'analytics__get_report'].map(name => ({ name }));
+  const assignments = assignSubAgentTools(getSubAgents(), tools);
+
+  it('reads the wpmcp tool list', () => {
+    expect(tools.length).toBeGreaterThan(150);
+  });
+
+  it('makes every tool reachable through some specialist', () => {
+    const unreachable = tools.filter(tool => specialistOf(assignments, tool.name).length === 0).map(tool => tool.name);
+    expect(unreachable).toEqual([]);
+  });
+
+  it('gives tools from additional MCP servers to the general specialist', () => {
+    expect(specialistOf(assignments, 'shop__list_items')).toEqual([GENERAL_SUB_AGENT.name]);
+    expect(specialistOf(assignments, 'wordpress_execute_sql')).toEqual([GENERAL_SUB_AGENT.name]);
+    expect(specialistOf(assignments, 'wordpress_clear_cache')).toEqual([GENERAL_SUB_AGENT.name]);
+  });
+
+  it('routes tools to the specialist for their area', () => {
+    expect(specialistOf(assignments, 'wordpress_wc_get_sales_report')).toContain('woocommerce');
+    expect(specialistOf(assignments, 'wordpress_wc_get_shipping_zones')).toContain('woocommerce');
+    expect(specialistOf(assignments, 'wordpress_set_featured_image')).toContain('content');
+    expect(specialistOf(assignments, 'wordpress_set_canonical_url')).toContain('seo');
+    expect(specialistOf(assignments, 'wordpress_set_schema_markup')).toContain('seo');
+    expect(specialistOf(assignments, 'wordpress_get_option')).toContain('security');
+  });
+
+  it('adds unassigned tools to a configured general specialist instead of a second one', () => {
+    const custom = { name: 'general', description: 'Custom', prompt: 'Custom', tools: ['wordpress_get_site_info'] };
+    const result = assignSubAgentTools([...getSubAgents(), custom], tools);
+
+    expect(result.filter(assignment => assignment.subAgent.name === 'general')).toHaveLength(1);
+    expect(specialistOf(result, 'shop__list_items')).toEqual(['general']);
+  });
+
+  it('leaves out specialists without tools on the site', () => {
+    const result = assignSubAgentTools(getSubAgents(), [{ name: 'wordpress_create_post' }]);
+    expect(result.map(assignment => assignment.subAgent.name)).toEqual(['content']);
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * wpAgent Sub-Agents
+ * Supervisor graph that delegates to specialist agents with their own tool slices
+ */
+
+import { createReactAgent } from "@langchain/langgraph/prebuilt";
+import { Command, END, MessagesAnnotation, START, StateGraph } from "@langchain/langgraph";
+import { SystemMessage, ToolMessage, type AIMessage } from '@langchain/core/messages';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { BaseCheckpointSaver } from '@langchain/langgraph-checkpoint';
+import { WpToolNode } from './tool-node';
+import type { JournalContext, SubAgent, WpAgentConfig } from './types';
+
+/**
+ * Node name of the supervisor in the multi-agent graph
+ */
+export const SUPERVISOR_NODE = 'supervisor';
+
+/**
+ * Prefix of the handoff tools the supervisor uses to delegate
+ */
+export const HANDOFF_TOOL_PREFIX = 'transfer_to_';
+
+/**
+ * Built-in specialists. Tool entries are tool names or globs (`*` matches any characters).
+ */
+export const BUILT_IN_SUB_AGENTS: SubAgent[] = [
+  {
+    name: 'content',
+    description: 'Posts, pages, media, categories, tags, comments, menus and Gutenberg blocks.',
+    prompt: 'You are the wpAgent content specialist. Create, edit, organize and publish WordPress content with care for formatting and structure.',
+    tools: ['*_post*', '*_page*', '*_media*', '*_featured_image', '*_categor*', '*_tag*', '*_term*', '*_taxonom*', '*_comment*', '*_menu*', '*_block*', '*_shortcode*', '*_custom_meta', '*_content', '*_site_info', 'web_search'],
+  },
+  {
+    name: 'woocommerce',
+    description: 'WooCommerce products, orders, coupons, customers and store settings.',
+    prompt: 'You are the wpAgent WooCommerce specialist. Manage products, orders, coupons and customers accurately; double-check prices and stock.',
+    tools: ['*woocommerce*', '*_wc_*', '*_product*', '*_order*', '*_coupon*', '*_customer*', '*_site_info'],
+  },
+  {
+    name: 'seo',
+    description: 'SEO metadata, sitemaps, redirects, schema markup and content optimization.',
+    prompt: 'You are the wpAgent SEO specialist. Improve titles, descriptions, structured data and site discoverability following current best practices.',
+    tools: ['*seo*', '*yoast*', '*rank_math*', '*_meta*', '*sitemap*', '*redirect*', '*canonical*', '*_og_*', '*twitter*', '*schema*', '*robots*', '*rewrite*', '*_get_post*', '*_get_page*', '*_update_post', '*_update_page', '*_site_info', 'web_search'],
+  },
+  {
+    name: 'security',
+    description: 'Users, roles, plugins, themes, updates, backups and site health.',
+    prompt: 'You are the wpAgent security specialist. Audit users, roles, plugins and themes, flag risks clearly and prefer the least destructive fix.',
+    tools: ['*_user*', '*_role*', '*_capabilit*', '*_plugin*', '*_theme*', '*security*', '*backup*', '*health*', '*_update*', '*_settings', '*_option*', '*_failed_logins', '*debug_log*', '*_version_info', '*_core_files', '*_permissions', '*_site_info'],
+  },
+];
+
+/**
+ * Catch-all specialist that gets every tool no other specialist selects (caching, cron, files,
+ * the database, widgets, tools from additional MCP servers), so no tool is unreachable in supervisor mode
+ */
+export const GENERAL_SUB_AGENT: SubAgent = {
+  name: 'general',
+  description: 'Everything the other specialists do not cover: caching and performance, cron, files, the database, widgets, staging and tools from additional MCP servers.',
+  prompt: 'You are the wpAgent generalist. Handle site maintenance and anything outside the other specialists\' areas; check the current state before changing it.',
+};
+
+/**
+ * Sub-agents registered at runtime via registerSubAgent
+ */
+const registeredSubAgents = new Map<string, SubAgent>();
+
+/**
+ * Register a sub-agent for every agent created afterwards (overrides built-ins with the same name).
+ * Server-side only: there is no UI or API for end users to define sub-agents.
+ */
+export function registerSubAgent(subAgent: SubAgent): void {
+  registeredSubAgents.set(subAgent.name, subAgent);
+}
+
+/**
+ * Resolve the sub-agent list: built-ins, then registered, then config (later entries win by name)
+ */
+export function getSubAgents(config: WpAgentConfig = {}): SubAgent[] {
+  const byName = new Map<string, SubAgent>();
+
+  for (const subAgent of [
+    ...BUILT_IN_SUB_AGENTS,
+    ...registeredSubAgents.values(),
+    ...(config.customSubAgents || []),
+  ]) {
+    byName.set(subAgent.name, subAgent);
+  }
+
+  return Array.from(byName.values());
+}
+
+/**
+ * Convert a tool glob into a regular expression
+ */
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * Select the tools a sub-agent may use; no tool list means every tool
+ */
+export function selectSubAgentTools(subAgent: SubAgent, tools: any[]): any[] {
+  if (!subAgent.tools) return tools;
+
+  const patterns = subAgent.tools.map(globToRegExp);
+  return tools.filter(tool => patterns.some(pattern => pattern.test(tool.name)));
+}
+
+/**
+ * Select each sub-agent's tools, giving the tools none of them selects to the general specialist
+ * (a sub-agent named `general` in the list, or GENERAL_SUB_AGENT). Sub-agents without tools are left out.
+ */
+export function assignSubAgentTools(subAgents: SubAgent[], tools: any[]): { subAgent: SubAgent; tools: any[] }[] {
+  const assignments = subAgents.map(subAgent => ({ subAgent, tools: selectSubAgentTools(subAgent, tools) }));
+
+  const assigned = new Set(assignments.flatMap(assignment => assignment.tools));
+  const unassigned = tools.filter(tool => !assigned.has(tool));
+  if (unassigned.length > 0) {
+    const general = assignments.find(assignment => assignment.subAgent.name === GENERAL_SUB_AGENT.name);
+    if (general) {
+      general.tools.push(...unassigned);
+    } else {
+      assignments.push({ subAgent: GENERAL_SUB_AGENT, tools: unassigned });
+    }
+  }
+
+  return assignments.filter(assignment => assignment.tools.length > 0);
+}
+
+/**
+ * Sanitize a sub-agent name for use as a graph node and tool name
+ */
+function toNodeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9_-]/g, '_');
+}
+
+interface SupervisorAgentParams {
+  model: BaseChatModel;
+  tools: any[];
+  subAgents: SubAgent[];
+  systemPrompt: string;
+  checkpointer: BaseCheckpointSaver;
+  requireApproval?: boolean;
+  dryRun?: boolean;
+  journal?: boolean;
+  journalContext?: JournalContext;
+}
+
+/**
+ * Create a supervisor graph that routes each step to a specialist sub-agent
+ */
+export function createSupervisorAgent({
+  model,
+  tools,
+  subAgents,
+  systemPrompt,
+  checkpointer,
+  requireApproval,
+  dryRun,
+  journal,
+  journalContext,
+}: SupervisorAgentParams): any {
+  // Skip specialists that have no tools on this site; tools no specialist selects go to the general one
+  const specialists = assignSubAgentTools(subAgents, tools)
+    .map(assignment => ({ ...assignment, nodeName: toNodeName(assignment.subAgent.name) }));
+
+  const handoffTools = specialists.map(({ subAgent, nodeName }) => ({
+    type: 'function',
+    function: {
+      name: `${HANDOFF_TOOL_PREFIX}${nodeName}`,
+      description: `Delegate a task to the ${subAgent.name} specialist: ${subAgent.description}`,
+      parameters: {
+        type: 'object',
+        properties: {
+          task: { type: 'string', description: 'What the specialist should do, with all relevant details' },
+        },
+        required: ['task'],
+      },
+    },
+  }));
+
+  const supervisorPrompt = `${systemPrompt}
+
+You are the supervisor. You do not call WordPress tools yourself; delegate each step to the right specialist:
+${specialists.map(({ subAgent, nodeName }) => `- ${nodeName}: ${subAgent.description}`).join('\n')}
+
+Delegate one step at a time. When a specialist has finished, either delegate the next step or give the user a brief final summary without repeating the specialist's full answer.`;
+
+  const supervisorModel = model.bindTools!(handoffTools);
+
+  const supervisor = async (state: typeof MessagesAnnotation.State, config: any) => {
+    const response = (await supervisorModel.invoke(
+      [new SystemMessage(supervisorPrompt), ...state.messages],
+      config
+    )) as AIMessage;
+
+    const handoff = response.tool_calls?.find(call => call.name.startsWith(HANDOFF_TOOL_PREFIX));
+    if (!handoff) {
+      return { messages: [response] };
+    }
+
+    const target = handoff.name.slice(HANDOFF_TOOL_PREFIX.length);
+
+    // Every tool call needs a matching result to keep the history valid
+    const handoffResults = (response.tool_calls || []).map(call => new ToolMessage({
+      name: call.name,
+      tool_call_id: call.id ?? '',
+      content: call.id === handoff.id
+        ? `Transferred to ${target}. Task: ${handoff.args?.task ?? ''}`
+        : 'Ignored: only one specialist can be delegated to at a time.',
+    }));
+
+    return new Command({
+      goto: target,
+      update: { messages: [response, ...handoffResults] },
+    });
+  };
+
+  const graph: any = new StateGraph(MessagesAnnotation)
+    .addNode(SUPERVISOR_NODE, supervisor, { ends: [...specialists.map(s => s.nodeName), END] })
+    .addEdge(START, SUPERVISOR_NODE);
+
+  for (const { subAgent, nodeName, tools: subAgentTools } of specialists) {
+    // Sub-agents inherit the parent checkpointer, so approval interrupts still work
+    const specialist = createReactAgent({
+      tools: new WpToolNode(subAgentTools, { requireApproval, dryRun, journal, journalContext }),
+      stateModifier: `${systemPrompt}\n\n${subAgent.prompt}`,
+      llm: model,
+    });
+
+    graph.addNode(nodeName, specialist).addEdge(nodeName, SUPERVISOR_NODE);
+  }
+
+  return graph.compile({ checkpointer });
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { expandTemplate } from './templates';
+import type { TaskTemplate } from './types';
+
+const template: TaskTemplate = {
+  id: 'tag-posts',
+  name: 'Tag posts',
+  description: 'Add tags to posts',
+  category: 'Content Management',
+  parameters: [
+    { name: 'posts', label: 'Posts', type: 'list', required: true },
+    { name: 'tag', label: 'Tag', type: 'string', required: true },
+  ],
+  instruction: 'Add the tag {{tag}} to: {{posts}}',
+};
+
+describe('expandTemplate', () => {
+  it('reports missing inputs as errors when inputs are null', () => {
+    const { instruction, errors } = expandTemplate(template, null);
+    expect(instruction).toBeUndefined();
+    expect(errors).toEqual(['Posts is required', 'Tag is required']);
+  });
+
+  it('coerces list items that are not strings', () => {
+    const inputs: any = { posts: [12, ' Hello world ', null, true], tag: 'news' };
+    const { instruction, values, errors } = expandTemplate(template, inputs);
+    expect(errors).toEqual([]);
+    expect(values.posts).toEqual(['12', 'Hello world', 'true']);
+    expect(instruction).toContain('Add the tag news to: 12, Hello world, true');
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * wpAgent Task Templates
+ * Named, parameterised prompt recipes that expand into structured instructions
+ */
+
+import type { TaskTemplate, TemplateInputs, TemplateParameter, WpAgentConfig } from './types';
+
+/**
+ * Built-in templates covering the common WordPress workflows
+ */
+export const BUILT_IN_TEMPLATES: TaskTemplate[] = [
+  {
+    id: 'publish-blog-post',
+    name: 'Publish blog post',
+    description: 'Write and publish a blog post on a topic',
+    category: 'Content Management',
+    parameters: [
+      { name: 'title', label: 'Title', type: 'string', required: true },
+      { name: 'topic', label: 'Topic / outline', type: 'text', required: true },
+      { name: 'category', label: 'Category', type: 'string' },
+      { name: 'status', label: 'Status', type: 'select', options: ['publish', 'draft'], default: 'publish' },
+    ],
+    instruction: 'Create a blog post titled "{{title}}" about {{topic}} in the "{{category}}" category and set its status to {{status}}.',
+    steps: [
+      'Check that the category exists and create it if missing',
+      'Write well-structured content with headings',
+      'Create the post with the requested status',
+    ],
+  },
+  {
+    id: 'create-page',
+    name: 'Create page',
+    description: 'Create a new page with the described sections',
+    category: 'Content Management',
+    parameters: [
+      { name: 'title', label: 'Page title', type: 'string', required: true },
+      { name: 'sections', label: 'Sections', type: 'list', description: 'One section per line' },
+      { name: 'contactForm', label: 'Include contact form', type: 'boolean', default: false },
+    ],
+    instruction: 'Create a new page called "{{title}}" with these sections: {{sections}}. Include a contact form: {{contactForm}}.',
+  },
+  {
+    id: 'publish-drafts',
+    name: 'Publish drafts',
+    description: 'Find draft posts and publish them',
+    category: 'Content Management',
+    parameters: [
+      { name: 'search', label: 'Only posts matching', type: 'string' },
+    ],
+    instruction: 'Search for all draft posts matching "{{search}}" and publish them. List every post you publish.',
+  },
+  {
+    id: 'child-theme',
+    name: 'Create child theme',
+    description: 'Create a child theme of an installed theme',
+    category: 'Theme Customization',
+    parameters: [
+      { name: 'parentTheme', label: 'Parent theme', type: 'string', required: true, default: 'Twenty Twenty-Five' },
+      { name: 'primaryColor', label: 'Primary color', type: 'string', description: 'Hex value, e.g. #FF6B6B' },
+      { name: 'customCss', label: 'Custom CSS', type: 'text' },
+    ],
+    instruction: 'Create a child theme of {{parentTheme}}. Set the primary color to {{primaryColor}} and add this custom CSS: {{customCss}}.',
+  },
+  {
+    id: 'launch-product',
+    name: 'Launch product',
+    description: 'Create and publish a WooCommerce product',
+    category: 'WooCommerce Operations',
+    parameters: [
+      { name: 'name', label: 'Product name', type: 'string', required: true },
+      { name: 'price', label: 'Price', type: 'number', required: true },
+      { name: 'category', label: 'Category', type: 'string', required: true },
+      { name: 'images', label: 'Image URLs', type: 'list', description: 'One URL per line' },
+      { name: 'description', label: 'Description', type: 'text' },
+    ],
+    instruction: 'Launch a WooCommerce product named "{{name}}" priced at {{price}} in the "{{category}}" category with images {{images}}. Description: {{description}}.',
+    steps: [
+      'Create the product category if it does not exist',
+      'Upload the images to the media library',
+      'Create the product with price, category, images and description',
+      'Publish the product and report its URL',
+    ],
+  },
+  {
+    id: 'coupon',
+    name: 'Create coupon',
+    description: 'Create a WooCommerce discount coupon',
+    category: 'WooCommerce Operations',
+    parameters: [
+      { name: 'code', label: 'Coupon code', type: 'string', required: true },
+      { name: 'percent', label: 'Percent off', type: 'number', required: true },
+      { name: 'expires', label: 'Expiry date', type: 'string', description: 'YYYY-MM-DD' },
+    ],
+    instruction: 'Create a {{percent}}% off coupon with code "{{code}}" that expires on {{expires}}.',
+  },
+  {
+    id: 'optimize-database',
+    name: 'Optimize database',
+    description: 'Clean up revisions and spam, then optimize tables',
+    category: 'Database & Optimization',
+    parameters: [
+      { name: 'cleanRevisions', label: 'Clean old revisions', type: 'boolean', default: true },
+      { name: 'cleanSpam', label: 'Clean spam comments', type: 'boolean', default: true },
+    ],
+    instruction: 'Optimize all database tables. Clean up old post revisions: {{cleanRevisions}}. Clean up spam comments: {{cleanSpam}}. Report the space reclaimed.',
+  },
+  {
+    id: 'seo-redirect',
+    name: 'Create redirect',
+    description: 'Create a 301 redirect between two URLs',
+    category: 'SEO & Performance',
+    parameters: [
+      { name: 'from', label: 'From URL', type: 'string', required: true },
+      { name: 'to', label: 'To URL', type: 'string', required: true },
+    ],
+    instruction: 'Create a 301 redirect from {{from}} to {{to}} and verify it works.',
+  },
+  {
+    id: 'seo-audit',
+    name: 'SEO audit',
+    description: 'Analyze SEO for a post or page',
+    category: 'SEO & Performance',
+    parameters: [
+      { name: 'postId', label: 'Post ID', type: 'number', required: true },
+    ],
+    instruction: 'Analyze SEO for post ID {{postId}} and list concrete improvements for title, meta description, headings and links.',
+  },
+  {
+    id: 'health-check',
+    name: 'Site health check',
+    description: 'Check site health, updates and security warnings',
+    category: 'Security & Maintenance',
+    parameters: [
+      { name: 'includeBackup', label: 'Create a backup first', type: 'boolean', default: false },
+    ],
+    instruction: 'Check site health and show me any warnings, outdated plugins or themes and security issues. Create a full backup first: {{includeBackup}}.',
+  },
+  {
+    id: 'plugin-cleanup',
+    name: 'Plugin cleanup',
+    description: 'Review installed plugins and deactivate unused ones',
+    category: 'Plugin & Theme Management',
+    parameters: [
+      { name: 'keep', label: 'Plugins to keep', type: 'list', description: 'One plugin per line' },
+    ],
+    instruction: 'List all installed plugins and deactivate the inactive or unused ones, except: {{keep}}.',
+  },
+].map(template => ({ ...template, builtIn: true } as TaskTemplate));
+
+/**
+ * Check whether templates are enabled: config, then WP_AGENT_ENABLE_TEMPLATES
+ */
+export function isTemplatesEnabled(config: WpAgentConfig = {}): boolean {
+  return config.enableTemplates ?? process.env.WP_AGENT_ENABLE_TEMPLATES === 'true';
+}
+
+/**
+ * Find parameter placeholders in an instruction
+ */
+export function extractTemplatePlaceholders(instruction: string): string[] {
+  return Array.from(new Set(Array.from(instruction.matchAll(/\{\{\s*(\w+)\s*\}\}/g), match => match[1])));
+}
+
+/**
+ * Coerce and validate one input value against its parameter definition
+ */
+function coerceParameter(
+  parameter: TemplateParameter,
+  raw: TemplateInputs[string] | null
+): { value?: string | number | boolean | string[]; error?: string } {
+  const value = raw === undefined || raw === null || raw === '' ? parameter.default : raw;
+
+  if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+    return parameter.required ? { error: `${parameter.label} is required` } : {};
+  }
+
+  switch (parameter.type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(value);
+      return Number.isFinite(number) ? { value: number } : { error: `${parameter.label} must be a number` };
+    }
+    case 'boolean':
+      return { value: value === true || value === 'true' };
+    case 'select':
+      return parameter.options && !parameter.options.includes(String(value))
+        ? { error: `${parameter.label} must be one of: ${parameter.options.join(', ')}` }
+        : { value: String(value) };
+    case 'list': {
+      const items = Array.isArray(value)
+        ? value
+        : String(value).split('\n');
+      const cleaned = items.map(item => String(item ?? '').trim()).filter(Boolean);
+      return cleaned.length === 0 && parameter.required
+        ? { error: `${parameter.label} is required` }
+        : { value: cleaned };
+    }
+    default:
+      return { value: String(value).trim() };
+  }
+}
+
+/**
+ * Format a value for the rendered instruction
+ */
+function formatValue(value: string | number | boolean | string[] | undefined): string {
+  if (value === undefined) return 'not specified';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  return String(value);
+}
+
+/**
+ * Expand a template with inputs into a structured instruction for the agent.
+ * Inputs come from request bodies, so missing or malformed values become validation errors.
+ */
+export function expandTemplate(
+  template: TaskTemplate,
+  inputs: TemplateInputs | null = {}
+): { instruction?: string; values: TemplateInputs; errors: string[] } {
+  const values: TemplateInputs = {};
+  const errors: string[] = [];
+  const provided: Record<string, any> = inputs && typeof inputs === 'object' ? inputs : {};
+
+  for (const parameter of template.parameters) {
+    const result = coerceParameter(parameter, provided[parameter.name]);
+    if (result.error) {
+      errors.push(result.error);
+    } else {
+      values[parameter.name] = result.value;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { values, errors };
+  }
+
+  const rendered = template.instruction.replace(
+    /\{\{\s*(\w+)\s*\}\}/g,
+    (_match, name: string) => formatValue(values[name])
+  );
+
+  const sections = [
+    `Task template: ${template.name}`,
+    `Inputs:\n${template.parameters.map(parameter => `- ${parameter.label}: ${formatValue(values[parameter.name])}`).join('\n')}`,
+    `Instruction:\n${rendered}`,
+  ];
+
+  if (template.steps && template.steps.length > 0) {
+    sections.push(`Steps:\n${template.steps.map((step, index) => `${index + 1}. ${step}`).join('\n')}`);
+  }
+
+  sections.push('Skip any input marked "not specified" and report the result of every step.');
+
+  return { instruction: sections.join('\n\n'), values, errors };
+}
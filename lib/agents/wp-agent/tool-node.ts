@@ -0,0 +1,234 @@
+/**
+ * wpAgent Tool Node
+ * ToolNode that pauses the graph for human approval before high-risk tool calls
+ * and, in dry-run mode, records write calls as plan steps instead of running them.
+ * Update/delete calls are snapshotted first and recorded in the change journal.
+ * Once the user cancels the run, calls that have not started are skipped.
+ */
+
+import { AIMessage, HumanMessage, ToolMessage } from '@langchain/core/messages';
+import type { RunnableConfig } from '@langchain/core/runnables';
+import { interrupt } from '@langchain/langgraph';
+import { ToolNode } from '@langchain/langgraph/prebuilt';
+import { classifyToolRisk, isWriteTool, requiresApproval } from './tool-risk';
+import { buildInverse, findSnapshotTool, getToolOutputError, isJournaledTool, recordChange, takeSnapshot } from './journal';
+import type { JournalContext, ToolApprovalDecision, ToolApprovalRequest } from './types';
+
+/**
+ * Marker stored on the ToolMessage of a write call that was planned, not executed
+ */
+export const DRY_RUN_ARTIFACT = { dryRun: true } as const;
+
+/**
+ * Marker stored on the ToolMessage of a call skipped because the run was cancelled
+ */
+export const CANCELLED_ARTIFACT = { cancelled: true } as const;
+
+/**
+ * configurable key holding the run's cancellation signal
+ */
+export const CANCEL_SIGNAL_KEY = 'wp_cancel_signal';
+
+interface WpToolNodeOptions {
+  requireApproval?: boolean;
+  dryRun?: boolean;
+  journal?: boolean;
+  journalContext?: JournalContext;
+}
+
+export class WpToolNode extends ToolNode {
+  private readonly requireApproval: boolean;
+  private readonly dryRun: boolean;
+  private readonly journal: boolean;
+  private readonly journalContext: JournalContext;
+
+  constructor(tools: any[], options: WpToolNodeOptions = {}) {
+    super(tools);
+    this.requireApproval = options.requireApproval ?? true;
+    this.dryRun = options.dryRun ?? false;
+    this.journal = options.journal ?? true;
+    this.journalContext = options.journalContext ?? { site: null, userId: null };
+  }
+
+  protected async run(input: any, config: RunnableConfig): Promise<any> {
+    const messages = Array.isArray(input) ? input : input.messages;
+    const message = messages[messages.length - 1] as AIMessage;
+    const toolCalls = message?.tool_calls ?? [];
+
+    // Cancelled before this step started: answer every call without running it
+    const cancelSignal: AbortSignal | undefined = config.configurable?.[CANCEL_SIGNAL_KEY];
+    if (cancelSignal?.aborted) {
+      const skipped = toolCalls.map(call => new ToolMessage({
+        name: call.name,
+        tool_call_id: call.id ?? '',
+        content: 'Cancelled by the user before it ran. It was not executed.',
+        artifact: CANCELLED_ARTIFACT,
+      }));
+      return Array.isArray(input) ? skipped : { messages: skipped };
+    }
+
+    // Dry run: reads execute, writes become plan steps (no approval needed for either)
+    if (this.dryRun) {
+      const planned = toolCalls
+        .filter(call => isWriteTool(call.name))
+        .map(call => new ToolMessage({
+          name: call.name,
+          tool_call_id: call.id ?? '',
+          content: 'Planned (dry run): recorded in the plan and not executed.',
+          artifact: DRY_RUN_ARTIFACT,
+        }));
+
+      if (planned.length > 0) {
+        const readCalls = toolCalls.filter(call => !isWriteTool(call.name));
+        return this.runSubset(input, readCalls, planned, config);
+      }
+    }
+
+    const riskyCalls = this.requireApproval
+      ? toolCalls.filter(call => requiresApproval(call.name))
+      : [];
+
+    if (riskyCalls.length === 0) {
+      return this.runTools(input, config);
+    }
+
+    // Pause before any tool runs so nothing executes twice when the graph resumes
+    const decision = interrupt<ToolApprovalRequest, ToolApprovalDecision>({
+      type: 'approval_required',
+      toolCalls: riskyCalls.map(call => ({
+        id: call.id ?? '',
+        name: call.name,
+        args: call.args,
+        risk: classifyToolRisk(call.name),
+      })),
+    });
+
+    const rejectedIds = new Set(
+      riskyCalls
+        .filter(call => !isApproved(decision, call.id))
+        .map(call => call.id)
+    );
+
+    if (rejectedIds.size === 0) {
+      return this.runTools(input, config);
+    }
+
+    const rejections = toolCalls
+      .filter(call => rejectedIds.has(call.id))
+      .map(call => new ToolMessage({
+        name: call.name,
+        tool_call_id: call.id ?? '',
+        content: `The user rejected this operation${decision?.reason ? `: ${decision.reason}` : ''}. It was not executed. Do not retry it without asking the user first.`,
+      }));
+
+    const allowedCalls = toolCalls.filter(call => !rejectedIds.has(call.id));
+    return this.runSubset(input, allowedCalls, rejections, config);
+  }
+
+  /**
+   * Run only some of the last message's tool calls, appending results for the others
+   */
+  private async runSubset(
+    input: any,
+    allowedCalls: NonNullable<AIMessage['tool_calls']>,
+    otherResults: ToolMessage[],
+    config: RunnableConfig
+  ): Promise<any> {
+    const messages = Array.isArray(input) ? input : input.messages;
+    const message = messages[messages.length - 1] as AIMessage;
+
+    if (allowedCalls.length === 0) {
+      return Array.isArray(input) ? otherResults : { messages: otherResults };
+    }
+
+    const allowedMessage = new AIMessage({
+      id: message.id,
+      content: message.content,
+      tool_calls: allowedCalls,
+    });
+    const allowedInput = Array.isArray(input)
+      ? [...messages.slice(0, -1), allowedMessage]
+      : { ...input, messages: [...messages.slice(0, -1), allowedMessage] };
+
+    const output = await this.runTools(allowedInput, config);
+
+    // Command outputs come back as a list of updates
+    if (Array.isArray(output) && !Array.isArray(input)) {
+      return [...output, { messages: otherResults }];
+    }
+    return Array.isArray(output)
+      ? [...output, ...otherResults]
+      : { ...output, messages: [...output.messages, ...otherResults] };
+  }
+
+  /**
+   * Run the last message's tool calls, journaling update/delete calls that succeed
+   */
+  private async runTools(input: any, config: RunnableConfig): Promise<any> {
+    const messages = Array.isArray(input) ? input : input.messages;
+    const threadId = config.configurable?.thread_id;
+    const journaledCalls = this.journal && threadId
+      ? ((messages[messages.length - 1] as AIMessage)?.tool_calls ?? []).filter(call => isJournaledTool(call.name))
+      : [];
+
+    if (journaledCalls.length === 0) {
+      return super.run(input, config);
+    }
+
+    // Snapshot the affected records through their read tools before anything changes
+    const snapshots = new Map<string, any>();
+    await Promise.all(journaledCalls.map(async call => {
+      const readTool: any = findSnapshotTool(call.name, this.tools as any[]);
+      if (!readTool) return;
+      try {
+        snapshots.set(call.id ?? '', await takeSnapshot(readTool, call.args, config));
+      } catch (error) {
+        console.warn(`⚠️ Could not snapshot before ${call.name}:`, error);
+      }
+    }));
+
+    const output = await super.run(input, config);
+
+    // The turn is identified by the human message that started it (stable across approval resumes)
+    const turnMessage = [...messages].reverse().find(message => message instanceof HumanMessage || message?._getType?.() === 'human');
+    const turnId = turnMessage?.id ?? threadId;
+
+    const results: ToolMessage[] = (Array.isArray(output) ? output : output.messages)
+      .filter((message: any) => message instanceof ToolMessage);
+
+    for (const call of journaledCalls) {
+      const result = results.find(message => message.tool_call_id === call.id);
+      if (!result || result.status === 'error' || getToolOutputError(result.content)) continue;
+
+      const snapshot = snapshots.get(call.id ?? '');
+      const entry = await recordChange({
+        threadId,
+        ...this.journalContext,
+        turnId,
+        toolCallId: call.id ?? '',
+        toolName: call.name,
+        args: call.args,
+        snapshot,
+        inverse: buildInverse(call.name, call.args, snapshot, this.tools as any[]),
+      });
+
+      // Surface the journal entry on the result so the UI can offer undo
+      if (entry) {
+        result.artifact = { ...(result.artifact || {}), journalEntryId: entry.id, undoable: !!entry.inverse };
+      }
+    }
+
+    return output;
+  }
+}
+
+/**
+ * Resolve a decision for one tool call (per-call decisions override the batch decision)
+ */
+function isApproved(decision: ToolApprovalDecision | undefined, toolCallId?: string): boolean {
+  if (!decision) return false;
+  if (toolCallId && decision.toolCalls && toolCallId in decision.toolCalls) {
+    return decision.toolCalls[toolCallId];
+  }
+  return decision.approved === true;
+}
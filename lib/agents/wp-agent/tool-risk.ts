@@ -0,0 +1,112 @@
+/**
+ * wpAgent Tool Risk Classification
+ * Classifies MCP tool names by how much damage an unreviewed call could do.
+ * Default-deny: only known read tools are low risk
+ */
+
+import type { ToolRiskLevel } from './types';
+
+/**
+ * Verbs of tools that only read. A tool is low risk only when its name starts with one of
+ * these (after the server and plugin namespace); everything else is treated as a write.
+ */
+const READ_VERBS = new Set([
+  'get', 'list', 'search', 'find', 'read', 'view', 'show', 'fetch', 'describe',
+  'count', 'check', 'scan', 'analyze', 'audit', 'inspect', 'validate', 'verify', 'preview', 'compare',
+]);
+
+// A later verb makes it a write, e.g. search_replace or check_and_fix
+const EMBEDDED_WRITE_PATTERN = /_(and|then|replace|fix|apply|save|set|add|create|update|delete|remove|write|execute|run|import)(_|$)/;
+
+/**
+ * Read-only tools whose names do not start with a read verb
+ */
+const READ_TOOLS = new Set(['web_search', 'tavily_search', 'tavily_extract']);
+
+/**
+ * Two-word read tools such as site_info or cache_status
+ */
+const READ_NOUN_PATTERN = /^[a-z]+_(info|status|stats|health)$/;
+
+// <server>__ from additional MCP servers, then wordpress_/wp_/woocommerce_/wc_ in any combination
+const NAMESPACE_PATTERN = /^(?:[a-z0-9-]+__)?(?:(?:wordpress|wp|woocommerce|woo|wc)_)*/;
+
+/**
+ * Irreversible, site-breaking or privilege-changing operations - always require approval
+ */
+const HIGH_RISK_PATTERNS: RegExp[] = [
+  /_delete/,
+  /_remove/,
+  /_deactivate/,
+  /_uninstall/,
+  /_drop/,
+  /_truncate/,
+  /_reset/,
+  /_purge/,
+  /_empty_trash/,
+  /_restore/,
+  /_revoke/,
+  /_switch_theme/,
+  /_activate_theme/,
+  /_(execute|run)_/,
+  /_sql/,
+  /_write_/,
+  /_(edit|move|copy|rename)_file/,
+  /_(import|migrate|clone)/,
+  /_staging/,
+  /_(cleanup|optimize|repair)_/,
+  /_database/,
+  /_role/,
+  /_capabilit/,
+  /_update_user/,
+  /_password/,
+  /_maintenance/,
+  /_unschedule/,
+  /_set_/,
+  /_(search_)?replace/,
+];
+
+function stripNamespace(toolName: string): string {
+  return toolName.toLowerCase().replace(NAMESPACE_PATTERN, '');
+}
+
+/**
+ * Check whether a tool only reads (the explicit allowlist above)
+ */
+export function isReadTool(toolName: string): boolean {
+  const name = stripNamespace(toolName);
+  return READ_TOOLS.has(name)
+    || (READ_VERBS.has(name.split('_')[0]) && !EMBEDDED_WRITE_PATTERN.test(name))
+    || READ_NOUN_PATTERN.test(name);
+}
+
+/**
+ * Classify a tool by name. Unknown tools are never low risk.
+ */
+export function classifyToolRisk(toolName: string): ToolRiskLevel {
+  if (isReadTool(toolName)) {
+    return 'low';
+  }
+
+  // Match the verb position too, so unprefixed names like delete_post are caught
+  const name = `_${stripNamespace(toolName)}`;
+  if (HIGH_RISK_PATTERNS.some(pattern => pattern.test(name))) {
+    return 'high';
+  }
+
+  return 'medium';
+}
+
+/**
+ * Check whether a tool call must be approved before it runs
+ */
+export function requiresApproval(toolName: string): boolean {
+  return classifyToolRisk(toolName) === 'high';
+}
+
+/**
+ * Check whether a tool writes to the site (intercepted in dry-run mode): anything not known to be a read
+ */
+export function isWriteTool(toolName: string): boolean {
+  return !isReadTool(toolName);
+}
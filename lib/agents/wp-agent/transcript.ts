@@ -0,0 +1,79 @@
+/**
+ * wpAgent Run Transcripts
+ * Folds a run's stream events into a single result for API clients that poll instead of streaming
+ */
+
+import type { StreamEvent } from '@/lib/stream-events';
+import type { AgentRunSummary, RunTranscript } from './types';
+
+/**
+ * Build the transcript of a run from its events (in seq order)
+ */
+export function buildRunTranscript(run: AgentRunSummary, events: StreamEvent[]): RunTranscript {
+  const transcript: RunTranscript = {
+    run,
+    text: '',
+    toolCalls: [],
+    errors: [],
+    usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0 },
+  };
+  const toolCalls = new Map<string, RunTranscript['toolCalls'][number]>();
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'token':
+        transcript.text += event.content;
+        break;
+
+      case 'tool_call': {
+        const call = { id: event.id, name: event.name, args: event.args, site: event.site };
+        toolCalls.set(event.id, call);
+        transcript.toolCalls.push(call);
+        break;
+      }
+
+      case 'tool_result': {
+        const call = toolCalls.get(event.id);
+        if (call) {
+          call.result = event.content;
+          call.isError = event.isError;
+        }
+        break;
+      }
+
+      case 'plan_step': {
+        const call = toolCalls.get(event.id);
+        if (call) call.planned = true;
+        break;
+      }
+
+      case 'approval_required':
+        transcript.approvalRequired = event.toolCalls.map(call => ({ id: call.id, name: call.name, args: call.args }));
+        break;
+
+      case 'cancelled':
+        transcript.cancelled = {
+          completed: [...(transcript.cancelled?.completed ?? []), ...event.completed],
+          skipped: [...(transcript.cancelled?.skipped ?? []), ...event.skipped],
+        };
+        break;
+
+      case 'usage':
+        transcript.usage.inputTokens += event.input_tokens;
+        transcript.usage.outputTokens += event.output_tokens;
+        transcript.usage.totalTokens += event.total_tokens;
+        transcript.usage.costUsd += event.cost_usd ?? 0;
+        break;
+
+      case 'quota_exceeded':
+        transcript.errors.push(event.message);
+        break;
+
+      case 'error':
+        transcript.errors.push(event.site ? `${event.site}: ${event.content}` : event.content);
+        break;
+    }
+  }
+
+  return transcript;
+}
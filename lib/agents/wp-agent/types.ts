@@ -3,6 +3,8 @@
  * TypeScript types for WordPress site management and agent configuration
  */
 
+import type { MCPServerConfig, MCPTransport } from '@/lib/mcp-client-manager';
+
 // Local SubAgent interface
 export interface SubAgent {
   name: string;
@@ -75,10 +77,19 @@ export interface WordPressPlugin {
   description?: string;
 }
 
+export type CheckpointerBackend = 'memory' | 'file' | 'postgres';
+
+export type ModelProvider = 'anthropic' | 'openai' | 'ollama';
+
 export interface WpAgentConfig {
   anthropicApiKey?: string;
+  openaiApiKey?: string;
   tavilyApiKey?: string;
+  provider?: ModelProvider;
   model?: string;
+  modelBaseUrl?: string;
+  temperature?: number;
+  maxTokens?: number;
   enableWebSearch?: boolean;
   enableTemplates?: boolean;
   enableSubAgents?: boolean;
@@ -87,8 +98,228 @@ export interface WpAgentConfig {
   wordpressUrl?: string;
   wordpressUsername?: string;
   wordpressAppPassword?: string;
+  wordpressMcpTransport?: MCPTransport;
+  wordpressMcpUrl?: string;
+  mcpServers?: MCPServerConfig[];
+  checkpointer?: CheckpointerBackend;
+  checkpointDir?: string;
+  requireApproval?: boolean;
+  dryRun?: boolean;
+  enableJournal?: boolean;
+  enableCapabilityFilter?: boolean;
+  userId?: string; // Signed-in user the agent acts for, recorded on journal entries
+}
+
+/**
+ * Who the agent is talking to, for the system prompt
+ */
+export interface SiteContext {
+  name?: string;
+  description?: string;
+  url: string;
+  timezone?: string;
+  activeTheme?: string;
+}
+
+/**
+ * What the connected site and user can do, detected from the REST API
+ */
+export interface SiteCapabilities {
+  site?: SiteContext;
+  namespaces: string[];
+  plugins: string[]; // Active plugin slugs; empty when the user cannot list plugins
+  roles: string[];
+  capabilities: string[];
+  detectedAt: string;
+}
+
+export type ToolRiskLevel = 'low' | 'medium' | 'high';
+
+export interface PendingToolCall {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+  risk: ToolRiskLevel;
+}
+
+export interface ToolApprovalRequest {
+  type: 'approval_required';
+  toolCalls: PendingToolCall[];
+}
+
+export interface ToolApprovalDecision {
+  approved: boolean;
+  toolCalls?: Record<string, boolean>;
+  reason?: string;
+}
+
+export type PlanStep = PendingToolCall;
+
+/**
+ * One step of a fixed tool plan, run directly without the model
+ */
+export interface ToolPlanStep {
+  tool: string;
+  args?: Record<string, any>;
+}
+
+export interface FanOutSite {
+  id: string;
+  name: string;
+  config: WpAgentConfig;
+}
+
+export type FanOutSiteStatus = 'completed' | 'failed' | 'approval_required' | 'planned' | 'cancelled';
+
+export interface FanOutSiteResult {
+  siteId: string;
+  name: string;
+  status: FanOutSiteStatus;
+  toolCalls: number;
+  errors: string[];
+  summary: string;
+}
+
+export interface PlanExecutionResult {
+  executed: string[];
+  failed: string[];
+  skipped: string[];
+}
+
+export type JournalStatus = 'APPLIED' | 'UNDONE' | 'UNDO_FAILED';
+
+export interface JournalInverse {
+  tool: string;
+  args: Record<string, any>;
+}
+
+export interface ChangeJournalEntry {
+  id: string;
+  threadId: string;
+  site: string | null; // Site the change was made on (see getJournalSite); undo only runs there
+  userId: string | null;
+  turnId: string;
+  toolCallId: string;
+  toolName: string;
+  args: Record<string, any>;
+  snapshot?: any;
+  inverse?: JournalInverse | null;
+  status: JournalStatus;
+  createdAt: Date;
+  undoneAt?: Date | null;
+}
+
+/**
+ * Where journaled changes are made, and for whom
+ */
+export interface JournalContext {
+  site: string | null;
+  userId: string | null;
+}
+
+export interface UndoResult {
+  undone: string[];
+  failed: { id: string; error: string }[];
 }
 
+export type AgentRunStatus = 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export type CancelRunResult =
+  | 'cancelling'
+  | 'finished' // Already done; nothing to cancel
+  | 'not_found'
+  | 'unavailable'; // Running, but in another server process
+
+export interface AgentRunSummary {
+  id: string;
+  threadId: string;
+  userId?: string | null;
+  status: AgentRunStatus;
+  lastSeq: number; // Sequence number of the newest event
+  createdAt: Date;
+  finishedAt?: Date | null;
+}
+
+/**
+ * A finished or running run, reduced to what an API client needs
+ */
+export interface RunTranscript {
+  run: AgentRunSummary;
+  text: string; // Assistant text, in order
+  toolCalls: {
+    id: string;
+    name: string;
+    args: any;
+    result?: string;
+    isError?: boolean;
+    planned?: boolean; // Recorded in a dry-run plan instead of executed
+    site?: string;
+  }[];
+  approvalRequired?: { id: string; name: string; args: any }[]; // Calls the run paused on
+  cancelled?: { completed: { id: string; name: string }[]; skipped: { id: string; name: string }[] };
+  errors: string[];
+  usage: TokenUsage;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number; // 0 for models without a known price
+}
+
+/**
+ * Where a model call happened, stored with its UsageRecord
+ */
+export interface UsageContext {
+  runId: string;
+  threadId: string;
+  siteId?: string;
+  site?: string; // Display name, e.g. the site's host
+}
+
+export interface UsageDay {
+  date: string; // YYYY-MM-DD (UTC)
+  costUsd: number;
+  totalTokens: number;
+  sites: Record<string, number>; // Cost by site
+  threads: Record<string, number>; // Cost by thread ID
+}
+
+export interface UsageReport {
+  from: Date;
+  to: Date;
+  totals: TokenUsage & { calls: number };
+  daily: UsageDay[];
+  sites: { site: string; costUsd: number; totalTokens: number }[];
+  threads: { threadId: string; site?: string; costUsd: number; totalTokens: number; calls: number; lastUsedAt: Date }[];
+}
+
+export type TemplateParameterType = 'string' | 'text' | 'number' | 'boolean' | 'select' | 'list';
+
+export interface TemplateParameter {
+  name: string;
+  label: string;
+  type: TemplateParameterType;
+  required?: boolean;
+  default?: string | number | boolean | string[];
+  options?: string[];
+  description?: string;
+}
+
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  parameters: TemplateParameter[];
+  instruction: string; // Uses {{parameter}} placeholders
+  steps?: string[];
+  builtIn?: boolean;
+}
+
+export type TemplateInputs = Record<string, string | number | boolean | string[] | undefined>;
+
 export interface WordPressOperationRequest {
   action: 'create' | 'update' | 'delete' | 'read' | 'list';
   type: 'post' | 'page' | 'media' | 'user' | 'theme' | 'plugin' | 'menu' | 'category' | 'tag';
@@ -0,0 +1,176 @@
+/**
+ * wpAgent Usage Accounting
+ * Prices the token usage of each model call and records it as an AI_TOKENS UsageRecord,
+ * attributed to the run, thread and site it came from
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { TokenUsage, UsageContext, UsageDay, UsageReport } from './types';
+
+/**
+ * USD per million input/output tokens, matched by model name prefix (longest match wins).
+ * Extend or override with WP_AGENT_MODEL_PRICING, e.g. {"my-model": [0.5, 1.5]}.
+ */
+const MODEL_PRICING: Record<string, [number, number]> = {
+  'claude-opus-4': [15, 75],
+  'claude-sonnet-4': [3, 15],
+  'claude-3-7-sonnet': [3, 15],
+  'claude-3-5-sonnet': [3, 15],
+  'claude-3-5-haiku': [0.8, 4],
+  'claude-3-haiku': [0.25, 1.25],
+  'gpt-4.1': [2, 8],
+  'gpt-4.1-mini': [0.4, 1.6],
+  'gpt-4.1-nano': [0.1, 0.4],
+  'gpt-4o': [2.5, 10],
+  'gpt-4o-mini': [0.15, 0.6],
+  'o3': [2, 8],
+  'o4-mini': [1.1, 4.4],
+};
+
+/**
+ * Longest window the usage report covers
+ */
+export const MAX_USAGE_REPORT_DAYS = 90;
+
+// Threads listed individually in the report; the rest only count toward totals
+const REPORT_THREAD_LIMIT = 50;
+
+const UNKNOWN_SITE = 'Unknown site';
+
+function loadPricing(): Record<string, [number, number]> {
+  const overrides = process.env.WP_AGENT_MODEL_PRICING;
+  if (!overrides) return MODEL_PRICING;
+
+  try {
+    return { ...MODEL_PRICING, ...JSON.parse(overrides) };
+  } catch (error) {
+    console.warn('⚠️ Ignoring invalid WP_AGENT_MODEL_PRICING:', error);
+    return MODEL_PRICING;
+  }
+}
+
+const pricing = loadPricing();
+
+/**
+ * Cost of one model call in USD, or undefined when the model has no known price
+ */
+export function priceModelUsage(model: string | undefined, inputTokens: number, outputTokens: number): number | undefined {
+  if (!model) return undefined;
+
+  const match = Object.keys(pricing)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!match) return undefined;
+
+  const [inputPrice, outputPrice] = pricing[match];
+  return (inputTokens * inputPrice + outputTokens * outputPrice) / 1_000_000;
+}
+
+/**
+ * Display name for a site URL: its host, or the URL itself when it does not parse
+ */
+export function getSiteLabel(url?: string): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Store one model call's usage for a user
+ */
+export async function recordTokenUsage(
+  userId: string,
+  usage: TokenUsage & { model?: string; agent?: string },
+  context: UsageContext
+): Promise<void> {
+  try {
+    await prisma.usageRecord.create({
+      data: {
+        userId,
+        type: 'AI_TOKENS',
+        count: usage.totalTokens,
+        metadata: {
+          ...context,
+          model: usage.model,
+          agent: usage.agent,
+          inputTokens: usage.inputTokens,
+          outputTokens: usage.outputTokens,
+          costUsd: usage.costUsd,
+        },
+      },
+    });
+  } catch (error) {
+    // Accounting must never break a run
+    console.error(`⚠️ Failed to record token usage for run ${context.runId}:`, error);
+  }
+}
+
+/**
+ * Daily token spend for a user, broken down by site and thread
+ */
+export async function getUsageReport(userId: string, options: { days?: number } = {}): Promise<UsageReport> {
+  const days = Math.min(Math.max(options.days ?? 30, 1), MAX_USAGE_REPORT_DAYS);
+  const to = new Date();
+  const from = new Date(Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate() - (days - 1)));
+
+  const records = await prisma.usageRecord.findMany({
+    where: { userId, type: 'AI_TOKENS', createdAt: { gte: from } },
+    orderBy: { createdAt: 'asc' },
+    select: { count: true, metadata: true, createdAt: true },
+  });
+
+  const daily = new Map<string, UsageDay>();
+  for (let offset = 0; offset < days; offset++) {
+    const date = new Date(from.getTime() + offset * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    daily.set(date, { date, costUsd: 0, totalTokens: 0, sites: {}, threads: {} });
+  }
+
+  const totals = { inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0, calls: 0 };
+  const sites = new Map<string, { site: string; costUsd: number; totalTokens: number }>();
+  const threads = new Map<string, UsageReport['threads'][number]>();
+
+  for (const record of records as any[]) {
+    const metadata = record.metadata ?? {};
+    const costUsd = Number(metadata.costUsd) || 0;
+    const site = metadata.site || UNKNOWN_SITE;
+    const threadId = metadata.threadId || 'unknown';
+
+    totals.inputTokens += Number(metadata.inputTokens) || 0;
+    totals.outputTokens += Number(metadata.outputTokens) || 0;
+    totals.totalTokens += record.count;
+    totals.costUsd += costUsd;
+    totals.calls++;
+
+    const day = daily.get(record.createdAt.toISOString().slice(0, 10));
+    if (day) {
+      day.costUsd += costUsd;
+      day.totalTokens += record.count;
+      day.sites[site] = (day.sites[site] ?? 0) + costUsd;
+      day.threads[threadId] = (day.threads[threadId] ?? 0) + costUsd;
+    }
+
+    const siteTotal = sites.get(site) ?? { site, costUsd: 0, totalTokens: 0 };
+    siteTotal.costUsd += costUsd;
+    siteTotal.totalTokens += record.count;
+    sites.set(site, siteTotal);
+
+    const threadTotal = threads.get(threadId) ?? { threadId, site: metadata.site, costUsd: 0, totalTokens: 0, calls: 0, lastUsedAt: record.createdAt };
+    threadTotal.costUsd += costUsd;
+    threadTotal.totalTokens += record.count;
+    threadTotal.calls++;
+    threadTotal.lastUsedAt = record.createdAt;
+    threads.set(threadId, threadTotal);
+  }
+
+  return {
+    from,
+    to,
+    totals,
+    daily: [...daily.values()],
+    sites: [...sites.values()].sort((a, b) => b.costUsd - a.costUsd),
+    threads: [...threads.values()].sort((a, b) => b.costUsd - a.costUsd).slice(0, REPORT_THREAD_LIMIT),
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * Personal API Keys
+ * Scoped keys for the /api/v1 REST API, so scripts and CI can drive the agent without the chat UI.
+ * Only a SHA-256 hash of each key is stored; the key itself is returned once, when it is created.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+
+export const API_KEY_SCOPES = ['runs:read', 'runs:write'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+/**
+ * API key as listed to its owner (never includes the key or its hash)
+ */
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  createdAt: Date;
+  lastUsed?: Date | null;
+  expiresAt?: Date | null;
+}
+
+export interface ApiKeyAuth {
+  userId: string;
+  keyId: string;
+  scopes: ApiKeyScope[];
+}
+
+// Keys look like wpa_<43 base64url characters>
+const KEY_PREFIX = 'wpa_';
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+
+export const MAX_API_KEYS_PER_USER = 20;
+
+/**
+ * Longest expiry a key can be created with
+ */
+export const MAX_API_KEY_EXPIRY_DAYS = 365;
+
+// lastUsed is written at most this often per key
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function toSummary(record: any): ApiKeySummary {
+  return {
+    id: record.id,
+    name: record.name,
+    prefix: record.prefix,
+    scopes: record.scopes,
+    createdAt: record.createdAt,
+    lastUsed: record.lastUsed,
+    expiresAt: record.expiresAt,
+  };
+}
+
+/**
+ * Validate create input, returning an error message if invalid
+ */
+export function validateApiKeyInput(input: any): string | null {
+  if (typeof input?.name !== 'string' || !input.name.trim() || input.name.length > 100) {
+    return 'name is required (up to 100 characters)';
+  }
+  if (!Array.isArray(input.scopes) || input.scopes.length === 0 || input.scopes.some((scope: any) => !API_KEY_SCOPES.includes(scope))) {
+    return `scopes must be a non-empty list of: ${API_KEY_SCOPES.join(', ')}`;
+  }
+  if (input.expires_in_days !== undefined && input.expires_in_days !== null) {
+    const days = Number(input.expires_in_days);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_API_KEY_EXPIRY_DAYS) {
+      return `expires_in_days must be between 1 and ${MAX_API_KEY_EXPIRY_DAYS}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Mint a key for a user. The returned key is not stored and cannot be shown again.
+ */
+export async function createApiKey(
+  userId: string,
+  input: { name: string; scopes: ApiKeyScope[]; expiresInDays?: number | null }
+): Promise<{ key: string; apiKey: ApiKeySummary } | { error: string }> {
+  const active = await prisma.apiKey.count({ where: { userId, revokedAt: null } });
+  if (active >= MAX_API_KEYS_PER_USER) {
+    return { error: `You can have up to ${MAX_API_KEYS_PER_USER} API keys. Revoke one first.` };
+  }
+
+  const key = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const record = await prisma.apiKey.create({
+    data: {
+      userId,
+      name: input.name.trim(),
+      key: hashApiKey(key),
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: [...new Set(input.scopes)],
+      expiresAt: input.expiresInDays ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000) : null,
+    },
+  });
+
+  console.log(`🔑 Created API key ${record.prefix}… for user ${userId}`);
+  return { key, apiKey: toSummary(record) };
+}
+
+/**
+ * A user's active keys, newest first
+ */
+export async function listApiKeys(userId: string): Promise<ApiKeySummary[]> {
+  const records = await prisma.apiKey.findMany({
+    where: { userId, revokedAt: null },
+    orderBy: { createdAt: 'desc' },
+  });
+  return records.map(toSummary);
+}
+
+/**
+ * Revoke one of a user's keys; returns false if it was not found
+ */
+export async function revokeApiKey(id: string, userId: string): Promise<boolean> {
+  const { count } = await prisma.apiKey.updateMany({
+    where: { id, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * Authenticate a request by API key (`Authorization: Bearer wpa_...` or `X-API-Key`)
+ * and check it has the scope the endpoint needs
+ */
+export async function authenticateApiKey(
+  request: NextRequest,
+  scope: ApiKeyScope
+): Promise<{ auth?: ApiKeyAuth; error?: string; status?: number }> {
+  const key = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]
+    ?? request.headers.get('x-api-key');
+  if (!key?.startsWith(KEY_PREFIX)) {
+    return { error: 'An API key is required (Authorization: Bearer wpa_...)', status: 401 };
+  }
+
+  const record = await prisma.apiKey.findUnique({ where: { key: hashApiKey(key) } });
+  if (!record || record.revokedAt || (record.expiresAt && record.expiresAt.getTime() < Date.now())) {
+    return { error: 'Invalid, revoked or expired API key', status: 401 };
+  }
+  if (!record.scopes.includes(scope)) {
+    return { error: `This API key lacks the ${scope} scope`, status: 403 };
+  }
+
+  if (!record.lastUsed || Date.now() - record.lastUsed.getTime() > LAST_USED_RESOLUTION_MS) {
+    void prisma.apiKey.update({ where: { id: record.id }, data: { lastUsed: new Date() } })
+      .catch((error: unknown) => console.error('Failed to update API key last use:', error));
+  }
+
+  return { auth: { userId: record.userId, keyId: record.id, scopes: record.scopes } };
+}
+
+/**
+ * A run's REST API endpoints, returned with runs the API lists or starts
+ */
+export function getRunLinks(runId: string) {
+  const base = `/api/v1/agent/runs/${runId}`;
+  return {
+    self: base,
+    stream: `${base}/stream`,
+    transcript: `${base}/transcript`,
+    cancel: `${base}/cancel`,
+    approve: `${base}/approve`,
+  };
+}
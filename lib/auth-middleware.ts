@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
+import type { User } from '@supabase/supabase-js';
 
 export async function createClient(request: NextRequest) {
   let response = NextResponse.next({
@@ -93,4 +94,58 @@ export async function updateSession(request: NextRequest) {
 export async function getUser(request: NextRequest) {
   const { user } = await createClient(request);
   return user;
-}
\ No newline at end of file
+}
+
+// Bearer token from the `Authorization` header, if any
+function getBearerToken(request: NextRequest): string | null {
+  const authorization = request.headers.get('authorization');
+  return authorization?.match(/^Bearer\s+(.+)$/i)?.[1] ?? null;
+}
+
+// Resolve the authenticated user from the session cookie or an `Authorization: Bearer <jwt>` header
+export async function getRequestUser(request: NextRequest) {
+  const { supabase, user } = await createClient(request);
+  if (user) {
+    return user;
+  }
+
+  const token = getBearerToken(request);
+  if (!token) {
+    return null;
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  return error ? null : data.user;
+}
+
+// Unauthenticated agent requests run as guests unless WP_AGENT_ALLOW_GUESTS=false
+export function isGuestAccessEnabled(): boolean {
+  return process.env.WP_AGENT_ALLOW_GUESTS !== 'false';
+}
+
+export type RequestAuth =
+  | { user: User; guest: false }
+  | { user: null; guest: true };
+
+// Verify the Supabase JWT (session cookie or bearer token) of an API request.
+// A request without credentials is a guest; a token that fails verification is rejected,
+// never downgraded to a guest.
+export async function authenticateRequest(
+  request: NextRequest,
+  options: { allowGuests?: boolean } = {}
+): Promise<{ auth?: RequestAuth; error?: string; status?: number }> {
+  const user = await getRequestUser(request);
+  if (user) {
+    return { auth: { user, guest: false } };
+  }
+
+  if (getBearerToken(request)) {
+    return { error: 'Invalid or expired session. Sign in again.', status: 401 };
+  }
+
+  if (!(options.allowGuests ?? isGuestAccessEnabled())) {
+    return { error: 'Sign in to continue', status: 401 };
+  }
+
+  return { auth: { user: null, guest: true } };
+}
@@ -4,10 +4,19 @@
 
 import type { Message } from '@/components/chat/ChatInterface';
 
+export interface ActiveRun {
+  id: string; // Server-side agent run
+  messageId: string; // Assistant message the run streams into
+  baseEvents?: number; // Events the message had before the run, when the run appends to it
+}
+
 export interface StoredChat {
   threadId: string;
   title: string;
   messages: Message[];
+  siteId?: string; // Site profile the thread runs against
+  groupId?: string; // Site group the thread fans out to
+  activeRun?: ActiveRun; // Run still streaming into this chat; reattached when the chat opens
   createdAt: Date;
   updatedAt: Date;
 }
@@ -39,9 +48,9 @@ export function getStoredChats(): StoredChat[] {
 }
 
 /**
- * Save a chat to localStorage
+ * Save a chat to localStorage. The thread keeps the site or group it was first bound to.
  */
-export function saveChat(threadId: string, messages: Message[]): void {
+export function saveChat(threadId: string, messages: Message[], siteId?: string, groupId?: string): void {
   try {
     if (messages.length === 0) return;
 
@@ -58,6 +67,9 @@ export function saveChat(threadId: string, messages: Message[]): void {
       threadId,
       title,
       messages,
+      siteId: existingChatIndex >= 0 ? chats[existingChatIndex].siteId ?? siteId : siteId,
+      groupId: existingChatIndex >= 0 ? chats[existingChatIndex].groupId ?? groupId : groupId,
+      activeRun: existingChatIndex >= 0 ? chats[existingChatIndex].activeRun : undefined,
       createdAt: existingChatIndex >= 0 ? chats[existingChatIndex].createdAt : new Date(),
       updatedAt: new Date(),
     };
@@ -76,6 +88,22 @@ export function saveChat(threadId: string, messages: Message[]): void {
   }
 }
 
+/**
+ * Record (or clear) the agent run streaming into a chat
+ */
+export function setChatActiveRun(threadId: string, run: ActiveRun | null): void {
+  try {
+    const chats = getStoredChats();
+    const chat = chats.find(candidate => candidate.threadId === threadId);
+    if (!chat) return;
+
+    chat.activeRun = run ?? undefined;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(chats));
+  } catch (error) {
+    console.error('Error saving active run to localStorage:', error);
+  }
+}
+
 /**
  * Get a specific chat by thread ID
  */
@@ -0,0 +1,346 @@
+/**
+ * Credential Vault
+ * Stores WordPress and model credentials server-side, encrypted with AES-256-GCM.
+ * The browser only keeps the opaque connection ID.
+ *
+ * Keys come from CREDENTIAL_VAULT_KEYS: comma-separated `version:base64key` pairs,
+ * newest first. Rows encrypted with an older key are re-encrypted on read, so a key
+ * can be retired once rotateVaultKeys() has run.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, randomUUID } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import type { WordPressRequestCredentials } from '@/lib/agent-request';
+import { validateOutboundUrl } from '@/lib/outbound-urls';
+
+/**
+ * Secrets that are only ever stored encrypted
+ */
+interface VaultSecrets {
+  password: string;
+  anthropicApiKey?: string;
+  openaiApiKey?: string;
+  // Server headers may carry tokens, so the whole list is encrypted
+  mcpServers?: WordPressRequestCredentials['mcpServers'];
+}
+
+/**
+ * Non-secret connection settings, returned to the browser
+ */
+export interface VaultConnection {
+  id: string;
+  name: string;
+  url: string;
+  username: string;
+  provider?: WordPressRequestCredentials['provider'];
+  model?: string;
+  baseUrl?: string;
+  mcpTransport?: WordPressRequestCredentials['mcpTransport'];
+  mcpUrl?: string;
+  mcpServerNames: string[];
+  createdAt: Date;
+  updatedAt: Date;
+  lastUsedAt?: Date | null;
+}
+
+export type VaultConnectionInput = WordPressRequestCredentials & { name?: string };
+
+interface VaultKey {
+  version: number;
+  key: Buffer;
+}
+
+const IV_LENGTH = 12;
+
+let cachedKeys: VaultKey[] | null = null;
+
+function getVaultKeys(): VaultKey[] {
+  if (cachedKeys) return cachedKeys;
+
+  const keys = (process.env.CREDENTIAL_VAULT_KEYS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [version, encoded] = entry.split(':');
+      const key = Buffer.from(encoded || '', 'base64');
+      if (!/^\d+$/.test(version) || key.length !== 32) {
+        throw new Error('CREDENTIAL_VAULT_KEYS entries must be version:base64 with a 32-byte key');
+      }
+      return { version: Number(version), key };
+    });
+
+  cachedKeys = keys;
+  return keys;
+}
+
+/**
+ * Check whether the vault has an encryption key configured
+ */
+export function isVaultEnabled(): boolean {
+  try {
+    return getVaultKeys().length > 0;
+  } catch (error) {
+    console.error('Invalid credential vault configuration:', error);
+    return false;
+  }
+}
+
+function getCurrentKey(): VaultKey {
+  const [current] = getVaultKeys();
+  if (!current) {
+    throw new Error('Credential vault is not configured (set CREDENTIAL_VAULT_KEYS)');
+  }
+  return current;
+}
+
+/**
+ * Bind ciphertext to its row and owner so it cannot be copied onto another connection
+ */
+function getAssociatedData(connectionId: string, userId: string): Buffer {
+  return Buffer.from(`${connectionId}:${userId}`);
+}
+
+function encryptSecrets(secrets: VaultSecrets, connectionId: string, userId: string): { ciphertext: string; keyVersion: number } {
+  const { version, key } = getCurrentKey();
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(getAssociatedData(connectionId, userId));
+
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return {
+    ciphertext: [iv, tag, encrypted].map(part => part.toString('base64')).join('.'),
+    keyVersion: version,
+  };
+}
+
+function decryptSecrets(ciphertext: string, keyVersion: number, connectionId: string, userId: string): VaultSecrets {
+  const vaultKey = getVaultKeys().find(candidate => candidate.version === keyVersion);
+  if (!vaultKey) {
+    throw new Error(`Credential vault key version ${keyVersion} is no longer available`);
+  }
+
+  const [iv, tag, encrypted] = ciphertext.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', vaultKey.key, iv);
+  decipher.setAAD(getAssociatedData(connectionId, userId));
+  decipher.setAuthTag(tag);
+
+  const decrypted = Buffer.concat([decipher.update(encrypted), decipher.final()]);
+  return JSON.parse(decrypted.toString('utf8'));
+}
+
+function toSecrets(input: VaultConnectionInput): VaultSecrets {
+  return {
+    password: input.password || '',
+    anthropicApiKey: input.anthropicApiKey || undefined,
+    openaiApiKey: input.openaiApiKey || undefined,
+    mcpServers: input.mcpServers?.length ? input.mcpServers : undefined,
+  };
+}
+
+function toSettings(input: VaultConnectionInput): Record<string, any> {
+  return {
+    provider: input.provider || undefined,
+    model: input.model || undefined,
+    baseUrl: input.baseUrl || undefined,
+    mcpTransport: input.mcpTransport || undefined,
+    mcpUrl: input.mcpUrl || undefined,
+    mcpServerNames: (input.mcpServers || []).map(server => server.name),
+  };
+}
+
+function toConnection(record: any): VaultConnection {
+  const settings = (record.settings as Record<string, any>) || {};
+  return {
+    id: record.id,
+    name: record.name,
+    url: record.url,
+    username: record.username,
+    provider: settings.provider,
+    model: settings.model,
+    baseUrl: settings.baseUrl,
+    mcpTransport: settings.mcpTransport,
+    mcpUrl: settings.mcpUrl,
+    mcpServerNames: settings.mcpServerNames || [],
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    lastUsedAt: record.lastUsedAt,
+  };
+}
+
+/**
+ * Validate a connection before storing it, returning an error message if invalid.
+ * An update may be partial: omitted fields are kept, but any URL it sets is still checked.
+ */
+export function validateConnectionInput(input: VaultConnectionInput, mode: 'create' | 'update' = 'create'): string | null {
+  if (!input || typeof input !== 'object') return 'Connection settings are required';
+  const partial = mode === 'update';
+  if ((!partial || input.url !== undefined) && !input.url?.trim()) return 'WordPress URL is required';
+  if ((!partial || input.username !== undefined) && !input.username?.trim()) return 'WordPress username is required';
+  if (!partial && !input.password?.trim()) return 'Application password is required';
+  if (input.url) {
+    const siteUrlError = validateOutboundUrl(input.url, 'WordPress URL');
+    if (siteUrlError) return siteUrlError;
+  }
+  if (input.baseUrl) {
+    const urlError = validateOutboundUrl(input.baseUrl, 'Model base URL');
+    if (urlError) return urlError;
+  }
+  if (input.mcpUrl) return validateOutboundUrl(input.mcpUrl, 'MCP endpoint URL');
+  return null;
+}
+
+export async function listConnections(userId: string): Promise<VaultConnection[]> {
+  const records = await prisma.siteConnection.findMany({
+    where: { userId, revokedAt: null },
+    orderBy: { createdAt: 'asc' },
+  });
+  return records.map(toConnection);
+}
+
+export async function createConnection(userId: string, input: VaultConnectionInput): Promise<VaultConnection> {
+  const id = randomUUID();
+  const { ciphertext, keyVersion } = encryptSecrets(toSecrets(input), id, userId);
+
+  const record = await prisma.siteConnection.create({
+    data: {
+      id,
+      userId,
+      name: input.name?.trim() || input.url!.trim(),
+      url: input.url!.trim(),
+      username: input.username!.trim(),
+      settings: toSettings(input),
+      ciphertext,
+      keyVersion,
+    },
+  });
+
+  return toConnection(record);
+}
+
+/**
+ * Update a connection. Fields that are omitted keep their stored value, so rotating
+ * an application password only needs the new password; an empty string clears a setting.
+ */
+export async function updateConnection(
+  id: string,
+  userId: string,
+  input: VaultConnectionInput
+): Promise<VaultConnection | null> {
+  const record = await prisma.siteConnection.findFirst({ where: { id, userId, revokedAt: null } });
+  if (!record) return null;
+
+  const current = decryptSecrets(record.ciphertext, record.keyVersion, id, userId);
+  const next: VaultSecrets = {
+    password: input.password || current.password,
+    anthropicApiKey: input.anthropicApiKey ?? current.anthropicApiKey,
+    openaiApiKey: input.openaiApiKey ?? current.openaiApiKey,
+    mcpServers: input.mcpServers ?? current.mcpServers,
+  };
+  const { ciphertext, keyVersion } = encryptSecrets(next, id, userId);
+
+  const settings = (record.settings as Record<string, any>) || {};
+  const keep = <K extends 'provider' | 'model' | 'baseUrl' | 'mcpTransport' | 'mcpUrl'>(key: K): VaultConnectionInput[K] =>
+    input[key] !== undefined ? input[key] : settings[key];
+
+  const updated = await prisma.siteConnection.update({
+    where: { id },
+    data: {
+      name: input.name?.trim() || record.name,
+      url: input.url?.trim() || record.url,
+      username: input.username?.trim() || record.username,
+      settings: toSettings({
+        provider: keep('provider'),
+        model: keep('model'),
+        baseUrl: keep('baseUrl'),
+        mcpTransport: keep('mcpTransport'),
+        mcpUrl: keep('mcpUrl'),
+        mcpServers: next.mcpServers,
+      }),
+      ciphertext,
+      keyVersion,
+    },
+  });
+
+  return toConnection(updated);
+}
+
+/**
+ * Revoke a connection: its ID stops resolving and the encrypted secrets are wiped
+ */
+export async function revokeConnection(id: string, userId: string): Promise<boolean> {
+  const { count } = await prisma.siteConnection.updateMany({
+    where: { id, userId, revokedAt: null },
+    data: { revokedAt: new Date(), ciphertext: '' },
+  });
+  return count > 0;
+}
+
+/**
+ * Resolve a connection ID into request credentials for the agent.
+ * Only the owner can resolve a connection.
+ */
+export async function resolveConnectionCredentials(
+  id: string,
+  userId: string
+): Promise<WordPressRequestCredentials | null> {
+  const record = await prisma.siteConnection.findFirst({ where: { id, userId, revokedAt: null } });
+  if (!record) return null;
+
+  const secrets = decryptSecrets(record.ciphertext, record.keyVersion, id, userId);
+  const settings = (record.settings as Record<string, any>) || {};
+
+  // Re-encrypt with the current key if this row predates a rotation
+  const current = getCurrentKey();
+  const data: Record<string, any> = { lastUsedAt: new Date() };
+  if (record.keyVersion !== current.version) {
+    Object.assign(data, encryptSecrets(secrets, id, userId));
+  }
+  await prisma.siteConnection.update({ where: { id }, data });
+
+  return {
+    url: record.url,
+    username: record.username,
+    password: secrets.password,
+    anthropicApiKey: secrets.anthropicApiKey,
+    openaiApiKey: secrets.openaiApiKey,
+    provider: settings.provider,
+    model: settings.model,
+    baseUrl: settings.baseUrl,
+    mcpTransport: settings.mcpTransport,
+    mcpUrl: settings.mcpUrl,
+    mcpServers: secrets.mcpServers,
+  };
+}
+
+/**
+ * Re-encrypt every active connection still on an older key.
+ * Run after adding a new key to CREDENTIAL_VAULT_KEYS, before removing the old one.
+ */
+export async function rotateVaultKeys(): Promise<{ rotated: number; failed: number }> {
+  const current = getCurrentKey();
+  const records = await prisma.siteConnection.findMany({
+    where: { revokedAt: null, keyVersion: { not: current.version } },
+  });
+
+  let rotated = 0;
+  let failed = 0;
+  for (const record of records) {
+    try {
+      const secrets = decryptSecrets(record.ciphertext, record.keyVersion, record.id, record.userId);
+      await prisma.siteConnection.update({
+        where: { id: record.id },
+        data: encryptSecrets(secrets, record.id, record.userId),
+      });
+      rotated++;
+    } catch (error) {
+      console.error(`Failed to rotate credentials for connection ${record.id}:`, error);
+      failed++;
+    }
+  }
+
+  console.log(`🔑 Rotated ${rotated} vault connections to key version ${current.version}`);
+  return { rotated, failed };
+}
@@ -1,6 +1,16 @@
 const GUEST_MESSAGE_LIMIT_KEY = 'wp_agent_guest_messages';
 const GUEST_MESSAGE_LIMIT = 3;
 
+// Header carrying the device fingerprint; the server enforces the guest limit per device and per IP
+export const DEVICE_FINGERPRINT_HEADER = 'X-Device-Fingerprint';
+
+// Header carrying the guest's random token; the server ties guest threads to its hash
+export const GUEST_TOKEN_HEADER = 'X-Guest-Token';
+
+const GUEST_TOKEN_KEY = 'wp_agent_guest_token';
+
+let deviceFingerprint: Promise<string | null> | null = null;
+
 export function getGuestMessageCount(): number {
   if (typeof window === 'undefined') return 0;
   
@@ -17,6 +27,13 @@ export function incrementGuestMessageCount(): number {
   return newCount;
 }
 
+// Align the local counter with the server, e.g. after it reports the limit was reached
+export function saveGuestMessageCount(count: number): void {
+  if (typeof window === 'undefined') return;
+
+  localStorage.setItem(GUEST_MESSAGE_LIMIT_KEY, count.toString());
+}
+
 export function resetGuestMessageCount(): void {
   if (typeof window === 'undefined') return;
   
@@ -29,4 +46,63 @@ export function hasReachedGuestMessageLimit(): boolean {
 
 export function getGuestMessageLimit(): number {
   return GUEST_MESSAGE_LIMIT;
-}
\ No newline at end of file
+}
+// Hash of stable browser traits, so clearing storage does not reset the guest limit
+export function getDeviceFingerprint(): Promise<string | null> {
+  if (typeof window === 'undefined' || !window.crypto?.subtle) return Promise.resolve(null);
+
+  deviceFingerprint ??= (async () => {
+    try {
+      let canvasData = '';
+      const canvas = document.createElement('canvas');
+      const context = canvas.getContext('2d');
+      if (context) {
+        context.textBaseline = 'top';
+        context.font = '14px Arial';
+        context.fillStyle = '#21759b';
+        context.fillText('wpAgent \u{1F50C}', 2, 2);
+        canvasData = canvas.toDataURL();
+      }
+
+      const traits = [
+        navigator.userAgent,
+        navigator.language,
+        navigator.languages?.join(','),
+        navigator.hardwareConcurrency,
+        (navigator as any).deviceMemory,
+        screen.width,
+        screen.height,
+        screen.colorDepth,
+        Intl.DateTimeFormat().resolvedOptions().timeZone,
+        canvasData,
+      ].join('|');
+
+      const digest = await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(traits));
+      return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+    } catch (error) {
+      console.warn('Failed to compute device fingerprint:', error);
+      return null;
+    }
+  })();
+
+  return deviceFingerprint;
+}
+
+export async function getDeviceFingerprintHeaders(): Promise<Record<string, string>> {
+  const fingerprint = await getDeviceFingerprint();
+  return fingerprint ? { [DEVICE_FINGERPRINT_HEADER]: fingerprint } : {};
+}
+
+// Random per-browser token proving which guest started a thread; kept after sign-in so
+// conversations started as a guest stay reachable
+export function getGuestToken(): string | null {
+  if (typeof window === 'undefined' || !window.crypto?.getRandomValues) return null;
+
+  let token = localStorage.getItem(GUEST_TOKEN_KEY);
+  if (!token) {
+    const bytes = window.crypto.getRandomValues(new Uint8Array(32));
+    token = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+    localStorage.setItem(GUEST_TOKEN_KEY, token);
+  }
+  return token;
+}
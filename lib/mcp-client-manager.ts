@@ -1,24 +1,132 @@
 /**
- * MCP Client Manager - Singleton Pattern
- * Manages WordPress MCP client lifecycle to avoid reinitializing on every request
+ * MCP Client Manager - Singleton Pool
+ * Keeps one WordPress MCP client per site credentials so concurrent users
+ * on different sites never tear down each other's wpmcp process.
+ * Each client is health-checked and respawned with backoff if its process dies.
+ * WordPress can be reached over stdio (wpmcp via npx) or a remote HTTP/SSE endpoint,
+ * and users can add extra MCP servers whose tools are namespaced as <server>__<tool>.
  */
 
+import { createHash } from 'crypto';
 import { MultiServerMCPClient } from "@langchain/mcp-adapters";
 
+type MCPTransport = 'stdio' | 'http' | 'sse';
+
+/**
+ * An additional remote MCP server registered for a site (analytics, hosting panel, ...)
+ */
+interface MCPServerConfig {
+  name: string;
+  url: string;
+  transport?: 'http' | 'sse';
+  headers?: Record<string, string>;
+}
+
 interface MCPClientConfig {
   wordpressUrl: string;
   wordpressUsername: string;
   wordpressPassword: string;
+  // How to reach the WordPress MCP server: spawn wpmcp (stdio, default) or a remote endpoint
+  transport?: MCPTransport;
+  serverUrl?: string; // Sent Basic auth with this site's own application password
+  servers?: MCPServerConfig[];
+}
+
+/**
+ * Load result for one additional server
+ */
+interface MCPServerStatus {
+  name: string;
+  toolCount: number;
+  error: string | null;
+}
+
+type MCPConnectionState = 'idle' | 'connecting' | 'initialized' | 'reconnecting' | 'failed';
+
+interface PoolEntry {
+  key: string;
+  config: MCPClientConfig;
+  client: MultiServerMCPClient | null;
+  // One client per additional server so a failing server cannot take WordPress down
+  serverClients: MultiServerMCPClient[];
+  servers: MCPServerStatus[];
+  connectPromise: Promise<any[]> | null;
+  tools: any[] | null;
+  refCount: number;
+  lastUsed: number;
+  // Replaced by a newer entry after disconnecting mid-run; closed once released
+  retired: boolean;
+  // Closed on purpose; process exit must not trigger a reconnect
+  closed: boolean;
+  // Health
+  state: MCPConnectionState;
+  lastError: string | null;
+  consecutiveFailures: number;
+  circuitOpenUntil: number | null;
+  lastHealthCheck: number | null;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * A client checked out of the pool. Call release() when the run finishes.
+ */
+interface MCPClientLease {
+  key: string;
+  client: MultiServerMCPClient;
+  tools: any[];
+  release: () => void;
+}
+
+/**
+ * Health of one site's MCP client
+ */
+interface MCPClientStatus {
+  state: MCPConnectionState;
+  initialized: boolean;
+  reconnecting: boolean;
+  failed: boolean;
+  lastError: string | null;
+  toolCount: number;
+  consecutiveFailures: number;
+  circuitOpenUntil: string | null;
+  lastHealthCheck: string | null;
+  activeRuns: number;
+  servers: MCPServerStatus[];
+}
+
+const DEFAULT_MAX_POOL_SIZE = 10;
+const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+const HEALTH_CHECK_INTERVAL_MS = 30 * 1000;
+const HEALTH_CHECK_TIMEOUT_MS = 5 * 1000;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30 * 1000;
+// Consecutive failures before the circuit opens, and how long it stays open
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_OPEN_MS = 60 * 1000;
+const WORDPRESS_SERVER = 'wordpress';
+
+/**
+ * Reject if a promise does not settle in time
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
 }
 
 class MCPClientManager {
   private static instance: MCPClientManager;
-  private client: MultiServerMCPClient | null = null;
-  private currentConfig: MCPClientConfig | null = null;
-  private initializationPromise: Promise<MultiServerMCPClient> | null = null;
-  private tools: any[] | null = null;
+  private entries = new Map<string, PoolEntry>();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly maxSize: number;
+  private readonly idleTimeoutMs: number;
 
-  private constructor() {}
+  private constructor() {
+    this.maxSize = Number(process.env.MCP_POOL_MAX_SIZE) || DEFAULT_MAX_POOL_SIZE;
+    this.idleTimeoutMs = Number(process.env.MCP_POOL_IDLE_TIMEOUT_MS) || DEFAULT_IDLE_TIMEOUT_MS;
+  }
 
   /**
    * Get singleton instance
@@ -31,65 +139,180 @@ class MCPClientManager {
   }
 
   /**
-   * Check if configuration has changed
+   * Pool key: one client per site URL, username and connection settings (hashed, so the
+   * password is not kept in the key). Requests with different passwords or servers for the
+   * same site get their own clients instead of replacing each other's.
    */
-  private hasConfigChanged(newConfig: MCPClientConfig): boolean {
-    if (!this.currentConfig) return true;
-    
-    return (
-      this.currentConfig.wordpressUrl !== newConfig.wordpressUrl ||
-      this.currentConfig.wordpressUsername !== newConfig.wordpressUsername ||
-      this.currentConfig.wordpressPassword !== newConfig.wordpressPassword
-    );
+  private getKey(config: MCPClientConfig): string {
+    const url = config.wordpressUrl.trim().replace(/\/+$/, '').toLowerCase();
+    const fingerprint = createHash('sha256').update(this.getFingerprint(config)).digest('hex');
+    return `${url}|${config.wordpressUsername.trim().toLowerCase()}|${fingerprint}`;
   }
 
   /**
-   * Initialize MCP client with configuration
+   * Everything besides the site and username that requires its own client
    */
-  async initialize(config: MCPClientConfig): Promise<MultiServerMCPClient> {
-    // If already initializing with same config, wait for it
-    if (this.initializationPromise && !this.hasConfigChanged(config)) {
-      return this.initializationPromise;
-    }
-
-    // If config changed or no client exists, create new one
-    if (this.hasConfigChanged(config)) {
-      // Close existing client if any
-      if (this.client) {
-        try {
-          await this.client.close();
-        } catch (error) {
-          console.error('Error closing existing MCP client:', error);
-        }
-        this.client = null;
-        this.tools = null;
+  private getFingerprint(config: MCPClientConfig): string {
+    return JSON.stringify([
+      config.wordpressPassword,
+      config.transport ?? 'stdio',
+      config.serverUrl ?? null,
+      config.servers ?? [],
+    ]);
+  }
+
+  /**
+   * Find or create the pool entry for a config.
+   * Synchronous so concurrent requests for the same site share one entry.
+   */
+  private getEntry(config: MCPClientConfig): PoolEntry {
+    const key = this.getKey(config);
+    const existing = this.entries.get(key);
+
+    if (existing) {
+      existing.lastUsed = Date.now();
+      return existing;
+    }
+
+    // Clients for outdated credentials are not replaced here: they age out via idle eviction
+    this.ensureCapacity();
+
+    const entry: PoolEntry = {
+      key,
+      config,
+      client: null,
+      serverClients: [],
+      servers: [],
+      connectPromise: null,
+      tools: null,
+      refCount: 0,
+      lastUsed: Date.now(),
+      retired: false,
+      closed: false,
+      state: 'idle',
+      lastError: null,
+      consecutiveFailures: 0,
+      circuitOpenUntil: null,
+      lastHealthCheck: null,
+      reconnectTimer: null,
+    };
+    this.entries.set(key, entry);
+    this.startSweeper();
+    return entry;
+  }
+
+  /**
+   * Make room for a new entry by evicting the least recently used idle client
+   */
+  private ensureCapacity(): void {
+    if (this.entries.size < this.maxSize) return;
+
+    const idle = Array.from(this.entries.values())
+      .filter(entry => entry.refCount === 0)
+      .sort((a, b) => a.lastUsed - b.lastUsed)[0];
+
+    if (!idle) {
+      throw new Error(`MCP connection pool is full (${this.maxSize} sites in use). Please try again shortly.`);
+    }
+
+    console.log(`♻️ Evicting least recently used MCP client: ${idle.config.wordpressUrl}`);
+    this.entries.delete(idle.key);
+    void this.closeEntry(idle);
+  }
+
+  /**
+   * Periodically evict idle clients and probe the rest
+   */
+  private startSweeper(): void {
+    if (this.sweepTimer) return;
+
+    this.sweepTimer = setInterval(() => {
+      this.evictIdle()
+        .then(() => this.checkHealth())
+        .catch(error => console.error('Error maintaining MCP client pool:', error));
+    }, Math.min(HEALTH_CHECK_INTERVAL_MS, Math.max(this.idleTimeoutMs / 2, 10000)));
+
+    // Never keep the process alive just for the sweeper
+    this.sweepTimer.unref?.();
+  }
+
+  /**
+   * Close idle clients past the idle timeout
+   */
+  async evictIdle(): Promise<void> {
+    const now = Date.now();
+
+    for (const entry of Array.from(this.entries.values())) {
+      if (entry.refCount === 0 && now - entry.lastUsed > this.idleTimeoutMs) {
+        console.log(`💤 Closing idle MCP client: ${entry.config.wordpressUrl}`);
+        this.entries.delete(entry.key);
+        await this.closeEntry(entry);
       }
+    }
 
-      // Create initialization promise
-      this.initializationPromise = this.createClient(config);
-      
-      try {
-        this.client = await this.initializationPromise;
-        this.currentConfig = config;
-        console.log('✅ MCP Client initialized successfully');
-        return this.client;
-      } catch (error) {
-        this.initializationPromise = null;
-        console.error('❌ Failed to initialize MCP client:', error);
-        throw error;
+    if (this.entries.size === 0 && this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  /**
+   * Ping every connected client; a failed ping is treated like a process exit
+   */
+  async checkHealth(): Promise<void> {
+    await Promise.all(
+      Array.from(this.entries.values())
+        .filter(entry => entry.state === 'initialized')
+        .map(entry => this.probe(entry))
+    );
+  }
+
+  /**
+   * Liveness probe for one entry
+   */
+  private async probe(entry: PoolEntry): Promise<boolean> {
+    const client = entry.client;
+    if (!client) return false;
+
+    try {
+      const session = await client.getClient(WORDPRESS_SERVER);
+      if (!session) {
+        throw new Error('MCP session is not connected');
       }
+      await withTimeout(session.ping(), HEALTH_CHECK_TIMEOUT_MS, 'MCP health check timeout');
+      entry.lastHealthCheck = Date.now();
+      return true;
+    } catch (error) {
+      entry.lastHealthCheck = Date.now();
+      this.handleDisconnect(entry, client, error);
+      return false;
     }
+  }
 
-    // Return existing client
-    if (this.client) {
-      return this.client;
+  /**
+   * Close an entry's client and clear its caches
+   */
+  private async closeEntry(entry: PoolEntry): Promise<void> {
+    entry.closed = true;
+    if (entry.reconnectTimer) {
+      clearTimeout(entry.reconnectTimer);
+      entry.reconnectTimer = null;
     }
 
-    // Should not reach here, but fallback to create new
-    this.initializationPromise = this.createClient(config);
-    this.client = await this.initializationPromise;
-    this.currentConfig = config;
-    return this.client;
+    const clients = [entry.client, ...entry.serverClients].filter((client): client is MultiServerMCPClient => !!client);
+    entry.client = null;
+    entry.serverClients = [];
+    entry.connectPromise = null;
+    entry.tools = null;
+    entry.state = 'idle';
+
+    for (const client of clients) {
+      try {
+        await client.close();
+      } catch (error) {
+        console.error('Error closing MCP client:', error);
+      }
+    }
   }
 
   /**
@@ -99,25 +322,40 @@ class MCPClientManager {
     console.log('🔧 Creating new MCP client...');
     console.log('Environment:', process.env.VERCEL ? 'Vercel' : 'Local');
     console.log('WordPress URL:', config.wordpressUrl);
+    console.log('Transport:', config.transport ?? 'stdio');
     console.log('Node version:', process.version);
     console.log('Working directory:', process.cwd());
-    
+
     try {
-      // Use npx consistently - it works better on Vercel when package is in dependencies
+      const transport = config.transport ?? 'stdio';
+
+      if (transport !== 'stdio' && !config.serverUrl) {
+        throw new Error(`A server URL is required for the ${transport} transport`);
+      }
+
       const client = new MultiServerMCPClient({
         mcpServers: {
-          wordpress: {
-            command: "npx",
-            args: ["--yes", "wpmcp@3.0.0"],
-            env: {
-              WORDPRESS_URL: config.wordpressUrl,
-              WORDPRESS_USERNAME: config.wordpressUsername,
-              WORDPRESS_PASSWORD: config.wordpressPassword,
-              NODE_ENV: process.env.NODE_ENV || 'production',
-              ...(process.env.PATH && { PATH: process.env.PATH }),
+          [WORDPRESS_SERVER]: transport === 'stdio'
+            ? {
+              // Use npx consistently - it works better on Vercel when package is in dependencies
+              command: "npx",
+              args: ["--yes", "wpmcp@3.0.0"],
+              env: {
+                WORDPRESS_URL: config.wordpressUrl,
+                WORDPRESS_USERNAME: config.wordpressUsername,
+                WORDPRESS_PASSWORD: config.wordpressPassword,
+                NODE_ENV: process.env.NODE_ENV || 'production',
+                ...(process.env.PATH && { PATH: process.env.PATH }),
+              },
+              transport: "stdio",
+            }
+            : {
+              url: config.serverUrl!,
+              transport,
+              headers: {
+                Authorization: `Basic ${Buffer.from(`${config.wordpressUsername}:${config.wordpressPassword}`).toString('base64')}`,
+              },
             },
-            transport: "stdio",
-          },
         },
       });
 
@@ -130,85 +368,349 @@ class MCPClientManager {
   }
 
   /**
-   * Get tools from MCP client (cached)
+   * Connect each additional server on its own client. Failures are recorded
+   * per server and never block the WordPress tools.
    */
-  async getTools(config: MCPClientConfig): Promise<any[]> {
-    try {
-      // If tools are cached and config hasn't changed, return cached tools
-      if (this.tools && !this.hasConfigChanged(config)) {
-        console.log('📦 Using cached MCP tools');
-        return this.tools;
+  private async connectServers(
+    servers: MCPServerConfig[]
+  ): Promise<{ clients: MultiServerMCPClient[]; tools: any[]; statuses: MCPServerStatus[] }> {
+    const results = await Promise.all(servers.map(async server => {
+      const client = new MultiServerMCPClient({
+        mcpServers: {
+          [server.name]: {
+            url: server.url,
+            transport: server.transport ?? 'http',
+            headers: server.headers,
+          },
+        },
+        // Namespace tools as <server>__<tool> so they cannot collide with WordPress tools
+        prefixToolNameWithServerName: true,
+      });
+
+      try {
+        const tools = await withTimeout(client.getTools(), 15000, `Tools fetch timeout for ${server.name} (15s)`);
+        console.log(`✅ Loaded ${tools.length} tools from MCP server "${server.name}"`);
+        return { client, tools, status: { name: server.name, toolCount: tools.length, error: null } };
+      } catch (error) {
+        console.error(`❌ Failed to load MCP server "${server.name}":`, error);
+        client.close().catch(() => {});
+        const message = error instanceof Error ? error.message : String(error);
+        return { client: null, tools: [] as any[], status: { name: server.name, toolCount: 0, error: message } };
       }
+    }));
+
+    return {
+      clients: results.map(result => result.client).filter((client): client is MultiServerMCPClient => !!client),
+      tools: results.flatMap(result => result.tools),
+      statuses: results.map(result => result.status),
+    };
+  }
 
-      // Initialize client if needed
-      console.log('🔄 Initializing MCP client for tools...');
-      
+  /**
+   * Spawn the client, load its tools and watch the process for exit
+   */
+  private async connect(entry: PoolEntry): Promise<any[]> {
+    entry.state = entry.state === 'reconnecting' ? 'reconnecting' : 'connecting';
+    let client: MultiServerMCPClient | null = null;
+
+    try {
       // Add timeout to prevent hanging
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('MCP client initialization timeout (30s)')), 30000);
-      });
-      
-      const client = await Promise.race([
-        this.initialize(config),
-        timeoutPromise
-      ]);
-      
-      // Get and cache tools
+      client = await withTimeout(this.createClient(entry.config), 30000, 'MCP client initialization timeout (30s)');
+
       console.log('🔄 Fetching MCP tools from client...');
-      
-      const toolsPromise = new Promise<any[]>((resolve, reject) => {
-        setTimeout(() => reject(new Error('Tools fetch timeout (15s)')), 15000);
-        client.getTools().then(resolve).catch(reject);
-      });
-      
-      this.tools = await toolsPromise;
-      console.log(`✅ Loaded ${this.tools.length} MCP tools`);
-      
-      if (this.tools.length === 0) {
+      const wordpressTools = await withTimeout(client.getTools(), 15000, 'Tools fetch timeout (15s)');
+
+      // Detect the stdio subprocess (or remote session) closing underneath us
+      const session = await client.getClient(WORDPRESS_SERVER);
+      if (session) {
+        const connectedClient = client;
+        session.onclose = () => this.handleDisconnect(entry, connectedClient, new Error('wpmcp process exited'));
+      }
+
+      const servers = await this.connectServers(entry.config.servers ?? []);
+      const tools = [...wordpressTools, ...servers.tools];
+
+      if (entry.closed) {
+        await Promise.all(servers.clients.map(serverClient => serverClient.close().catch(() => {})));
+        await client.close();
+        throw new Error('MCP client was closed while connecting');
+      }
+
+      entry.client = client;
+      entry.serverClients = servers.clients;
+      entry.servers = servers.statuses;
+      entry.tools = tools;
+      entry.state = 'initialized';
+      entry.lastError = null;
+      entry.consecutiveFailures = 0;
+      entry.circuitOpenUntil = null;
+      entry.lastHealthCheck = Date.now();
+
+      console.log(`✅ Loaded ${tools.length} MCP tools`);
+      if (tools.length === 0) {
         console.warn('⚠️ Warning: No tools loaded from MCP client');
       }
-      
-      return this.tools;
+
+      return tools;
+    } catch (error) {
+      if (client) {
+        client.close().catch(() => {});
+      }
+      this.recordFailure(entry, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Count a failed connection; open the circuit after repeated failures
+   */
+  private recordFailure(entry: PoolEntry, error: unknown): void {
+    entry.consecutiveFailures++;
+    entry.lastError = error instanceof Error ? error.message : String(error);
+
+    if (entry.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+      entry.state = 'failed';
+      entry.circuitOpenUntil = Date.now() + CIRCUIT_OPEN_MS;
+      console.error(`🚫 MCP circuit open for ${entry.config.wordpressUrl} after ${entry.consecutiveFailures} failures`);
+    } else if (entry.state !== 'reconnecting') {
+      entry.state = 'idle';
+    }
+  }
+
+  /**
+   * The client died (process exit or failed probe): drop it and respawn with backoff.
+   * While runs still hold leases, the entry is only marked stale: it is replaced in the
+   * pool and retired, so its client is closed when the last lease is released.
+   */
+  private handleDisconnect(entry: PoolEntry, client: MultiServerMCPClient, error: unknown): void {
+    // Ignore stale clients and intentional shutdowns
+    if (entry.closed || entry.retired || entry.client !== client) return;
+
+    console.warn(`⚠️ MCP client for ${entry.config.wordpressUrl} disconnected:`, error instanceof Error ? error.message : error);
+    entry.lastError = error instanceof Error ? error.message : String(error);
+
+    if (entry.refCount > 0) {
+      entry.retired = true;
+      if (this.entries.get(entry.key) === entry) {
+        this.entries.delete(entry.key);
+        const replacement = this.getEntry(entry.config);
+        replacement.lastError = entry.lastError;
+        replacement.consecutiveFailures = entry.consecutiveFailures;
+        this.scheduleReconnect(replacement);
+      }
+      return;
+    }
+
+    const serverClients = entry.serverClients;
+    entry.client = null;
+    entry.serverClients = [];
+    entry.tools = null;
+    entry.connectPromise = null;
+    client.close().catch(() => {});
+    serverClients.forEach(serverClient => serverClient.close().catch(() => {}));
+
+    this.scheduleReconnect(entry);
+  }
+
+  /**
+   * Retry the connection with exponential backoff until it succeeds or the circuit opens
+   */
+  private scheduleReconnect(entry: PoolEntry): void {
+    if (entry.closed || entry.reconnectTimer || !this.entries.has(entry.key)) return;
+
+    entry.state = 'reconnecting';
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** entry.consecutiveFailures, RECONNECT_MAX_DELAY_MS);
+    console.log(`🔁 Reconnecting MCP client for ${entry.config.wordpressUrl} in ${delay}ms`);
+
+    entry.reconnectTimer = setTimeout(async () => {
+      entry.reconnectTimer = null;
+      try {
+        await this.loadTools(entry);
+      } catch {
+        if (entry.state === 'reconnecting') {
+          this.scheduleReconnect(entry);
+        }
+      }
+    }, delay);
+    entry.reconnectTimer.unref?.();
+  }
+
+  /**
+   * Load an entry's tools (cached per pool entry), connecting if needed
+   */
+  private async loadTools(entry: PoolEntry): Promise<any[]> {
+    try {
+      if (entry.tools && entry.client) {
+        console.log('📦 Using cached MCP tools');
+        return entry.tools;
+      }
+
+      // Circuit breaker: fail fast until the cool-down passes, then allow one attempt
+      if (entry.circuitOpenUntil && Date.now() < entry.circuitOpenUntil) {
+        throw new Error(`WordPress MCP server is unavailable after repeated failures (last error: ${entry.lastError}). Retrying after ${new Date(entry.circuitOpenUntil).toISOString()}`);
+      }
+
+      // If already connecting, wait for it
+      if (!entry.connectPromise) {
+        console.log('🔄 Initializing MCP client for tools...');
+        entry.connectPromise = this.connect(entry).finally(() => {
+          entry.connectPromise = null;
+        });
+      }
+
+      return await entry.connectPromise;
     } catch (error) {
       console.error('❌ Error getting MCP tools:', error);
       console.error('Stack trace:', error instanceof Error ? error.stack : 'No stack trace');
       console.error('If on Vercel, ensure maxDuration is set to 60s in vercel.json');
-      
+
       throw new Error(`Failed to get MCP tools: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Check if client is initialized
+   * Initialize MCP client with configuration
    */
-  isInitialized(): boolean {
-    return this.client !== null;
+  async initialize(config: MCPClientConfig): Promise<MultiServerMCPClient> {
+    const entry = this.getEntry(config);
+    await this.loadTools(entry);
+    return entry.client!;
   }
 
   /**
-   * Get current client (may return null)
+   * Get tools from MCP client (cached per site)
    */
-  getClient(): MultiServerMCPClient | null {
-    return this.client;
+  async getTools(config: MCPClientConfig): Promise<any[]> {
+    return this.loadTools(this.getEntry(config));
   }
 
   /**
-   * Force close and reset client
+   * Check out a client for the duration of a run. The client is not evicted
+   * or closed while any lease is held.
    */
-  async reset(): Promise<void> {
-    if (this.client) {
-      try {
-        await this.client.close();
-        console.log('✅ MCP Client closed successfully');
-      } catch (error) {
-        console.error('Error closing MCP client:', error);
-      }
+  async acquire(config: MCPClientConfig): Promise<MCPClientLease> {
+    const entry = this.getEntry(config);
+    entry.refCount++;
+
+    try {
+      const tools = await this.loadTools(entry);
+      let released = false;
+
+      return {
+        key: entry.key,
+        client: entry.client!,
+        tools,
+        release: () => {
+          if (released) return;
+          released = true;
+          this.release(entry);
+        },
+      };
+    } catch (error) {
+      this.release(entry);
+      throw error;
+    }
+  }
+
+  private release(entry: PoolEntry): void {
+    entry.refCount = Math.max(0, entry.refCount - 1);
+    entry.lastUsed = Date.now();
+
+    if (entry.retired && entry.refCount === 0) {
+      void this.closeEntry(entry);
+    }
+  }
+
+  /**
+   * Check if a client is initialized (for a site, or any site)
+   */
+  isInitialized(config?: MCPClientConfig): boolean {
+    if (config) {
+      return !!this.entries.get(this.getKey(config))?.client;
+    }
+    return Array.from(this.entries.values()).some(entry => entry.client !== null);
+  }
+
+  /**
+   * Get the current client for a site (may return null)
+   */
+  getClient(config: MCPClientConfig): MultiServerMCPClient | null {
+    return this.entries.get(this.getKey(config))?.client ?? null;
+  }
+
+  /**
+   * Health of one site's client. With probe, pings the client first.
+   */
+  async status(config: MCPClientConfig, options: { probe?: boolean } = {}): Promise<MCPClientStatus> {
+    const entry = this.entries.get(this.getKey(config));
+
+    if (!entry) {
+      return {
+        state: 'idle',
+        initialized: false,
+        reconnecting: false,
+        failed: false,
+        lastError: null,
+        toolCount: 0,
+        consecutiveFailures: 0,
+        circuitOpenUntil: null,
+        lastHealthCheck: null,
+        activeRuns: 0,
+        servers: [],
+      };
+    }
+
+    if (options.probe && entry.state === 'initialized') {
+      await this.probe(entry);
     }
-    
-    this.client = null;
-    this.currentConfig = null;
-    this.initializationPromise = null;
-    this.tools = null;
+
+    return {
+      state: entry.state,
+      initialized: entry.state === 'initialized',
+      reconnecting: entry.state === 'reconnecting',
+      failed: entry.state === 'failed',
+      lastError: entry.lastError,
+      toolCount: entry.tools?.length ?? 0,
+      consecutiveFailures: entry.consecutiveFailures,
+      circuitOpenUntil: entry.circuitOpenUntil ? new Date(entry.circuitOpenUntil).toISOString() : null,
+      lastHealthCheck: entry.lastHealthCheck ? new Date(entry.lastHealthCheck).toISOString() : null,
+      activeRuns: entry.refCount,
+      servers: entry.servers,
+    };
+  }
+
+  /**
+   * Number of pooled clients, how many are in use, and how many are in each state
+   */
+  getPoolStats(): { size: number; active: number; maxSize: number; states: Record<MCPConnectionState, number> } {
+    const entries = Array.from(this.entries.values());
+    const states: Record<MCPConnectionState, number> = { idle: 0, connecting: 0, initialized: 0, reconnecting: 0, failed: 0 };
+    for (const entry of entries) {
+      states[entry.state]++;
+    }
+
+    return {
+      size: entries.length,
+      active: entries.filter(entry => entry.refCount > 0).length,
+      maxSize: this.maxSize,
+      states,
+    };
+  }
+
+  /**
+   * Force close and reset one site's client, or every client
+   */
+  async reset(config?: MCPClientConfig): Promise<void> {
+    const entries = config
+      ? [this.entries.get(this.getKey(config))].filter((entry): entry is PoolEntry => !!entry)
+      : Array.from(this.entries.values());
+
+    for (const entry of entries) {
+      this.entries.delete(entry.key);
+      await this.closeEntry(entry);
+    }
+
+    console.log('✅ MCP Client closed successfully');
   }
 }
 
@@ -216,4 +718,12 @@ class MCPClientManager {
 export const mcpClientManager = MCPClientManager.getInstance();
 
 // Export type
-export type { MCPClientConfig };
\ No newline at end of file
+export type {
+  MCPClientConfig,
+  MCPClientLease,
+  MCPClientStatus,
+  MCPConnectionState,
+  MCPServerConfig,
+  MCPServerStatus,
+  MCPTransport
+};
@@ -0,0 +1,295 @@
+/**
+ * OpenAI Chat Completions Compatibility
+ * Maps /v1/chat/completions requests onto agent runs and agent events onto completion
+ * chunks, so OpenAI clients (chat apps, IDE extensions) can drive wpAgent.
+ * Tool activity is sent as `tool_activity` on deltas, which OpenAI clients ignore; the agent's
+ * tools run server-side, so it is never sent as `tool_calls` for the client to execute.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { SSE_HEADERS, encodeSSE } from '@/lib/sse';
+import type { StreamEvent } from '@/lib/stream-events';
+
+/**
+ * Model ID for the agent on the server's default site; `wpagent:<connection_id>` targets a saved connection
+ */
+export const WPAGENT_MODEL_ID = 'wpagent';
+
+const CONVERSATION_ID_HEADER = 'x-conversation-id';
+
+const CONVERSATION_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+export interface ChatCompletionInput {
+  model: string;
+  prompt: string;
+  stream: boolean;
+  includeUsage: boolean;
+  conversationId?: string; // Used as the LangGraph thread_id
+  connectionId?: string;
+}
+
+/**
+ * Agent activity attached to a delta (or collected on the message when not streaming)
+ */
+export type ToolActivity =
+  | { type: 'tool_call'; id: string; name: string; arguments: string; site?: string }
+  | { type: 'tool_result'; id: string; name: string; content: string; is_error?: boolean; site?: string }
+  | { type: 'approval_required'; run_id: string; tool_calls: { id: string; name: string; arguments: string }[] }
+  | { type: 'cancelled'; completed: string[]; skipped: string[] };
+
+interface CompletionDelta {
+  content?: string;
+  tool_activity?: ToolActivity;
+}
+
+interface CompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * Error in the OpenAI format, which clients know how to display
+ */
+export function openAIError(message: string, status: number, type = 'invalid_request_error', code?: string): NextResponse {
+  return NextResponse.json({ error: { message, type, code: code ?? null } }, { status });
+}
+
+// Message content is a string or a list of parts; only text parts reach the agent
+function getMessageText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .filter(part => part?.type === 'text' && typeof part.text === 'string')
+    .map(part => part.text)
+    .join('\n');
+}
+
+/**
+ * The agent instruction for a request. A continued conversation already has its history
+ * in the thread, so only the latest user message is sent; otherwise earlier turns are
+ * quoted as context. System messages are dropped: the agent uses its own system prompt.
+ */
+function buildAgentPrompt(messages: any[], continuing: boolean): string | null {
+  const turns = messages
+    .filter(message => message?.role === 'user' || message?.role === 'assistant')
+    .map(message => ({ role: message.role as string, text: getMessageText(message.content).trim() }))
+    .filter(turn => turn.text);
+
+  const last = turns[turns.length - 1];
+  if (!last || last.role !== 'user') return null;
+
+  const history = turns.slice(0, -1);
+  if (continuing || history.length === 0) return last.text;
+
+  const transcript = history
+    .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.text}`)
+    .join('\n\n');
+  return `Conversation so far:\n\n${transcript}\n\nLatest request:\n\n${last.text}`;
+}
+
+/**
+ * Validate a chat completion request body. The conversation ID comes from the
+ * X-Conversation-Id header, `conversation_id`, or `metadata.conversation_id`.
+ */
+export function parseChatCompletionRequest(
+  request: NextRequest,
+  body: any
+): { input?: ChatCompletionInput; error?: string } {
+  const model = typeof body?.model === 'string' ? body.model : WPAGENT_MODEL_ID;
+  if (model !== WPAGENT_MODEL_ID && !model.startsWith(`${WPAGENT_MODEL_ID}:`)) {
+    return { error: `Unknown model "${model}". Use "${WPAGENT_MODEL_ID}" or "${WPAGENT_MODEL_ID}:<connection_id>" (see /v1/models).` };
+  }
+  if (!Array.isArray(body?.messages) || body.messages.length === 0) {
+    return { error: 'messages must be a non-empty array' };
+  }
+
+  const conversationId = request.headers.get(CONVERSATION_ID_HEADER)
+    ?? body.conversation_id
+    ?? body.metadata?.conversation_id;
+  if (conversationId !== undefined && conversationId !== null
+    && (typeof conversationId !== 'string' || !CONVERSATION_ID_PATTERN.test(conversationId))) {
+    return { error: 'conversation_id must be 1-128 letters, digits, ".", ":", "_" or "-"' };
+  }
+
+  const prompt = buildAgentPrompt(body.messages, Boolean(conversationId));
+  if (!prompt) {
+    return { error: 'The last message must be a user message with text content' };
+  }
+
+  return {
+    input: {
+      model,
+      prompt,
+      stream: body.stream === true,
+      includeUsage: body.stream_options?.include_usage === true,
+      conversationId: conversationId || undefined,
+      connectionId: model.slice(WPAGENT_MODEL_ID.length + 1) || body.connection_id || undefined,
+    },
+  };
+}
+
+function stringifyArgs(args: unknown): string {
+  return typeof args === 'string' ? args : JSON.stringify(args ?? {});
+}
+
+/**
+ * The completion delta for an agent event, or null for events clients do not need
+ */
+function toCompletionDelta(event: StreamEvent): CompletionDelta | null {
+  switch (event.type) {
+    case 'token':
+      return { content: event.content };
+
+    case 'tool_call':
+      return { tool_activity: { type: 'tool_call', id: event.id, name: event.name, arguments: stringifyArgs(event.args), site: event.site } };
+
+    case 'tool_result':
+      return {
+        tool_activity: { type: 'tool_result', id: event.id, name: event.name, content: event.content, is_error: event.isError, site: event.site },
+      };
+
+    case 'approval_required':
+      return {
+        content: `\n\n⏸️ Paused for approval before running ${event.toolCalls.map(call => call.name).join(', ')}.`,
+        tool_activity: {
+          type: 'approval_required',
+          run_id: event.run_id,
+          tool_calls: event.toolCalls.map(call => ({ id: call.id, name: call.name, arguments: stringifyArgs(call.args) })),
+        },
+      };
+
+    case 'cancelled':
+      return {
+        content: '\n\n⏹️ Cancelled.',
+        tool_activity: {
+          type: 'cancelled',
+          completed: event.completed.map(call => call.name),
+          skipped: event.skipped.map(call => call.name),
+        },
+      };
+
+    case 'error':
+      return { content: `\n\n⚠️ ${event.content}` };
+
+    default:
+      return null;
+  }
+}
+
+function addUsage(usage: CompletionUsage, event: StreamEvent): void {
+  if (event.type !== 'usage') return;
+  usage.prompt_tokens += event.input_tokens;
+  usage.completion_tokens += event.output_tokens;
+  usage.total_tokens += event.total_tokens;
+}
+
+/**
+ * Stream a run as chat.completion.chunk events, ending with [DONE].
+ * Disconnecting calls `onDisconnect`, since OpenAI clients stop a completion by closing the stream.
+ */
+export function createChatCompletionStream(
+  runId: string,
+  events: AsyncIterable<StreamEvent>,
+  options: { model: string; threadId: string; includeUsage: boolean; onDisconnect?: () => void }
+): NextResponse {
+  const encoder = new TextEncoder();
+  const id = `chatcmpl-${runId}`;
+  const created = Math.floor(Date.now() / 1000);
+  const usage: CompletionUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+  const chunk = (delta: object, finishReason: string | null = null) => encoder.encode(encodeSSE({
+    id,
+    object: 'chat.completion.chunk',
+    created,
+    model: options.model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  }));
+
+  const iterator = events[Symbol.asyncIterator]();
+  let finished = false;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      controller.enqueue(chunk({ role: 'assistant', content: '' }));
+    },
+    async pull(controller) {
+      try {
+        // Skip events that map to nothing, so every pull enqueues
+        while (true) {
+          const { value, done } = await iterator.next();
+          if (done) {
+            finished = true;
+            controller.enqueue(chunk({}, 'stop'));
+            if (options.includeUsage) {
+              controller.enqueue(encoder.encode(encodeSSE({
+                id,
+                object: 'chat.completion.chunk',
+                created,
+                model: options.model,
+                choices: [],
+                usage,
+              })));
+            }
+            controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+            controller.close();
+            return;
+          }
+
+          addUsage(usage, value);
+          const delta = toCompletionDelta(value);
+          if (delta) {
+            controller.enqueue(chunk(delta));
+            return;
+          }
+        }
+      } catch (error) {
+        console.error('Chat completion stream error:', error);
+        controller.error(error);
+      }
+    },
+    cancel() {
+      void iterator.return?.();
+      if (!finished) options.onDisconnect?.();
+    }
+  });
+
+  return new NextResponse(stream, {
+    headers: { ...SSE_HEADERS, 'X-Run-Id': runId, 'X-Conversation-Id': options.threadId },
+  });
+}
+
+/**
+ * Wait for a run to finish and return it as a single chat.completion
+ */
+export async function collectChatCompletion(
+  runId: string,
+  events: AsyncIterable<StreamEvent>,
+  options: { model: string; threadId: string }
+): Promise<NextResponse> {
+  const usage: CompletionUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+  const toolActivity: ToolActivity[] = [];
+  let content = '';
+
+  for await (const event of events) {
+    addUsage(usage, event);
+    const delta = toCompletionDelta(event);
+    if (delta?.content) content += delta.content;
+    if (delta?.tool_activity) toolActivity.push(delta.tool_activity);
+  }
+
+  return NextResponse.json({
+    id: `chatcmpl-${runId}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: options.model,
+    choices: [{
+      index: 0,
+      message: { role: 'assistant', content: content.trim(), tool_activity: toolActivity },
+      finish_reason: 'stop',
+    }],
+    usage,
+  }, {
+    headers: { 'X-Run-Id': runId, 'X-Conversation-Id': options.threadId },
+  });
+}
@@ -0,0 +1,82 @@
+/**
+ * Outbound URL Checks
+ * URLs chosen by clients (model endpoints, additional MCP servers) are called from the server,
+ * so they may not point at loopback or private networks unless an operator allowlists them
+ * with WP_AGENT_ALLOWED_URLS (comma-separated origins, e.g. http://localhost:11434).
+ */
+
+import { isIP } from 'net';
+
+const PRIVATE_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.lan', '.home.arpa'];
+
+function getAllowedOrigins(): string[] {
+  return (process.env.WP_AGENT_ALLOWED_URLS ?? '')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/+$/, '').toLowerCase())
+    .filter(Boolean);
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split('.').map(Number);
+  return a === 0
+    || a === 10
+    || a === 127
+    || (a === 100 && b >= 64 && b <= 127) // Carrier-grade NAT
+    || (a === 169 && b === 254) // Link-local, including cloud metadata endpoints
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || a >= 224;
+}
+
+/**
+ * Check whether a hostname is loopback, link-local, private or otherwise not on the public internet
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+
+  // Single-label names (e.g. docker service names) only resolve inside the server's network
+  if (!host || host === 'localhost' || (!host.includes('.') && isIP(host) === 0)) return true;
+  if (PRIVATE_HOST_SUFFIXES.some(suffix => host.endsWith(suffix))) return true;
+
+  switch (isIP(host)) {
+    case 4:
+      return isPrivateIPv4(host);
+    case 6: {
+      // IPv4-mapped addresses, which URL normalizes to hex (::ffff:7f00:1)
+      const mapped = host.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+      if (mapped) {
+        const [high, low] = [parseInt(mapped[1], 16), parseInt(mapped[2], 16)];
+        return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+      }
+      return host === '::' || host === '::1' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host);
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check that a client-supplied URL may be called by the server, returning an error message if not
+ */
+export function validateOutboundUrl(value: unknown, label = 'URL'): string | null {
+  let url: URL;
+  try {
+    url = new URL(String(value));
+  } catch {
+    return `${label} is not a valid URL`;
+  }
+
+  if (!['http:', 'https:'].includes(url.protocol)) {
+    return `${label} must use http or https`;
+  }
+  if (url.username || url.password) {
+    return `${label} must not contain credentials`;
+  }
+  if (getAllowedOrigins().includes(url.origin.toLowerCase())) {
+    return null;
+  }
+  if (isPrivateHost(url.hostname)) {
+    return `${label} points at a private or local address. Ask the operator to add ${url.origin} to WP_AGENT_ALLOWED_URLS.`;
+  }
+  return null;
+}
@@ -0,0 +1,14 @@
+/**
+ * Prisma Client - Shared Instance
+ * Reuses one PrismaClient across hot reloads and route handlers
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+const globalForPrisma = globalThis as unknown as { prisma?: PrismaClient };
+
+export const prisma = globalForPrisma.prisma ?? new PrismaClient();
+
+if (process.env.NODE_ENV !== 'production') {
+  globalForPrisma.prisma = prisma;
+}
@@ -0,0 +1,260 @@
+/**
+ * Quota Service
+ * Enforces plan credits for signed-in users and the message limit for guests on the server.
+ * Guests are counted per hashed IP address and per device fingerprint; reaching the limit
+ * on either blocks, so clearing browser storage or switching networks alone does not reset it.
+ * The fingerprint is chosen by the client, so guests without a trusted client IP are refused.
+ * Client IPs come from the platform (Vercel) or from proxy headers when WP_AGENT_TRUSTED_PROXY_HOPS
+ * says a proxy sets them.
+ */
+
+import { createHash } from 'crypto';
+import type { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { DEVICE_FINGERPRINT_HEADER, getGuestMessageLimit } from '@/lib/guest-limits';
+import type { StreamEventPayload } from '@/lib/stream-events';
+import type { TokenUsage } from '@/lib/agents/wp-agent/types';
+
+export type QuotaExceededEvent = Extract<StreamEventPayload, { type: 'quota_exceeded' }>;
+
+/**
+ * The signed-in user a run is charged to (a Supabase user, or an API key's owner)
+ */
+export interface QuotaUser {
+  id: string;
+  email?: string | null;
+}
+
+type UserPlan = 'FREE' | 'PRO' | 'ENTERPRISE';
+
+/**
+ * Guest message counts reset after this long
+ */
+const GUEST_LIMIT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Credits charged when a run starts (per site for fan-out runs)
+ */
+const RUN_CREDIT_COST = 1;
+
+/**
+ * Tokens covered by one credit; runs that use more are charged the difference when they finish
+ */
+const TOKENS_PER_CREDIT = 100_000;
+
+/**
+ * Plans that are not metered
+ */
+const UNMETERED_PLANS: UserPlan[] = ['ENTERPRISE'];
+
+/**
+ * Quotas need the database; set WP_AGENT_ENFORCE_QUOTAS=false to turn them off (e.g. self-hosted)
+ */
+export function isQuotaEnabled(): boolean {
+  return Boolean(process.env.DATABASE_URL) && process.env.WP_AGENT_ENFORCE_QUOTAS !== 'false';
+}
+
+/**
+ * Client IP as seen by the trusted proxies in front of the app (WP_AGENT_TRUSTED_PROXY_HOPS,
+ * default 0). Clients can send their own X-Forwarded-For, so only the entries appended by those
+ * proxies count: the client is the last hop before them. Without a configured proxy, only
+ * Vercel's X-Real-IP is trusted (the platform overwrites it); elsewhere there is no IP.
+ */
+export function getClientIp(request: NextRequest): string | null {
+  const hops = Number(process.env.WP_AGENT_TRUSTED_PROXY_HOPS) || 0;
+  if (hops < 1) {
+    return process.env.VERCEL ? request.headers.get('x-real-ip')?.trim() || null : null;
+  }
+
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  if (forwarded.length > 0) {
+    return forwarded[Math.max(0, forwarded.length - hops)];
+  }
+  return request.headers.get('x-real-ip')?.trim() || null;
+}
+
+// IPs and fingerprints are only stored hashed
+function hashQuotaKey(kind: 'ip' | 'device', value: string): string {
+  const digest = createHash('sha256')
+    .update(`${process.env.QUOTA_HASH_SALT ?? ''}:${kind}:${value}`)
+    .digest('hex');
+  return `${kind}:${digest.slice(0, 40)}`;
+}
+
+// Keys a guest request is counted against; none without a trusted IP, since a fingerprint alone can be replaced at will
+function getGuestKeys(request: NextRequest): string[] {
+  const ip = getClientIp(request);
+  if (!ip) return [];
+
+  const keys = [hashQuotaKey('ip', ip)];
+
+  const fingerprint = request.headers.get(DEVICE_FINGERPRINT_HEADER);
+  if (fingerprint && /^[a-f0-9]{64}$/i.test(fingerprint)) {
+    keys.push(hashQuotaKey('device', fingerprint.toLowerCase()));
+  }
+
+  return keys;
+}
+
+/**
+ * Count one message against a key. The increment only applies while the key is under the
+ * limit, so concurrent requests cannot push it past; an expired window starts over.
+ * Returns false when the key is at the limit.
+ */
+async function incrementGuestKey(key: string, limit: number, now: Date): Promise<boolean> {
+  const expired = new Date(now.getTime() - GUEST_LIMIT_WINDOW_MS);
+
+  // A second attempt covers losing the race to create or restart the key's record
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const { count } = await prisma.guestQuota.updateMany({
+      where: { key, windowStart: { gt: expired }, count: { lt: limit } },
+      data: { count: { increment: 1 } },
+    });
+    if (count > 0) return true;
+
+    const restarted = await prisma.guestQuota.updateMany({
+      where: { key, windowStart: { lte: expired } },
+      data: { count: 1, windowStart: now },
+    });
+    if (restarted.count > 0) return true;
+
+    try {
+      await prisma.guestQuota.create({ data: { key, count: 1, windowStart: now } });
+      return true;
+    } catch (error: any) {
+      if (error?.code !== 'P2002') throw error; // P2002: the record already exists
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Count one guest message against every key of the request, or refuse it when a key is at the limit.
+ * Requests without a trusted client IP are refused, since they could not be counted.
+ */
+async function consumeGuestMessage(request: NextRequest): Promise<QuotaExceededEvent | null> {
+  const limit = getGuestMessageLimit();
+  const keys = getGuestKeys(request);
+  if (keys.length === 0) {
+    console.warn('⚠️ Guest request without a trusted client IP; refused. Set WP_AGENT_TRUSTED_PROXY_HOPS behind a proxy.');
+    return {
+      type: 'quota_exceeded',
+      reason: 'guest_limit',
+      message: 'Sign in to use the agent. Guest messages are not available on this server.',
+      remaining: 0,
+      limit,
+    };
+  }
+
+  const now = new Date();
+  const counted: string[] = [];
+  for (const key of keys) {
+    if (await incrementGuestKey(key, limit, now)) {
+      counted.push(key);
+      continue;
+    }
+
+    // Refused messages are not counted against the request's other keys
+    if (counted.length > 0) {
+      await prisma.guestQuota.updateMany({ where: { key: { in: counted } }, data: { count: { decrement: 1 } } });
+    }
+
+    const record = await prisma.guestQuota.findUnique({ where: { key } });
+    const resetsAt = (record?.windowStart.getTime() ?? now.getTime()) + GUEST_LIMIT_WINDOW_MS;
+    return {
+      type: 'quota_exceeded',
+      reason: 'guest_limit',
+      message: `You've used your ${limit} free messages. Sign in to keep going.`,
+      remaining: 0,
+      limit,
+      resets_at: new Date(resetsAt).toISOString(),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Debit the credits for starting runs, or refuse when the user cannot cover them
+ */
+async function debitRunCredits(user: QuotaUser, runs: number): Promise<QuotaExceededEvent | null> {
+  // Users who signed in but were never synced get the default plan
+  const account = await prisma.user.upsert({
+    where: { id: user.id },
+    create: { id: user.id, email: user.email ?? `${user.id}@users.noreply` },
+    update: {},
+    select: { plan: true, credits: true },
+  });
+  if (UNMETERED_PLANS.includes(account.plan)) return null;
+
+  const cost = runs * RUN_CREDIT_COST;
+  // Conditional decrement, so concurrent runs cannot overdraw
+  const { count } = await prisma.user.updateMany({
+    where: { id: user.id, credits: { gte: cost } },
+    data: { credits: { decrement: cost } },
+  });
+  if (count > 0) return null;
+
+  const { credits } = await prisma.user.findUniqueOrThrow({ where: { id: user.id }, select: { credits: true } });
+  return {
+    type: 'quota_exceeded',
+    reason: 'credits_exhausted',
+    message: runs > 1
+      ? `This run needs ${cost} credits (one per site) and you have ${credits}. Add credits or upgrade your plan to continue.`
+      : 'You are out of credits. Add credits or upgrade your plan to continue.',
+    remaining: credits,
+    plan: account.plan,
+  };
+}
+
+/**
+ * Check and take the quota for starting `runs` agent runs (a fan-out run is one per site).
+ * Returns the quota_exceeded event to send instead of running, or null to go ahead.
+ */
+export async function checkRunQuota(
+  request: NextRequest,
+  user: QuotaUser | null,
+  options: { runs?: number } = {}
+): Promise<QuotaExceededEvent | null> {
+  if (!isQuotaEnabled()) return null;
+
+  const exceeded = user
+    ? await debitRunCredits(user, options.runs ?? 1)
+    : await consumeGuestMessage(request);
+
+  if (exceeded) {
+    console.log(`🚫 Quota exceeded (${exceeded.reason}) for ${user ? `user ${user.id}` : 'guest'}`);
+  }
+  return exceeded;
+}
+
+/**
+ * Charge a finished run for tokens beyond what its prepaid credits cover.
+ * Never fails the run: balances are floored at zero and errors are only logged.
+ */
+export async function settleRunCredits(userId: string, usage: TokenUsage, prepaidRuns = 1): Promise<void> {
+  if (!isQuotaEnabled()) return;
+
+  const owed = Math.ceil(usage.totalTokens / TOKENS_PER_CREDIT) - prepaidRuns * RUN_CREDIT_COST;
+  if (owed <= 0) return;
+
+  try {
+    const account = await prisma.user.findUnique({ where: { id: userId }, select: { plan: true } });
+    if (!account || UNMETERED_PLANS.includes(account.plan)) return;
+
+    const { count } = await prisma.user.updateMany({
+      where: { id: userId, credits: { gte: owed } },
+      data: { credits: { decrement: owed } },
+    });
+    if (count === 0) {
+      await prisma.user.update({ where: { id: userId }, data: { credits: 0 } });
+    }
+    console.log(`💳 Charged user ${userId} ${owed} extra credit${owed > 1 ? 's' : ''} for ${usage.totalTokens} tokens`);
+  } catch (error) {
+    console.error(`⚠️ Failed to settle credits for user ${userId}:`, error);
+  }
+}
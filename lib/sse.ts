@@ -0,0 +1,67 @@
+/**
+ * Server-Sent Events helpers
+ * Wraps agent run event streams into text/event-stream responses
+ */
+
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import { createEventStamper, type StreamEvent, type StreamEventPayload } from './stream-events';
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive',
+};
+
+/**
+ * Encode a single event as an SSE data frame
+ */
+export function encodeSSE(event: unknown): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Stream a run's stamped events. Disconnecting stops the stream, not the run it follows.
+ */
+export function createSSEResponse(
+  events: AsyncIterable<StreamEvent>,
+  options: { runId?: string } = {}
+): NextResponse {
+  const encoder = new TextEncoder();
+  const iterator = events[Symbol.asyncIterator]();
+
+  const stream = new ReadableStream({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(encodeSSE(value)));
+        }
+      } catch (error) {
+        console.error('SSE stream error:', error);
+        controller.error(error);
+      }
+    },
+    cancel() {
+      void iterator.return?.();
+    }
+  });
+
+  const headers = options.runId ? { ...SSE_HEADERS, 'X-Run-Id': options.runId } : SSE_HEADERS;
+  return new NextResponse(stream, { headers });
+}
+
+/**
+ * Stream a fixed list of events that are not part of a background run,
+ * e.g. a quota_exceeded refusal sent instead of starting one
+ */
+export function createEventsSSEResponse(payloads: StreamEventPayload[]): NextResponse {
+  const stamp = createEventStamper(`run_${randomUUID()}`);
+  const events = payloads.map(stamp).filter((event): event is StreamEvent => event !== null);
+
+  return createSSEResponse((async function* () {
+    yield* events;
+  })());
+}
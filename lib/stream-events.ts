@@ -0,0 +1,178 @@
+/**
+ * Agent Stream Event Protocol
+ * Versioned schema for the SSE events sent by /api/wordpress and its sibling routes.
+ * Shared by the server (which stamps and validates events) and the chat client (which parses them).
+ */
+
+import { z } from 'zod';
+
+/**
+ * Bump when an event changes shape in a way older clients cannot read
+ */
+export const STREAM_PROTOCOL_VERSION = 1;
+
+const RiskSchema = z.enum(['low', 'medium', 'high']);
+
+// Who produced an event: a sub-agent and/or a site in a fan-out run
+const attribution = {
+  agent: z.string().optional(),
+  site_id: z.string().optional(),
+  site: z.string().optional(),
+};
+
+const ToolCallRefSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  args: z.record(z.string(), z.any()).default({}),
+  risk: RiskSchema.optional(),
+});
+
+const PlanStepSchema = ToolCallRefSchema.extend({ risk: RiskSchema });
+
+const SiteResultSchema = z.object({
+  siteId: z.string(),
+  name: z.string(),
+  status: z.enum(['completed', 'failed', 'approval_required', 'planned', 'cancelled']),
+  summary: z.string(),
+  toolCalls: z.number(),
+  errors: z.array(z.string()),
+});
+
+/**
+ * Event payloads, as yielded by the agent generators
+ */
+export const StreamEventPayloadSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('run_start'), thread_id: z.string().optional() }),
+  z.object({ type: z.literal('token'), content: z.string(), ...attribution }),
+  z.object({
+    type: z.literal('tool_call'),
+    id: z.string(),
+    name: z.string(),
+    args: z.any(),
+    ...attribution,
+  }),
+  z.object({
+    type: z.literal('tool_result'),
+    id: z.string(), // ID of the tool_call this result answers
+    name: z.string(),
+    content: z.string(),
+    isError: z.boolean().optional(),
+    journalEntryId: z.string().optional(), // Set when the change was journaled
+    undoable: z.boolean().optional(),
+    data: z.any().optional(),
+    ...attribution,
+  }),
+  z.object({ type: z.literal('plan_step'), ...PlanStepSchema.shape, ...attribution }),
+  z.object({ type: z.literal('plan'), thread_id: z.string(), steps: z.array(PlanStepSchema), ...attribution }),
+  z.object({
+    type: z.literal('plan_executed'),
+    thread_id: z.string(),
+    executed: z.array(z.string()),
+    failed: z.array(z.string()),
+    skipped: z.array(z.string()),
+  }),
+  z.object({
+    type: z.literal('approval_required'),
+    thread_id: z.string(),
+    toolCalls: z.array(ToolCallRefSchema),
+    ...attribution,
+  }),
+  z.object({
+    type: z.literal('cancelled'),
+    completed: z.array(z.object({ id: z.string(), name: z.string() })), // Ran before the run stopped
+    skipped: z.array(z.object({ id: z.string(), name: z.string() })), // Requested but never started
+    ...attribution,
+  }),
+  z.object({ type: z.literal('agent_step'), agent: z.string(), task: z.string().optional() }),
+  z.object({ type: z.literal('step_start'), step: z.number(), node: z.string(), ...attribution }),
+  z.object({ type: z.literal('step_end'), step: z.number(), node: z.string(), ...attribution }),
+  z.object({
+    type: z.literal('usage'),
+    input_tokens: z.number(),
+    output_tokens: z.number(),
+    total_tokens: z.number(),
+    model: z.string().optional(),
+    cost_usd: z.number().optional(), // Unset when the model has no known price
+    ...attribution,
+  }),
+  z.object({
+    type: z.literal('fanout_start'),
+    thread_id: z.string(),
+    sites: z.array(z.object({ id: z.string(), name: z.string() })),
+  }),
+  z.object({ type: z.literal('site_start'), site_id: z.string(), site: z.string() }),
+  z.object({
+    type: z.literal('site_complete'),
+    site_id: z.string(),
+    site: z.string(),
+    status: SiteResultSchema.shape.status,
+    summary: z.string(),
+    toolCalls: z.number(),
+    errors: z.array(z.string()),
+  }),
+  z.object({ type: z.literal('fanout_summary'), thread_id: z.string(), results: z.array(SiteResultSchema) }),
+  z.object({
+    type: z.literal('quota_exceeded'),
+    reason: z.enum(['guest_limit', 'credits_exhausted']),
+    message: z.string(),
+    remaining: z.number(), // Credits, or guest messages in the current window
+    limit: z.number().optional(), // Guest messages per window
+    plan: z.enum(['FREE', 'PRO', 'ENTERPRISE']).optional(),
+    resets_at: z.string().optional(), // ISO time the guest window resets
+  }),
+  z.object({ type: z.literal('error'), content: z.string(), ...attribution }),
+  z.object({ type: z.literal('complete') }),
+]);
+
+/**
+ * Envelope added to every event on the wire
+ */
+const EnvelopeSchema = z.object({
+  v: z.number(), // STREAM_PROTOCOL_VERSION
+  run_id: z.string(), // One per SSE response
+  seq: z.number().int().nonnegative(), // Increments per event within a run
+});
+
+export const StreamEventSchema = z.intersection(StreamEventPayloadSchema, EnvelopeSchema);
+
+export type StreamEventPayload = z.input<typeof StreamEventPayloadSchema>;
+export type StreamEventEnvelope = z.infer<typeof EnvelopeSchema>;
+export type StreamEvent = z.infer<typeof StreamEventSchema>;
+export type StreamEventType = StreamEventPayload['type'];
+
+/**
+ * Event of one type, e.g. StreamEventOf<'tool_result'>
+ */
+export type StreamEventOf<T extends StreamEventType> = Extract<StreamEvent, { type: T }>;
+
+/**
+ * Numbers the events of one run and validates them before they go on the wire
+ */
+export function createEventStamper(runId: string) {
+  let seq = 0;
+
+  return (payload: StreamEventPayload): StreamEvent | null => {
+    const parsed = StreamEventSchema.safeParse({ ...payload, v: STREAM_PROTOCOL_VERSION, run_id: runId, seq });
+    if (!parsed.success) {
+      console.warn(`⚠️ Dropping invalid ${payload.type} stream event:`, parsed.error.issues);
+      return null;
+    }
+    seq++;
+    return parsed.data;
+  };
+}
+
+/**
+ * Parse one SSE data payload on the client. Returns null for events this client cannot read.
+ */
+export function parseStreamEvent(data: unknown): StreamEvent | null {
+  const parsed = StreamEventSchema.safeParse(data);
+  if (!parsed.success) {
+    console.warn('Ignoring malformed stream event:', parsed.error.issues);
+    return null;
+  }
+  if (parsed.data.v > STREAM_PROTOCOL_VERSION) {
+    console.warn(`Stream event uses protocol v${parsed.data.v}; this client understands v${STREAM_PROTOCOL_VERSION}`);
+  }
+  return parsed.data;
+}
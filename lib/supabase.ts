@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import { GUEST_TOKEN_HEADER, getGuestToken } from '@/lib/guest-limits';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
@@ -59,6 +60,17 @@ export const authService = {
     return { session, error };
   },
 
+  // Authorization header for our own API routes (session lives in localStorage, not cookies),
+  // plus the guest token that owns threads started before signing in
+  getAuthHeaders: async (): Promise<Record<string, string>> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    const guestToken = getGuestToken();
+    return {
+      ...(session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {}),
+      ...(guestToken ? { [GUEST_TOKEN_HEADER]: guestToken } : {}),
+    };
+  },
+
   // Listen to auth changes
   onAuthStateChange: (callback: (event: string, session: any) => void) => {
     return supabase.auth.onAuthStateChange(callback);
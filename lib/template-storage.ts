@@ -0,0 +1,100 @@
+/**
+ * Task Template Storage
+ * Per-user task templates persisted with Prisma, merged with the built-ins
+ */
+
+import { prisma } from '@/lib/prisma';
+import { BUILT_IN_TEMPLATES, extractTemplatePlaceholders } from '@/lib/agents/wp-agent';
+import type { TaskTemplate, TemplateParameter } from '@/lib/agents/wp-agent';
+
+const PARAMETER_TYPES = ['string', 'text', 'number', 'boolean', 'select', 'list'];
+
+export interface TemplateInput {
+  name: string;
+  description?: string;
+  category?: string;
+  instruction: string;
+  parameters?: TemplateParameter[];
+  steps?: string[];
+}
+
+function toTaskTemplate(record: any): TaskTemplate {
+  return {
+    id: record.id,
+    name: record.name,
+    description: record.description,
+    category: record.category,
+    parameters: (record.parameters as TemplateParameter[]) || [],
+    instruction: record.instruction,
+    steps: record.steps,
+    builtIn: false,
+  };
+}
+
+/**
+ * Validate a user-submitted template, returning an error message if invalid
+ */
+export function validateTemplateInput(input: TemplateInput): string | null {
+  if (!input?.name?.trim()) return 'Template name is required';
+  if (!input.instruction?.trim()) return 'Template instruction is required';
+
+  const parameters = input.parameters || [];
+  for (const parameter of parameters) {
+    if (!/^\w+$/.test(parameter.name || '')) return `Invalid parameter name: ${parameter.name}`;
+    if (!PARAMETER_TYPES.includes(parameter.type)) return `Invalid type for parameter ${parameter.name}`;
+    if (parameter.type === 'select' && !parameter.options?.length) return `Parameter ${parameter.name} needs options`;
+  }
+
+  const names = new Set(parameters.map(parameter => parameter.name));
+  const missing = extractTemplatePlaceholders(input.instruction).filter(name => !names.has(name));
+  if (missing.length > 0) return `Undefined parameters in instruction: ${missing.join(', ')}`;
+
+  return null;
+}
+
+/**
+ * List built-in templates followed by the user's own
+ */
+export async function listTemplates(userId?: string | null): Promise<TaskTemplate[]> {
+  if (!userId) return BUILT_IN_TEMPLATES;
+
+  const records = await prisma.taskTemplate.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return [...BUILT_IN_TEMPLATES, ...records.map(toTaskTemplate)];
+}
+
+/**
+ * Find a template by ID; user templates are only visible to their owner
+ */
+export async function getTemplate(id: string, userId?: string | null): Promise<TaskTemplate | null> {
+  const builtIn = BUILT_IN_TEMPLATES.find(template => template.id === id);
+  if (builtIn) return builtIn;
+  if (!userId) return null;
+
+  const record = await prisma.taskTemplate.findFirst({ where: { id, userId } });
+  return record ? toTaskTemplate(record) : null;
+}
+
+export async function createTemplate(userId: string, input: TemplateInput): Promise<TaskTemplate> {
+  const record = await prisma.taskTemplate.create({
+    data: {
+      userId,
+      name: input.name.trim(),
+      description: input.description?.trim() || '',
+      category: input.category?.trim() || 'Custom',
+      parameters: (input.parameters || []) as any,
+      instruction: input.instruction.trim(),
+      steps: (input.steps || []).map(step => step.trim()).filter(Boolean),
+    },
+  });
+
+  return toTaskTemplate(record);
+}
+
+export async function deleteTemplate(id: string, userId: string): Promise<boolean> {
+  const { count } = await prisma.taskTemplate.deleteMany({ where: { id, userId } });
+  return count > 0;
+}
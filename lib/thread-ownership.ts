@@ -0,0 +1,141 @@
+/**
+ * Thread Ownership
+ * Every agent thread belongs to the signed-in user or guest that started it. Guests are
+ * identified by a random token their browser keeps (X-Guest-Token); only its hash is stored.
+ * Routes that address a thread answer 404 when the caller does not own it.
+ */
+
+import { createHash } from 'crypto';
+import type { NextRequest } from 'next/server';
+import { getThreadUserIds } from '@/lib/agents/wp-agent';
+import type { RequestAuth } from '@/lib/auth-middleware';
+import { GUEST_TOKEN_HEADER } from '@/lib/guest-limits';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * Who is addressing a thread: a user, a guest token's hash, or both (a guest who signed in)
+ */
+export interface ThreadOwner {
+  userId?: string;
+  guestKey?: string;
+}
+
+interface ThreadRecord {
+  userId: string | null;
+  guestKey: string | null;
+}
+
+// Owners already looked up or claimed by this process; the only store without a database
+const threadOwners = new Map<string, ThreadRecord>();
+
+function hashGuestToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * The owner identity of a request, or null for a guest without a valid guest token
+ */
+export function getThreadOwner(request: NextRequest, auth: RequestAuth | { userId: string }): ThreadOwner | null {
+  const token = request.headers.get(GUEST_TOKEN_HEADER);
+  const guestKey = token && /^[\w-]{32,128}$/.test(token) ? hashGuestToken(token) : undefined;
+
+  const userId = 'userId' in auth ? auth.userId : auth.user?.id;
+  if (userId) return { userId, guestKey };
+  return guestKey ? { guestKey } : null;
+}
+
+function isOwnedBy(record: ThreadRecord, owner: ThreadOwner): boolean {
+  return Boolean(
+    (record.userId && record.userId === owner.userId)
+    || (record.guestKey && record.guestKey === owner.guestKey)
+  );
+}
+
+async function findThread(threadId: string): Promise<ThreadRecord | null> {
+  const cached = threadOwners.get(threadId);
+  if (cached || !process.env.DATABASE_URL) return cached ?? null;
+
+  const record = await prisma.agentThread.findUnique({ where: { id: threadId } });
+  if (!record) return null;
+
+  const owner = { userId: record.userId, guestKey: record.guestKey };
+  threadOwners.set(threadId, owner);
+  return owner;
+}
+
+/**
+ * Check that the caller owns an existing thread
+ */
+export async function isThreadOwner(threadId: string, owner: ThreadOwner | null): Promise<boolean> {
+  if (!owner) return false;
+  const record = await findThread(threadId);
+  return record !== null && isOwnedBy(record, owner);
+}
+
+/**
+ * Check that the caller may see a run: a signed-in user's run is theirs alone,
+ * a guest's run belongs to whoever owns its thread
+ */
+export async function isRunOwner(run: { threadId: string; userId?: string | null }, owner: ThreadOwner | null): Promise<boolean> {
+  if (!owner) return false;
+  if (run.userId) return run.userId === owner.userId;
+  return isThreadOwner(run.threadId, owner);
+}
+
+/**
+ * Start or continue a thread: a new thread is recorded as the caller's, an existing one
+ * must already be theirs
+ */
+export async function claimThread(threadId: string, owner: ThreadOwner | null): Promise<boolean> {
+  if (!owner) return false;
+
+  const existing = await findThread(threadId);
+  if (existing) return isOwnedBy(existing, owner);
+
+  const claimed: ThreadRecord = {
+    userId: owner.userId ?? null,
+    guestKey: owner.userId ? null : owner.guestKey ?? null,
+  };
+
+  if (!process.env.DATABASE_URL) {
+    threadOwners.set(threadId, claimed);
+    return true;
+  }
+
+  // Threads from before owners were recorded stay with the users whose runs are on them
+  const runOwners = await getThreadUserIds(threadId);
+  if (runOwners.some(userId => userId !== owner.userId)) return false;
+
+  // Concurrent claims of the same ID resolve to whichever record was written first
+  const record = await prisma.agentThread.upsert({
+    where: { id: threadId },
+    create: { id: threadId, ...claimed },
+    update: {},
+  });
+  const stored = { userId: record.userId, guestKey: record.guestKey };
+  threadOwners.set(threadId, stored);
+  return isOwnedBy(stored, owner);
+}
+
+/**
+ * Authorize a request for a thread: `claim` starts or continues it (see claimThread),
+ * otherwise the thread must already exist and be the caller's
+ */
+export async function authorizeThread(
+  request: NextRequest,
+  auth: RequestAuth | { userId: string },
+  threadId: string,
+  options: { claim?: boolean } = {}
+): Promise<{ owner?: ThreadOwner; error?: string; status?: number }> {
+  const owner = getThreadOwner(request, auth);
+  if (!owner) {
+    return { error: `Guest requests need an ${GUEST_TOKEN_HEADER} header`, status: 401 };
+  }
+
+  const allowed = options.claim ? await claimThread(threadId, owner) : await isThreadOwner(threadId, owner);
+  if (!allowed) {
+    return { error: 'Thread not found', status: 404 };
+  }
+
+  return { owner };
+}
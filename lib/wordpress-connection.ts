@@ -1,50 +1,173 @@
 /**
  * WordPress Connection Management
- * Stores and manages WordPress site credentials
+ * Stores and manages WordPress site credentials. Signed-in users keep secrets in the
+ * server-side vault and only the opaque connection ID is stored in the browser.
  */
 
+import { authService } from '@/lib/supabase';
+import type { MCPServerConfig, MCPTransport } from '@/lib/mcp-client-manager';
+import type { ConnectionDiagnostics } from '@/lib/wordpress-diagnostics';
+
+export type ModelProvider = 'anthropic' | 'openai' | 'ollama';
+
 export interface WordPressConnection {
+  id: string; // Site profile ID, used to bind chat threads to a site
+  name?: string; // Profile name shown in the site switcher (defaults to siteName)
+  label?: string; // Short tag, e.g. "staging" or a client name
+  color?: string;
+  isDefault?: boolean;
+  connectionId?: string; // Vault connection; secrets below are then left empty
   url: string;
   username: string;
   password: string;
   anthropicApiKey?: string;
+  openaiApiKey?: string;
+  provider?: ModelProvider;
+  model?: string;
+  baseUrl?: string;
+  mcpTransport?: MCPTransport;
+  mcpUrl?: string;
+  mcpServers?: MCPServerConfig[];
   connected: boolean;
   lastConnected?: Date;
   siteName?: string;
 }
 
-const WP_CONNECTION_KEY = 'wordpress_connection';
+/**
+ * A named set of site profiles that fan-out runs target together
+ */
+export interface SiteGroup {
+  id: string;
+  name: string;
+  siteIds: string[];
+}
+
+export const SITE_COLORS = ['#21759B', '#E4572E', '#2E933C', '#8E44AD', '#F39C12', '#16A085', '#C0392B', '#34495E'];
+
+const WP_PROFILES_KEY = 'wordpress_profiles';
+const WP_ACTIVE_PROFILE_KEY = 'wordpress_active_profile';
+const WP_SITE_GROUPS_KEY = 'wordpress_site_groups';
+const WP_ACTIVE_GROUP_KEY = 'wordpress_active_group';
+// Single connection stored before site profiles existed; migrated on first read
+const LEGACY_CONNECTION_KEY = 'wordpress_connection';
+
+function createProfileId(): string {
+  return `site_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function notifySiteProfilesChanged(): void {
+  window.dispatchEvent(new CustomEvent('siteProfilesChanged'));
+}
+
+function writeProfiles(profiles: WordPressConnection[]): void {
+  localStorage.setItem(WP_PROFILES_KEY, JSON.stringify(profiles));
+  notifySiteProfilesChanged();
+}
 
 /**
- * Get WordPress connection from localStorage
+ * Get all site profiles from localStorage
  */
-export function getWordPressConnection(): WordPressConnection | null {
-  if (typeof window === 'undefined') return null;
-  
+export function getSiteProfiles(): WordPressConnection[] {
+  if (typeof window === 'undefined') return [];
+
   try {
-    const stored = localStorage.getItem(WP_CONNECTION_KEY);
-    if (!stored) return null;
-    
-    const connection = JSON.parse(stored);
-    if (connection.lastConnected) {
-      connection.lastConnected = new Date(connection.lastConnected);
+    const stored = localStorage.getItem(WP_PROFILES_KEY);
+    if (!stored) {
+      const legacy = localStorage.getItem(LEGACY_CONNECTION_KEY);
+      if (!legacy) return [];
+
+      const profile = { ...JSON.parse(legacy), id: createProfileId(), isDefault: true, color: SITE_COLORS[0] };
+      localStorage.setItem(WP_PROFILES_KEY, JSON.stringify([profile]));
+      localStorage.removeItem(LEGACY_CONNECTION_KEY);
+      return getSiteProfiles();
     }
-    
-    return connection;
+
+    const profiles = JSON.parse(stored) as WordPressConnection[];
+    return profiles.map(profile => ({
+      ...profile,
+      lastConnected: profile.lastConnected ? new Date(profile.lastConnected) : undefined,
+    }));
   } catch (error) {
-    console.error('Failed to get WordPress connection:', error);
-    return null;
+    console.error('Failed to get site profiles:', error);
+    return [];
   }
 }
 
+export function getSiteProfile(id: string): WordPressConnection | null {
+  return getSiteProfiles().find(profile => profile.id === id) || null;
+}
+
 /**
- * Save WordPress connection to localStorage
+ * Display name for a site profile
  */
-export function saveWordPressConnection(connection: WordPressConnection): void {
+export function getSiteProfileName(profile: WordPressConnection): string {
+  return profile.name || profile.siteName || profile.url.replace(/^https?:\/\//, '');
+}
+
+/**
+ * The profile new chats run against: the one picked in the switcher, else the default
+ */
+export function getActiveSiteProfile(): WordPressConnection | null {
+  const profiles = getSiteProfiles();
+  const activeId = typeof window !== 'undefined' ? localStorage.getItem(WP_ACTIVE_PROFILE_KEY) : null;
+
+  return profiles.find(profile => profile.id === activeId)
+    || profiles.find(profile => profile.isDefault)
+    || profiles[0]
+    || null;
+}
+
+export function setActiveSiteProfile(id: string): void {
   if (typeof window === 'undefined') return;
-  
+
+  localStorage.setItem(WP_ACTIVE_PROFILE_KEY, id);
+  notifySiteProfilesChanged();
+}
+
+/**
+ * Make one profile the default for new sessions
+ */
+export function setDefaultSiteProfile(id: string): void {
+  if (typeof window === 'undefined') return;
+
+  writeProfiles(getSiteProfiles().map(profile => ({ ...profile, isDefault: profile.id === id })));
+}
+
+/**
+ * Get the active WordPress connection (kept for single-site callers)
+ */
+export function getWordPressConnection(): WordPressConnection | null {
+  return getActiveSiteProfile();
+}
+
+/**
+ * Create or update a site profile in localStorage and make it active.
+ * The first profile becomes the default.
+ */
+export function saveWordPressConnection(
+  connection: Omit<WordPressConnection, 'id'> & { id?: string }
+): WordPressConnection {
+  if (typeof window === 'undefined') throw new Error('Failed to save connection');
+
   try {
-    localStorage.setItem(WP_CONNECTION_KEY, JSON.stringify(connection));
+    const profiles = getSiteProfiles();
+    const profile: WordPressConnection = {
+      ...connection,
+      id: connection.id || createProfileId(),
+      color: connection.color || SITE_COLORS[profiles.length % SITE_COLORS.length],
+    };
+    const exists = profiles.some(item => item.id === profile.id);
+
+    let next = exists
+      ? profiles.map(item => item.id === profile.id ? profile : item)
+      : [...profiles, profile];
+    if (profile.isDefault || !next.some(item => item.isDefault)) {
+      next = next.map(item => ({ ...item, isDefault: item.id === profile.id }));
+    }
+
+    localStorage.setItem(WP_PROFILES_KEY, JSON.stringify(next));
+    setActiveSiteProfile(profile.id);
+    return profile;
   } catch (error) {
     console.error('Failed to save WordPress connection:', error);
     throw new Error('Failed to save connection');
@@ -52,53 +175,152 @@ export function saveWordPressConnection(connection: WordPressConnection): void {
 }
 
 /**
- * Remove WordPress connection from localStorage
+ * Remove a site profile (the active one if no ID is given)
  */
-export function removeWordPressConnection(): void {
+export function removeWordPressConnection(id?: string): void {
   if (typeof window === 'undefined') return;
-  
+
   try {
-    localStorage.removeItem(WP_CONNECTION_KEY);
+    const targetId = id || getActiveSiteProfile()?.id;
+    let remaining = getSiteProfiles().filter(profile => profile.id !== targetId);
+    if (remaining.length > 0 && !remaining.some(profile => profile.isDefault)) {
+      remaining = remaining.map((profile, index) => ({ ...profile, isDefault: index === 0 }));
+    }
+
+    if (localStorage.getItem(WP_ACTIVE_PROFILE_KEY) === targetId) {
+      localStorage.removeItem(WP_ACTIVE_PROFILE_KEY);
+    }
+    writeGroups(getSiteGroups().map(group => ({ ...group, siteIds: group.siteIds.filter(siteId => siteId !== targetId) })));
+    writeProfiles(remaining);
   } catch (error) {
     console.error('Failed to remove WordPress connection:', error);
   }
 }
 
 /**
- * Test WordPress connection
+ * Get all site groups from localStorage
+ */
+export function getSiteGroups(): SiteGroup[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = localStorage.getItem(WP_SITE_GROUPS_KEY);
+    return stored ? JSON.parse(stored) as SiteGroup[] : [];
+  } catch (error) {
+    console.error('Failed to get site groups:', error);
+    return [];
+  }
+}
+
+export function getSiteGroup(id: string): SiteGroup | null {
+  return getSiteGroups().find(group => group.id === id) || null;
+}
+
+function writeGroups(groups: SiteGroup[]): void {
+  localStorage.setItem(WP_SITE_GROUPS_KEY, JSON.stringify(groups));
+  notifySiteProfilesChanged();
+}
+
+/**
+ * Create or update a site group
+ */
+export function saveSiteGroup(group: Omit<SiteGroup, 'id'> & { id?: string }): SiteGroup {
+  const saved: SiteGroup = { ...group, id: group.id || `group_${Date.now()}_${Math.random().toString(36).substr(2, 9)}` };
+  const groups = getSiteGroups();
+
+  writeGroups(groups.some(item => item.id === saved.id)
+    ? groups.map(item => item.id === saved.id ? saved : item)
+    : [...groups, saved]);
+  return saved;
+}
+
+export function removeSiteGroup(id: string): void {
+  if (typeof window === 'undefined') return;
+
+  if (localStorage.getItem(WP_ACTIVE_GROUP_KEY) === id) {
+    localStorage.removeItem(WP_ACTIVE_GROUP_KEY);
+  }
+  writeGroups(getSiteGroups().filter(group => group.id !== id));
+}
+
+/**
+ * The group new chats fan out to, or null when chats run against a single site
+ */
+export function getActiveSiteGroup(): SiteGroup | null {
+  if (typeof window === 'undefined') return null;
+
+  const activeId = localStorage.getItem(WP_ACTIVE_GROUP_KEY);
+  return activeId ? getSiteGroup(activeId) : null;
+}
+
+export function setActiveSiteGroup(id: string | null): void {
+  if (typeof window === 'undefined') return;
+
+  if (id) {
+    localStorage.setItem(WP_ACTIVE_GROUP_KEY, id);
+  } else {
+    localStorage.removeItem(WP_ACTIVE_GROUP_KEY);
+  }
+  notifySiteProfilesChanged();
+}
+
+/**
+ * Request body for a fan-out run: each connected site in the group with its credentials
+ */
+export function getSiteGroupRequestBody(groupId: string): { sites: Array<{ id: string; name: string } & ReturnType<typeof getWordPressRequestBody>> } {
+  const group = getSiteGroup(groupId);
+  const sites = (group?.siteIds || [])
+    .map(siteId => getSiteProfile(siteId))
+    .filter((profile): profile is WordPressConnection => !!profile?.connected)
+    .map(profile => ({ id: profile.id, name: getSiteProfileName(profile), ...getWordPressRequestBody(profile.id) }));
+
+  return { sites };
+}
+
+/**
+ * Run the server-side connection diagnostics for inline credentials or a vault connection
+ */
+export async function diagnoseWordPressConnection(
+  site: { connection_id: string } | { wordpress_credentials: { url: string; username: string; password: string } }
+): Promise<ConnectionDiagnostics> {
+  const response = await fetch('/api/wordpress/diagnostics', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(await authService.getAuthHeaders()),
+    },
+    body: JSON.stringify(site),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP ${response.status}`);
+  }
+
+  return data.diagnostics;
+}
+
+/**
+ * Test WordPress connection. Runs on the server, so it also works for sites without CORS headers;
+ * the full diagnostic report explains any failure.
  */
 export async function testWordPressConnection(
   url: string,
   username: string,
   password: string
-): Promise<{ success: boolean; error?: string; siteName?: string }> {
+): Promise<{ success: boolean; error?: string; siteName?: string; diagnostics?: ConnectionDiagnostics }> {
   try {
-    // Format URL
-    const cleanUrl = formatWordPressUrl(url);
-    
-    // Create Basic Auth credentials
-    const credentials = btoa(`${username}:${password}`);
-    
-    // Test connection by fetching site info
-    const response = await fetch(`${cleanUrl}/wp-json`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Basic ${credentials}`,
-        'Content-Type': 'application/json',
-      },
+    const diagnostics = await diagnoseWordPressConnection({
+      wordpress_credentials: { url: formatWordPressUrl(url), username, password },
     });
+    const failed = diagnostics.checks.find(check => check.status === 'fail');
 
-    if (!response.ok) {
-      if (response.status === 401) {
-        return { success: false, error: 'Invalid username or password' };
-      }
-      return { success: false, error: `HTTP ${response.status}: ${response.statusText}` };
-    }
-
-    const data = await response.json();
-    const siteName = data.name || 'WordPress Site';
-
-    return { success: true, siteName };
+    return {
+      success: diagnostics.ok,
+      error: failed ? `${failed.label}: ${failed.detail}` : undefined,
+      siteName: diagnostics.siteName || 'WordPress Site',
+      diagnostics,
+    };
   } catch (error) {
     console.error('WordPress connection test failed:', error);
     return {
@@ -134,15 +356,22 @@ export function isWordPressConnected(): boolean {
 }
 
 /**
- * Get WordPress credentials for API use
+ * Get WordPress credentials for API use, for a specific profile or the active one
  */
-export function getWordPressCredentials(): {
+export function getWordPressCredentials(profileId?: string): {
   url: string;
   username: string;
   password: string;
   anthropicApiKey?: string;
+  openaiApiKey?: string;
+  provider?: ModelProvider;
+  model?: string;
+  baseUrl?: string;
+  mcpTransport?: MCPTransport;
+  mcpUrl?: string;
+  mcpServers?: MCPServerConfig[];
 } | null {
-  const connection = getWordPressConnection();
+  const connection = profileId ? getSiteProfile(profileId) : getWordPressConnection();
   if (!connection?.connected) return null;
   
   return {
@@ -150,5 +379,82 @@ export function getWordPressCredentials(): {
     username: connection.username,
     password: connection.password,
     anthropicApiKey: connection.anthropicApiKey,
+    openaiApiKey: connection.openaiApiKey,
+    provider: connection.provider,
+    model: connection.model,
+    baseUrl: connection.baseUrl,
+    mcpTransport: connection.mcpTransport,
+    mcpUrl: connection.mcpUrl,
+    mcpServers: connection.mcpServers,
   };
-}
\ No newline at end of file
+}
+/**
+ * Request body fields identifying the site: the vault connection ID, or inline credentials.
+ * Pass the profile a thread is bound to; defaults to the active profile.
+ */
+export function getWordPressRequestBody(profileId?: string): { connection_id?: string; wordpress_credentials?: ReturnType<typeof getWordPressCredentials> } {
+  const connection = profileId ? getSiteProfile(profileId) : getWordPressConnection();
+  if (connection?.connected && connection.connectionId) {
+    return { connection_id: connection.connectionId };
+  }
+  return { wordpress_credentials: connection ? getWordPressCredentials(connection.id) : null };
+}
+
+/**
+ * Store a connection in the server-side vault (updating it if connectionId is given).
+ * Returns the connection ID, or null when the vault is unavailable or the user is not signed in.
+ */
+export async function saveConnectionToVault(
+  connection: Omit<WordPressConnection, 'id' | 'connectionId' | 'connected' | 'lastConnected'>,
+  connectionId?: string
+): Promise<string | null> {
+  const authHeaders = await authService.getAuthHeaders();
+  if (!('Authorization' in authHeaders)) return null;
+
+  // Profile display settings (label, colour, default) stay in the browser
+  const body = {
+    name: connection.name || connection.siteName,
+    url: connection.url,
+    username: connection.username,
+    password: connection.password,
+    anthropicApiKey: connection.anthropicApiKey,
+    openaiApiKey: connection.openaiApiKey,
+    provider: connection.provider,
+    model: connection.model,
+    baseUrl: connection.baseUrl,
+    mcpTransport: connection.mcpTransport,
+    mcpUrl: connection.mcpUrl,
+    mcpServers: connection.mcpServers,
+  };
+  const response = await fetch(connectionId ? `/api/connections/${connectionId}` : '/api/connections', {
+    method: connectionId ? 'PATCH' : 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (response.status === 503) return null;
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to save connection');
+  }
+
+  return data.connection.id;
+}
+
+/**
+ * Revoke a vault connection so its ID can no longer be used
+ */
+export async function revokeVaultConnection(connectionId: string): Promise<void> {
+  try {
+    await fetch(`/api/connections/${connectionId}`, {
+      method: 'DELETE',
+      headers: await authService.getAuthHeaders(),
+    });
+  } catch (error) {
+    console.error('Failed to revoke connection:', error);
+  }
+}
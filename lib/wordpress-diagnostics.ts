@@ -0,0 +1,374 @@
+/**
+ * WordPress Connection Diagnostics
+ * Server-side checks of everything the agent needs from a site: a reachable REST API,
+ * application passwords, working authentication, user capabilities and plugin namespaces.
+ * Each failed check carries a concrete fix.
+ */
+
+export type DiagnosticStatus = 'pass' | 'warn' | 'fail' | 'info';
+
+export interface DiagnosticCheck {
+  id: string;
+  label: string;
+  status: DiagnosticStatus;
+  detail: string;
+  fix?: string;
+}
+
+export interface ConnectionDiagnostics {
+  ok: boolean; // No check failed
+  siteName?: string;
+  wpVersion?: string;
+  namespaces: string[];
+  user?: { name: string; roles: string[]; capabilities: string[] };
+  plugins?: string[]; // Active plugins, when the user may list them
+  checks: DiagnosticCheck[];
+  checkedAt: string;
+}
+
+export interface FetchResult {
+  status: number;
+  json?: any;
+  text: string;
+  error?: string;
+  redirect?: string; // Origin of a redirect to another host, which is not followed
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+const MAX_REDIRECTS = 5;
+
+// Application passwords shipped in WordPress 5.6
+const MIN_WP_VERSION = [5, 6];
+
+/**
+ * Capabilities the agent's tools rely on, with what is lost without them
+ */
+const REQUIRED_CAPABILITIES: Record<string, string> = {
+  edit_posts: 'create and edit posts',
+  publish_posts: 'publish posts',
+  edit_pages: 'edit pages',
+  upload_files: 'upload media',
+  manage_options: 'change site settings',
+  activate_plugins: 'manage plugins',
+  edit_theme_options: 'edit menus and widgets',
+  list_users: 'list users',
+};
+
+/**
+ * Optional plugin namespaces that unlock extra tools
+ */
+const INTEGRATIONS: { id: string; label: string; match: (namespace: string) => boolean; plugin: string }[] = [
+  { id: 'woocommerce', label: 'WooCommerce', match: namespace => namespace === 'wc/v3', plugin: 'WooCommerce' },
+  { id: 'yoast', label: 'Yoast SEO', match: namespace => namespace.startsWith('yoast/'), plugin: 'Yoast SEO' },
+  { id: 'acf', label: 'Advanced Custom Fields', match: namespace => namespace.startsWith('acf'), plugin: 'ACF (with REST API support enabled)' },
+];
+
+/**
+ * GET a site URL with a timeout, parsing JSON when the body is JSON. Never throws.
+ * Redirects are only followed on the same host, so neither the request nor its
+ * credentials can be sent somewhere the site points at.
+ */
+export async function fetchSite(url: string, authorization?: string): Promise<FetchResult> {
+  try {
+    const signal = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+    const host = new URL(url).hostname;
+    let current = url;
+    let response: Response;
+
+    for (let redirects = 0; ; redirects++) {
+      response = await fetch(current, {
+        headers: {
+          Accept: 'application/json',
+          ...(authorization && { Authorization: authorization }),
+        },
+        redirect: 'manual',
+        signal,
+      });
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location || redirects === MAX_REDIRECTS) break;
+
+      const next = new URL(location, current);
+      if (next.hostname !== host || !['http:', 'https:'].includes(next.protocol)) {
+        await response.body?.cancel();
+        return { status: response.status, text: '', error: `redirects to ${next.origin}`, redirect: next.origin };
+      }
+      await response.body?.cancel();
+      current = next.toString();
+    }
+
+    const text = await response.text();
+
+    let json: any;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      json = undefined;
+    }
+
+    return { status: response.status, json, text };
+  } catch (error) {
+    // fetch wraps network failures; the cause carries the code (ENOTFOUND, ECONNREFUSED, ...)
+    const cause = (error as any)?.cause;
+    return {
+      status: 0,
+      text: '',
+      error: (error as any)?.name === 'TimeoutError'
+        ? 'timed out'
+        : cause?.code || cause?.errors?.[0]?.code || cause?.message || (error instanceof Error ? error.message : String(error)),
+    };
+  }
+}
+
+/**
+ * Whether a URL reported by the site is on the same origin as the URL it was reached at
+ */
+function isSameOrigin(url: string, baseUrl: string): boolean {
+  try {
+    return new URL(url).origin === new URL(baseUrl).origin;
+  } catch {
+    return false;
+  }
+}
+
+function parseVersion(text: string): string | undefined {
+  return text.match(/WordPress\s+(\d+\.\d+(?:\.\d+)?)/i)?.[1]
+    || text.match(/wordpress\.org\/\?v=(\d+\.\d+(?:\.\d+)?)/i)?.[1];
+}
+
+function isOlderThan(version: string, minimum: number[]): boolean {
+  const parts = version.split('.').map(Number);
+  for (let i = 0; i < minimum.length; i++) {
+    if ((parts[i] ?? 0) !== minimum[i]) return (parts[i] ?? 0) < minimum[i];
+  }
+  return false;
+}
+
+/**
+ * Build a REST URL for either /wp-json or the ?rest_route= fallback
+ */
+export function restUrl(restBase: string, route: string, query: Record<string, string> = {}): string {
+  const params = new URLSearchParams(query).toString();
+  if (!params) return `${restBase}${route}`;
+  return `${restBase}${route}${restBase.includes('?') ? '&' : '?'}${params}`;
+}
+
+/**
+ * Basic auth header for an application password
+ */
+export function basicAuthorization(username: string, password: string): string {
+  return `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+}
+
+/**
+ * Active plugin slugs (e.g. woocommerce/woocommerce); empty when the user cannot list plugins
+ */
+export async function fetchActivePlugins(restBase: string, authorization: string): Promise<string[]> {
+  const plugins = await fetchSite(restUrl(restBase, '/wp/v2/plugins', { status: 'active' }), authorization);
+  return Array.isArray(plugins.json) ? plugins.json.map((plugin: any) => plugin.plugin).filter(Boolean) : [];
+}
+
+/**
+ * Locate the REST API index, falling back to ?rest_route= when pretty permalinks are off
+ */
+export async function checkRestApi(baseUrl: string, checks: DiagnosticCheck[]): Promise<{ index: any; restBase: string } | null> {
+  const pretty = await fetchSite(`${baseUrl}/wp-json/`);
+  if (pretty.json?.namespaces) {
+    checks.push({ id: 'rest_api', label: 'REST API', status: 'pass', detail: `Reachable at ${baseUrl}/wp-json` });
+    checks.push({ id: 'permalinks', label: 'Permalinks', status: 'pass', detail: 'Pretty permalinks are enabled' });
+    return { index: pretty.json, restBase: `${baseUrl}/wp-json` };
+  }
+
+  if (pretty.error) {
+    checks.push({
+      id: 'rest_api',
+      label: 'REST API',
+      status: 'fail',
+      detail: `Could not reach ${baseUrl} (${pretty.error})`,
+      fix: pretty.redirect
+        ? `The site redirects to another address; use ${pretty.redirect} as the site URL.`
+        : 'Check the site URL is spelled correctly and publicly reachable. Sites on localhost or behind a VPN cannot be reached from the server.',
+    });
+    return null;
+  }
+
+  const plain = await fetchSite(`${baseUrl}/?rest_route=/`);
+  if (plain.json?.namespaces) {
+    checks.push({ id: 'rest_api', label: 'REST API', status: 'pass', detail: 'Reachable through ?rest_route=' });
+    checks.push({
+      id: 'permalinks',
+      label: 'Permalinks',
+      status: 'fail',
+      detail: `Permalinks are set to "Plain", so ${baseUrl}/wp-json returns HTTP ${pretty.status}`,
+      fix: 'In WordPress go to Settings → Permalinks, choose "Post name" (or any option other than Plain) and save.',
+    });
+    return { index: plain.json, restBase: `${baseUrl}/?rest_route=` };
+  }
+
+  const status = pretty.status;
+  checks.push({
+    id: 'rest_api',
+    label: 'REST API',
+    status: 'fail',
+    detail: status === 404
+      ? `No WordPress REST API found (HTTP 404 at ${baseUrl}/wp-json)`
+      : status === 401 || status === 403
+        ? `The REST API is blocked (HTTP ${status})`
+        : status >= 200 && status < 400
+          ? 'The site returned HTML instead of the REST API'
+          : `The REST API returned HTTP ${status}`,
+    fix: status === 404
+      ? 'Make sure the URL is the WordPress address (including the subdirectory if WordPress is installed in one, e.g. https://example.com/blog).'
+      : status === 401 || status === 403
+        ? 'A security plugin (e.g. "Disable REST API", Wordfence, iThemes Security) or the host firewall is blocking /wp-json. Allow REST API access for authenticated users.'
+        : status >= 200 && status < 400
+          ? 'A maintenance/coming-soon page, caching plugin or redirect is intercepting /wp-json. Exclude /wp-json from it.'
+          : 'Check the server error log; a plugin may be breaking the REST API (Tools → Site Health also reports REST API errors).',
+  });
+  return null;
+}
+
+/**
+ * Run the full diagnostic report for a site
+ */
+export async function runConnectionDiagnostics(credentials: {
+  url: string;
+  username: string;
+  password: string;
+}): Promise<ConnectionDiagnostics> {
+  const baseUrl = credentials.url.trim().replace(/\/+$/, '');
+  const checks: DiagnosticCheck[] = [];
+  const report: ConnectionDiagnostics = { ok: false, namespaces: [], checks, checkedAt: new Date().toISOString() };
+
+  const rest = await checkRestApi(baseUrl, checks);
+  if (!rest) return report;
+
+  const { index, restBase } = rest;
+  report.siteName = index.name;
+  report.namespaces = index.namespaces || [];
+
+  // The site address comes from the response, so it is only fetched when it is this origin
+  const siteUrl: string = index.url || index.home || baseUrl;
+  const versionUrl = isSameOrigin(siteUrl, baseUrl) ? siteUrl.replace(/\/+$/, '') : baseUrl;
+
+  // HTTPS: application passwords are disabled on plain HTTP outside local environments
+  if (baseUrl.startsWith('https://')) {
+    checks.push({ id: 'https', label: 'HTTPS', status: 'pass', detail: 'The connection is encrypted' });
+  } else {
+    checks.push({
+      id: 'https',
+      label: 'HTTPS',
+      status: 'warn',
+      detail: 'The site is reached over plain HTTP, so the application password is sent unencrypted',
+      fix: siteUrl.startsWith('https://')
+        ? `The site supports HTTPS; use ${siteUrl.replace(/\/+$/, '')} as the site URL.`
+        : 'Install an SSL certificate (most hosts offer free Let\'s Encrypt certificates) and switch the WordPress and Site Address to https://.',
+    });
+  }
+
+  // Application passwords (the key is "application-passwords" in the REST index)
+  const authentication = index.authentication || {};
+  if (authentication['application-passwords'] || authentication.application_passwords) {
+    checks.push({ id: 'application_passwords', label: 'Application passwords', status: 'pass', detail: 'Enabled' });
+  } else {
+    checks.push({
+      id: 'application_passwords',
+      label: 'Application passwords',
+      status: 'fail',
+      detail: 'Application passwords are not available on this site',
+      fix: 'They need WordPress 5.6+ and HTTPS. If both are in place, a security plugin (Wordfence disables them by default) or a wp_is_application_passwords_available filter has turned them off.',
+    });
+  }
+
+  // Authentication and the user's capabilities
+  const authorization = basicAuthorization(credentials.username, credentials.password);
+  const me = await fetchSite(restUrl(restBase, '/wp/v2/users/me', { context: 'edit' }), authorization);
+  if (me.status === 200 && me.json?.id) {
+    const roles: string[] = me.json.roles || [];
+    const capabilities: Record<string, boolean> = me.json.capabilities || {};
+    report.user = {
+      name: me.json.name || credentials.username,
+      roles,
+      capabilities: Object.keys(capabilities).filter(capability => capabilities[capability]),
+    };
+    if (capabilities.activate_plugins) {
+      report.plugins = await fetchActivePlugins(restBase, authorization);
+    }
+
+    checks.push({
+      id: 'authentication',
+      label: 'Authentication',
+      status: 'pass',
+      detail: `Signed in as ${report.user.name}${roles.length ? ` (${roles.join(', ')})` : ''}`,
+    });
+
+    const missing = Object.keys(REQUIRED_CAPABILITIES).filter(capability => !capabilities[capability]);
+    checks.push(missing.length === 0
+      ? { id: 'capabilities', label: 'Roles & capabilities', status: 'pass', detail: 'The user can manage content, plugins and settings' }
+      : {
+          id: 'capabilities',
+          label: 'Roles & capabilities',
+          status: missing.includes('edit_posts') ? 'fail' : 'warn',
+          detail: `The agent will not be able to ${missing.map(capability => REQUIRED_CAPABILITIES[capability]).join(', ')}`,
+          fix: 'Connect with an Administrator account, or give this user a role with the missing capabilities.',
+        });
+  } else {
+    const code: string | undefined = me.json?.code;
+    checks.push({
+      id: 'authentication',
+      label: 'Authentication',
+      status: 'fail',
+      detail: me.error
+        ? `Authentication request failed (${me.error})`
+        : code === 'rest_not_logged_in'
+          ? 'The credentials never reached WordPress'
+          : code === 'invalid_username' || code === 'incorrect_password' || me.status === 401
+            ? 'WordPress rejected the username or application password'
+            : `Authentication failed (HTTP ${me.status}${code ? `, ${code}` : ''})`,
+      fix: code === 'rest_not_logged_in'
+        ? 'The web server strips the Authorization header. On Apache add `SetEnvIf Authorization "(.*)" HTTP_AUTHORIZATION=$1` to .htaccess; on other hosts ask support to pass the Authorization header to PHP.'
+        : 'Create an application password under Users → Profile → Application Passwords and paste it here. Your normal login password will not work.',
+    });
+  }
+
+  // WordPress version: from the index when a plugin exposes it, else the generator tag or feed
+  let version: string | undefined = index.wp_version;
+  if (!version) {
+    const home = await fetchSite(versionUrl);
+    version = parseVersion(home.text);
+  }
+  if (!version) {
+    const feed = await fetchSite(`${versionUrl}/?feed=rss2`);
+    version = parseVersion(feed.text);
+  }
+  report.wpVersion = version;
+  checks.push(!version
+    ? { id: 'wp_version', label: 'WordPress version', status: 'info', detail: 'Hidden by the site (the generator tag is removed)' }
+    : isOlderThan(version, MIN_WP_VERSION)
+      ? {
+          id: 'wp_version',
+          label: 'WordPress version',
+          status: 'fail',
+          detail: `WordPress ${version} is too old for application passwords`,
+          fix: 'Update WordPress to 5.6 or later from Dashboard → Updates.',
+        }
+      : { id: 'wp_version', label: 'WordPress version', status: 'pass', detail: `WordPress ${version}` });
+
+  // Optional integrations
+  for (const integration of INTEGRATIONS) {
+    const namespace = report.namespaces.find(integration.match);
+    checks.push(namespace
+      ? { id: integration.id, label: integration.label, status: 'pass', detail: `Available (${namespace})` }
+      : {
+          id: integration.id,
+          label: integration.label,
+          status: 'info',
+          detail: `Not detected; ${integration.label} tools are unavailable`,
+          fix: `Install and activate ${integration.plugin} to use these tools.`,
+        });
+  }
+
+  report.ok = !checks.some(check => check.status === 'fail');
+  return report;
+}
@@ -9,7 +9,7 @@ export const config = {
   matcher: [
     /*
      * Match all request paths except for the ones starting with:
-     * - api (API routes)
+     * - api (API routes verify the session themselves: see authenticateRequest)
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "agent_checkpoints" (
+    "thread_id" TEXT NOT NULL,
+    "checkpoint_ns" TEXT NOT NULL DEFAULT '',
+    "checkpoint_id" TEXT NOT NULL,
+    "parent_checkpoint_id" TEXT,
+    "type" TEXT NOT NULL,
+    "checkpoint" BYTEA NOT NULL,
+    "metadata" BYTEA NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "agent_checkpoints_pkey" PRIMARY KEY ("thread_id","checkpoint_ns","checkpoint_id")
+);
+
+-- CreateTable
+CREATE TABLE "agent_checkpoint_writes" (
+    "thread_id" TEXT NOT NULL,
+    "checkpoint_ns" TEXT NOT NULL DEFAULT '',
+    "checkpoint_id" TEXT NOT NULL,
+    "task_id" TEXT NOT NULL,
+    "idx" INTEGER NOT NULL,
+    "channel" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "value" BYTEA NOT NULL,
+
+    CONSTRAINT "agent_checkpoint_writes_pkey" PRIMARY KEY ("thread_id","checkpoint_ns","checkpoint_id","task_id","idx")
+);
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "JournalStatus" AS ENUM ('APPLIED', 'UNDONE', 'UNDO_FAILED');
+
+-- CreateTable
+CREATE TABLE "change_journal" (
+    "id" TEXT NOT NULL,
+    "thread_id" TEXT NOT NULL,
+    "turn_id" TEXT NOT NULL,
+    "tool_call_id" TEXT NOT NULL,
+    "tool_name" TEXT NOT NULL,
+    "args" JSONB NOT NULL,
+    "snapshot" JSONB,
+    "inverse" JSONB,
+    "status" "JournalStatus" NOT NULL DEFAULT 'APPLIED',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "undone_at" TIMESTAMP(3),
+
+    CONSTRAINT "change_journal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "change_journal_thread_id_created_at_idx" ON "change_journal"("thread_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "change_journal_turn_id_idx" ON "change_journal"("turn_id");
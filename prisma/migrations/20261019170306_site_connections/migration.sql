@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "site_connections" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "username" TEXT NOT NULL,
+    "settings" JSONB NOT NULL,
+    "ciphertext" TEXT NOT NULL,
+    "key_version" INTEGER NOT NULL,
+    "last_used_at" TIMESTAMP(3),
+    "revoked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "site_connections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "site_connections_user_id_idx" ON "site_connections"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "site_connections" ADD CONSTRAINT "site_connections_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "AgentRunStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "agent_runs" (
+    "id" TEXT NOT NULL,
+    "thread_id" TEXT NOT NULL,
+    "status" "AgentRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(3),
+
+    CONSTRAINT "agent_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "agent_run_events" (
+    "run_id" TEXT NOT NULL,
+    "seq" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "agent_run_events_pkey" PRIMARY KEY ("run_id","seq")
+);
+
+-- CreateIndex
+CREATE INDEX "agent_runs_thread_id_idx" ON "agent_runs"("thread_id");
+
+-- AddForeignKey
+ALTER TABLE "agent_run_events" ADD CONSTRAINT "agent_run_events_run_id_fkey" FOREIGN KEY ("run_id") REFERENCES "agent_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
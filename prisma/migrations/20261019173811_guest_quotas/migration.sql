@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "guest_quotas" (
+    "key" TEXT NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "window_start" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "guest_quotas_pkey" PRIMARY KEY ("key")
+);
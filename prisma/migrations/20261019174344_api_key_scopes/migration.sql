@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "api_keys" ADD COLUMN "prefix" TEXT,
+ADD COLUMN "scopes" TEXT[],
+ADD COLUMN "revoked_at" TIMESTAMP(3);
+
+-- Keys from before scopes were stored in plain text and never usable through the API:
+-- keep their display prefix, store only their hash and revoke them
+UPDATE "api_keys"
+SET "prefix" = LEFT("key", 10),
+    "key" = encode(sha256(convert_to("key", 'UTF8')), 'hex'),
+    "scopes" = ARRAY[]::TEXT[],
+    "revoked_at" = CURRENT_TIMESTAMP;
+
+-- AlterTable
+ALTER TABLE "api_keys" ALTER COLUMN "prefix" SET NOT NULL;
+
+-- Keys of users that no longer exist would fail the new foreign key
+DELETE FROM "api_keys" WHERE "user_id" NOT IN (SELECT "id" FROM "users");
+
+-- CreateIndex
+CREATE INDEX "api_keys_user_id_idx" ON "api_keys"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "agent_runs" ADD COLUMN "user_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "agent_runs_user_id_idx" ON "agent_runs"("user_id");
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "agent_threads" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT,
+    "guest_key" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "agent_threads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "agent_threads_user_id_idx" ON "agent_threads"("user_id");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "change_journal" ADD COLUMN "site" TEXT,
+ADD COLUMN "user_id" TEXT;